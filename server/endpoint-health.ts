@@ -0,0 +1,254 @@
+import type { IncomingMessage, ServerResponse } from "http"
+import { readFileSync } from "fs"
+import * as vsphere from "./vsphere-client.js"
+import * as nsx from "./nsx-client.js"
+
+// ─── Endpoint health monitor ────────────────────────────────────────────────
+//
+// Checks the endpoints listed in the ZPODWEB_HEALTH_CONFIG file on a timer,
+// whether or not anyone has the UI open, and keeps a rolling in-memory
+// history per endpoint. The file holds the credentials, which never leave
+// the server. GET /health/endpoints needs no login, so it only returns the
+// endpoint names with status, latency and datastore usage: hostnames, object
+// names and errors stay in the server log.
+//
+// {
+//   "endpoints": [{
+//     "name": "production-01",
+//     "compute": { "hostname": "vcsa.example.com", "username": "...", "password": "...", "storage_datastore": "vsanDatastore" },
+//     "network": { "hostname": "nsx.example.com", "username": "...", "password": "...", "edgecluster": "ec-01", "t0": "t0-01" }
+//   }]
+// }
+
+const CONFIG_PATH = process.env.ZPODWEB_HEALTH_CONFIG
+const INTERVAL_MS = (Number(process.env.ZPODWEB_HEALTH_INTERVAL) || 60) * 1000
+const HISTORY_SIZE = Number(process.env.ZPODWEB_HEALTH_HISTORY) || 120
+const CHECK_TIMEOUT_MS = 20000
+
+interface MonitoredEndpoint {
+  name: string
+  compute: { hostname: string; username: string; password: string; storage_datastore?: string }
+  network: { hostname: string; username: string; password: string; edgecluster?: string; t0?: string }
+}
+
+interface NamedCheck {
+  name: string
+  ok: boolean
+}
+
+interface VsphereSample {
+  ok: boolean
+  latencyMs: number | null
+  error?: string
+  datastore?: NamedCheck & { capacityGB?: number; usedGB?: number }
+}
+
+interface NsxSample {
+  ok: boolean
+  latencyMs: number | null
+  error?: string
+  edgecluster?: NamedCheck
+  t0?: NamedCheck
+}
+
+interface HealthSample {
+  at: string
+  vsphere: VsphereSample
+  nsx: NsxSample
+}
+
+interface EndpointHistory {
+  name: string
+  computeHostname: string
+  networkHostname: string
+  samples: HealthSample[]
+}
+
+let endpoints: MonitoredEndpoint[] = []
+let configError: string | null = null
+const histories = new Map<string, EndpointHistory>()
+let timer: NodeJS.Timeout | null = null
+let running = false
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : "Unknown error"
+}
+
+/**
+ * Stops waiting after CHECK_TIMEOUT_MS. The request itself carries on, so
+ * `onLate` receives a value that arrives after the deadline (a session to
+ * log out of, typically).
+ */
+function withTimeout<T>(promise: Promise<T>, onLate?: (value: T) => void): Promise<T> {
+  return new Promise((resolve, reject) => {
+    let timedOut = false
+    const t = setTimeout(() => {
+      timedOut = true
+      reject(new Error(`No answer after ${CHECK_TIMEOUT_MS / 1000}s`))
+    }, CHECK_TIMEOUT_MS)
+    promise.then(
+      (value) => {
+        clearTimeout(t)
+        if (timedOut) onLate?.(value)
+        else resolve(value)
+      },
+      (err) => { clearTimeout(t); reject(err) }
+    )
+  })
+}
+
+function loadConfig(path: string): MonitoredEndpoint[] {
+  const parsed = JSON.parse(readFileSync(path, "utf-8")) as { endpoints?: MonitoredEndpoint[] }
+  const list = parsed.endpoints ?? []
+  for (const ep of list) {
+    if (!ep.name || !ep.compute?.hostname || !ep.compute.username || !ep.compute.password ||
+        !ep.network?.hostname || !ep.network.username || !ep.network.password) {
+      throw new Error(`endpoint "${ep.name ?? "?"}" needs a name and compute / network hostname, username and password`)
+    }
+  }
+  return list
+}
+
+async function checkVsphere(ep: MonitoredEndpoint): Promise<VsphereSample> {
+  const { hostname, username, password, storage_datastore } = ep.compute
+  const start = Date.now()
+  let session: vsphere.VsphereSession
+  try {
+    // A vCenter answering after the deadline would otherwise keep one session per interval
+    session = await withTimeout(
+      vsphere.connect(hostname, username, password),
+      (late) => { vsphere.disconnect(late).catch(() => {}) }
+    )
+  } catch (err) {
+    return { ok: false, latencyMs: null, error: errorMessage(err) }
+  }
+  const sample: VsphereSample = { ok: true, latencyMs: Date.now() - start }
+
+  try {
+    if (storage_datastore) {
+      const info = await withTimeout(vsphere.checkDatastore(session, storage_datastore))
+      sample.datastore = info.exists
+        ? { name: storage_datastore, ok: true, capacityGB: info.capacityGB, usedGB: info.usedGB }
+        : { name: storage_datastore, ok: false }
+    }
+  } catch {
+    sample.datastore = { name: storage_datastore!, ok: false }
+  } finally {
+    vsphere.disconnect(session).catch(() => {})
+  }
+  return sample
+}
+
+async function checkNsx(ep: MonitoredEndpoint): Promise<NsxSample> {
+  const { hostname, username, password, edgecluster, t0 } = ep.network
+  const start = Date.now()
+  let session: nsx.NsxSession
+  try {
+    session = await withTimeout(nsx.connect(hostname, username, password))
+  } catch (err) {
+    return { ok: false, latencyMs: null, error: errorMessage(err) }
+  }
+  const sample: NsxSample = { ok: true, latencyMs: Date.now() - start }
+
+  const named = async (name: string, check: Promise<boolean>): Promise<NamedCheck> => {
+    try {
+      return { name, ok: await withTimeout(check) }
+    } catch {
+      return { name, ok: false }
+    }
+  }
+  const [edgeClusterCheck, t0Check] = await Promise.all([
+    edgecluster ? named(edgecluster, nsx.checkEdgeCluster(session, edgecluster)) : undefined,
+    t0 ? named(t0, nsx.checkT0(session, t0)) : undefined,
+  ])
+  if (edgeClusterCheck) sample.edgecluster = edgeClusterCheck
+  if (t0Check) sample.t0 = t0Check
+  return sample
+}
+
+/** Logs when a side goes down or comes back, so the server log tells the story too */
+function logTransition(name: string, side: string, host: string, previous: boolean | undefined, next: { ok: boolean; error?: string }) {
+  // A first sample is only worth a line when it fails
+  if (previous === undefined ? next.ok : previous === next.ok) return
+  console.log(
+    next.ok
+      ? `[health] ${name}: ${side} ${host} is reachable again`
+      : `[health] ${name}: ${side} ${host} is down (${next.error ?? "unknown error"})`
+  )
+}
+
+function record(ep: MonitoredEndpoint, sample: HealthSample) {
+  let history = histories.get(ep.name)
+  if (!history) {
+    history = { name: ep.name, computeHostname: ep.compute.hostname, networkHostname: ep.network.hostname, samples: [] }
+    histories.set(ep.name, history)
+  }
+  const last = history.samples.at(-1)
+  logTransition(ep.name, "vSphere", ep.compute.hostname, last?.vsphere.ok, sample.vsphere)
+  logTransition(ep.name, "NSX", ep.network.hostname, last?.nsx.ok, sample.nsx)
+
+  history.samples.push(sample)
+  if (history.samples.length > HISTORY_SIZE) history.samples.splice(0, history.samples.length - HISTORY_SIZE)
+}
+
+async function runChecks() {
+  if (running) return
+  running = true
+  try {
+    await Promise.all(
+      endpoints.map(async (ep) => {
+        const at = new Date().toISOString()
+        const [vsphereSample, nsxSample] = await Promise.all([checkVsphere(ep), checkNsx(ep)])
+        record(ep, { at, vsphere: vsphereSample, nsx: nsxSample })
+      })
+    )
+  } finally {
+    running = false
+  }
+}
+
+/** Starts the checks once; a no-op without ZPODWEB_HEALTH_CONFIG */
+export function startHealthMonitor() {
+  if (timer || configError || !CONFIG_PATH) return
+  try {
+    endpoints = loadConfig(CONFIG_PATH)
+  } catch (err) {
+    configError = `Unable to load ${CONFIG_PATH}: ${errorMessage(err)}`
+    console.log(`[health] ${configError}`)
+    return
+  }
+  timer = setInterval(runChecks, INTERVAL_MS)
+  console.log(`[health] monitoring ${endpoints.length} endpoint(s) every ${INTERVAL_MS / 1000}s`)
+  runChecks()
+}
+
+/** What an anonymous caller may see of a sample */
+function publicSample({ at, vsphere: v, nsx: n }: HealthSample) {
+  const check = (c?: NamedCheck) => (c ? { ok: c.ok } : undefined)
+  return {
+    at,
+    vsphere: {
+      ok: v.ok,
+      latencyMs: v.latencyMs,
+      datastore: v.datastore && { ok: v.datastore.ok, capacityGB: v.datastore.capacityGB, usedGB: v.datastore.usedGB },
+    },
+    nsx: { ok: n.ok, latencyMs: n.latencyMs, edgecluster: check(n.edgecluster), t0: check(n.t0) },
+  }
+}
+
+export function handleEndpointHealth(req: IncomingMessage, res: ServerResponse) {
+  if (req.method !== "GET") {
+    res.writeHead(405, { "Content-Type": "application/json" })
+    res.end(JSON.stringify({ error: "Method not allowed" }))
+    return
+  }
+
+  startHealthMonitor()
+  res.writeHead(200, { "Content-Type": "application/json", "Cache-Control": "no-store" })
+  res.end(JSON.stringify({
+    enabled: timer !== null,
+    error: configError ? "Health config could not be loaded, see the server log" : null,
+    intervalSeconds: INTERVAL_MS / 1000,
+    endpoints: [...histories.values()].map((h) => ({ name: h.name, samples: h.samples.map(publicSample) })),
+  }))
+}
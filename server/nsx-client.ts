@@ -145,3 +145,90 @@ export async function checkTransportZone(
   const names = await listTransportZones(session)
   return names.includes(name)
 }
+
+// ─── zPod objects ───────────────────────────────────────────────────────────
+
+export interface NsxPolicyObject {
+  name: string
+  path: string
+  /** ISO date from the policy `_create_time`, null when NSX does not report it */
+  createdAt: string | null
+}
+
+interface PolicyResult {
+  display_name: string
+  path: string
+  _create_time?: number
+  tier0_path?: string
+  transport_zone_path?: string
+  connectivity_path?: string
+}
+
+/** Lists a policy collection, following the result cursor past the first page */
+async function listPolicyResults(
+  session: NsxSession,
+  path: string
+): Promise<PolicyResult[]> {
+  const results: PolicyResult[] = []
+  let cursor: string | undefined
+  do {
+    const page = cursor ? `${path}?cursor=${encodeURIComponent(cursor)}` : path
+    const res = await restGet(session.host, page, session.username, session.password)
+    if (res.status !== 200) throw new Error(`GET ${path} returned ${res.status}`)
+    const data = JSON.parse(res.body)
+    results.push(...(data.results || []))
+    cursor = data.cursor || undefined
+  } while (cursor)
+  return results
+}
+
+function toPolicyObjects(results: PolicyResult[]): NsxPolicyObject[] {
+  return results
+    .map((r) => ({
+      name: r.display_name,
+      path: r.path,
+      createdAt: r._create_time ? new Date(r._create_time).toISOString() : null,
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/** Tier-1 gateways attached to the T0 named `t0` */
+export async function listTier1Gateways(
+  session: NsxSession,
+  t0: string
+): Promise<NsxPolicyObject[]> {
+  const [tier0s, tier1s] = await Promise.all([
+    listPolicyResults(session, "/policy/api/v1/infra/tier-0s"),
+    listPolicyResults(session, "/policy/api/v1/infra/tier-1s"),
+  ])
+  const t0Paths = tier0s.filter((r) => r.display_name === t0).map((r) => r.path)
+  if (t0Paths.length === 0) throw new Error(`T0 "${t0}" not found`)
+  return toPolicyObjects(tier1s.filter((r) => r.tier0_path && t0Paths.includes(r.tier0_path)))
+}
+
+/**
+ * Segments in the transport zone named `transportZone`, plus those wired
+ * to one of `tier1Paths` (a segment may leave its transport zone implicit).
+ */
+export async function listSegments(
+  session: NsxSession,
+  transportZone: string,
+  tier1Paths: string[]
+): Promise<NsxPolicyObject[]> {
+  const [zonesRes, segments] = await Promise.all([
+    restGet(session.host, "/api/v1/transport-zones", session.username, session.password),
+    listPolicyResults(session, "/policy/api/v1/infra/segments"),
+  ])
+  if (zonesRes.status !== 200) throw new Error(`GET /api/v1/transport-zones returned ${zonesRes.status}`)
+  // Policy transport zone paths end with the manager transport zone id
+  const zoneIds: string[] = (JSON.parse(zonesRes.body).results || [])
+    .filter((r: { display_name: string }) => r.display_name === transportZone)
+    .map((r: { id: string }) => r.id)
+  return toPolicyObjects(
+    segments.filter(
+      (r) =>
+        (r.transport_zone_path && zoneIds.includes(r.transport_zone_path.split("/").at(-1)!)) ||
+        (r.connectivity_path && tier1Paths.includes(r.connectivity_path))
+    )
+  )
+}
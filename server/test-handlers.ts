@@ -67,6 +67,8 @@ export async function handleVsphereTest(
     resource_pool?: string
     storage_datastore?: string
     vmfolder?: string
+    storage_policy?: string
+    contentlibrary?: string
   }
   try {
     body = JSON.parse(raw)
@@ -75,7 +77,9 @@ export async function handleVsphereTest(
     return
   }
 
-  const { hostname, username, password, datacenter, resource_pool, storage_datastore, vmfolder } = body
+  const {
+    hostname, username, password, datacenter, resource_pool, storage_datastore, vmfolder, storage_policy, contentlibrary,
+  } = body
 
   if (!hostname || !username || !password) {
     sendJson(res, 400, { error: "hostname, username, and password are required" }, route, start, body)
@@ -91,9 +95,13 @@ export async function handleVsphereTest(
     return
   }
 
-  const checks: Record<string, { ok: boolean; capacityGB?: number; usedGB?: number }> = {}
+  const checks: Record<string, { ok: boolean; capacityGB?: number; usedGB?: number; error?: string }> = {}
 
   const pending: Promise<void>[] = []
+  // A lookup that failed is not a missing object: report it apart from ok=false
+  const failed = (field: string) => (err: unknown) => {
+    checks[field] = { ok: false, error: err instanceof Error ? err.message : "Lookup failed" }
+  }
 
   if (datacenter) {
     pending.push(vsphere.checkDatacenter(session, datacenter).then((ok) => { checks.datacenter = { ok } }))
@@ -111,6 +119,18 @@ export async function handleVsphereTest(
   if (vmfolder) {
     pending.push(vsphere.checkVmFolder(session, vmfolder).then((ok) => { checks.vmfolder = { ok } }))
   }
+  if (storage_policy) {
+    pending.push(
+      vsphere.checkStoragePolicy(session, storage_policy)
+        .then((ok) => { checks.storage_policy = { ok } }, failed("storage_policy"))
+    )
+  }
+  if (contentlibrary) {
+    pending.push(
+      vsphere.checkContentLibrary(session, contentlibrary)
+        .then((ok) => { checks.contentlibrary = { ok } }, failed("contentlibrary"))
+    )
+  }
 
   await Promise.all(pending)
 
@@ -242,17 +262,30 @@ export async function handleVsphereInventory(
     return
   }
 
-  const [datacenters, resourcePools, datastores, vmFolders] = await Promise.all([
+  // SPBM and the Automation API fail on their own: list what worked and say what did not
+  const errors: { storagePolicies?: string; contentLibraries?: string } = {}
+  const orEmpty = <T>(field: keyof typeof errors, promise: Promise<T[]>) =>
+    promise.catch((err: unknown) => {
+      errors[field] = err instanceof Error ? err.message : "Lookup failed"
+      return [] as T[]
+    })
+
+  const [datacenters, resourcePools, datastores, vmFolders, storagePolicies, contentLibraries] = await Promise.all([
     vsphere.listDatacenters(session),
     vsphere.listResourcePools(session),
     vsphere.listDatastores(session),
     vsphere.listVmFolders(session),
+    orEmpty("storagePolicies", vsphere.listStoragePolicies(session)),
+    orEmpty("contentLibraries", vsphere.listContentLibraries(session)),
   ])
 
   const result = {
     connected: true,
     version: session.version,
-    inventory: { datacenters, resourcePools, datastores, vmFolders },
+    inventory: {
+      datacenters, resourcePools, datastores, vmFolders, storagePolicies, contentLibraries,
+      ...(Object.keys(errors).length > 0 && { errors }),
+    },
   }
   sendJson(res, 200, result, route, start, body)
 }
@@ -306,3 +339,104 @@ export async function handleNsxInventory(
   }
   sendJson(res, 200, result, route, start, body)
 }
+
+/** Every zPod-owned object on an endpoint is named after the zPod */
+const ZPOD_PREFIX = "zPod-"
+
+export async function handleVsphereZpodObjects(
+  req: IncomingMessage,
+  res: ServerResponse
+) {
+  const start = Date.now()
+  const route = "/test/vsphere/zpod-objects"
+
+  if (req.method !== "POST") {
+    sendJson(res, 405, { error: "Method not allowed" }, route, start, {})
+    return
+  }
+
+  const raw = await collectBody(req)
+  let body: { hostname?: string; username?: string; password?: string; datacenter?: string; vmfolder?: string }
+  try {
+    body = JSON.parse(raw)
+  } catch {
+    sendJson(res, 400, { error: "Invalid JSON" }, route, start, {})
+    return
+  }
+
+  const { hostname, username, password, datacenter, vmfolder } = body
+  if (!hostname || !username || !password || !datacenter) {
+    sendJson(res, 400, { error: "hostname, username, password, and datacenter are required" }, route, start, body)
+    return
+  }
+
+  let session: vsphere.VsphereSession
+  try {
+    session = await vsphere.connect(hostname, username, password)
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unable to connect"
+    sendJson(res, 200, { connected: false, error: msg }, route, start, body)
+    return
+  }
+
+  try {
+    const inventory = await vsphere.listVmObjects(session, ZPOD_PREFIX, { datacenter, vmfolder })
+    sendJson(res, 200, { connected: true, version: session.version, inventory }, route, start, body)
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unable to list VMs"
+    sendJson(res, 200, { connected: true, version: session.version, error: msg }, route, start, body)
+  } finally {
+    vsphere.disconnect(session).catch(() => {})
+  }
+}
+
+export async function handleNsxZpodObjects(
+  req: IncomingMessage,
+  res: ServerResponse
+) {
+  const start = Date.now()
+  const route = "/test/nsx/zpod-objects"
+
+  if (req.method !== "POST") {
+    sendJson(res, 405, { error: "Method not allowed" }, route, start, {})
+    return
+  }
+
+  const raw = await collectBody(req)
+  let body: { hostname?: string; username?: string; password?: string; t0?: string; transportzone?: string }
+  try {
+    body = JSON.parse(raw)
+  } catch {
+    sendJson(res, 400, { error: "Invalid JSON" }, route, start, {})
+    return
+  }
+
+  const { hostname, username, password, t0, transportzone } = body
+  if (!hostname || !username || !password || !t0 || !transportzone) {
+    sendJson(res, 400, { error: "hostname, username, password, t0, and transportzone are required" }, route, start, body)
+    return
+  }
+
+  let session: nsx.NsxSession
+  try {
+    session = await nsx.connect(hostname, username, password)
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unable to connect"
+    sendJson(res, 200, { connected: false, error: msg }, route, start, body)
+    return
+  }
+
+  try {
+    // Scoped to the endpoint's T0 and transport zone, other endpoints may share the manager
+    const tier1s = await nsx.listTier1Gateways(session, t0)
+    const segments = await nsx.listSegments(session, transportzone, tier1s.map((o) => o.path))
+    const inventory = {
+      tier1s: tier1s.filter((o) => o.name.startsWith(ZPOD_PREFIX)),
+      segments: segments.filter((o) => o.name.startsWith(ZPOD_PREFIX)),
+    }
+    sendJson(res, 200, { connected: true, version: session.version, inventory }, route, start, body)
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unable to list gateways and segments"
+    sendJson(res, 200, { connected: true, version: session.version, error: msg }, route, start, body)
+  }
+}
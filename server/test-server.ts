@@ -2,7 +2,16 @@ import { createServer, request as httpRequest } from "http"
 import { request as httpsRequest } from "https"
 import { readFileSync, createReadStream, statSync } from "fs"
 import { join, extname } from "path"
-import { handleVsphereTest, handleNsxTest, handleVsphereInventory, handleNsxInventory } from "./test-handlers.js"
+import {
+  handleVsphereTest,
+  handleNsxTest,
+  handleVsphereInventory,
+  handleNsxInventory,
+  handleVsphereZpodObjects,
+  handleNsxZpodObjects,
+} from "./test-handlers.js"
+import { handleZpodEvents } from "./zpod-events.js"
+import { handleEndpointHealth, startHealthMonitor } from "./endpoint-health.js"
 
 const PORT = Number(process.env.PORT) || 80
 const STATIC_DIR = join(import.meta.dirname, "../dist")
@@ -48,6 +57,14 @@ const server = createServer((req, res) => {
     handleNsxInventory(req, res)
     return
   }
+  if (url === "/test/vsphere/zpod-objects") {
+    handleVsphereZpodObjects(req, res)
+    return
+  }
+  if (url === "/test/nsx/zpod-objects") {
+    handleNsxZpodObjects(req, res)
+    return
+  }
   if (url === "/test/vsphere") {
     handleVsphereTest(req, res)
     return
@@ -57,6 +74,18 @@ const server = createServer((req, res) => {
     return
   }
 
+  // /events/* server-sent event streams
+  if (url === "/events/zpods") {
+    handleZpodEvents(req, res)
+    return
+  }
+
+  // /health/* endpoint monitor history
+  if (url === "/health/endpoints") {
+    handleEndpointHealth(req, res)
+    return
+  }
+
   // /api/* reverse proxy
   if (url.startsWith("/api/")) {
     const targetUrl = req.headers["x-target-url"] as string | undefined
@@ -149,4 +178,5 @@ const server = createServer((req, res) => {
 
 server.listen(PORT, () => {
   console.log(`zpodweb server listening on port ${PORT}`)
+  startHealthMonitor()
 })
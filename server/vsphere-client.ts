@@ -34,9 +34,10 @@ function soapRequest(
   host: string,
   body: string,
   soapAction: string,
-  cookies?: string[]
+  cookies?: string[],
+  path = "/sdk"
 ): Promise<SoapResponse> {
-  const action = soapAction.replace("urn:vim25/", "")
+  const action = soapAction.replace(/^urn:\w+\//, "")
 
   if (debugEnabled) {
     console.log(highlight(`\n<!-- SOAP ${action} → ${host} -->`, { language: "xml" }))
@@ -56,7 +57,7 @@ function soapRequest(
       {
         hostname: host,
         port: 443,
-        path: "/sdk",
+        path,
         method: "POST",
         headers,
         rejectUnauthorized: false,
@@ -90,6 +91,57 @@ function soapRequest(
   })
 }
 
+// ─── REST transport (vSphere Automation API) ─────────────────────────────────
+
+interface RestResponse {
+  status: number
+  body: string
+}
+
+function restRequest(
+  host: string,
+  method: "GET" | "POST" | "DELETE",
+  path: string,
+  headers: Record<string, string>
+): Promise<RestResponse> {
+  if (debugEnabled) {
+    console.log(highlight(`\n// REST ${method} ${path} → ${host}`, { language: "javascript" }))
+  }
+
+  return new Promise((resolve, reject) => {
+    const req = httpsRequest(
+      {
+        hostname: host,
+        port: 443,
+        path,
+        method,
+        headers: { Accept: "application/json", ...headers },
+        rejectUnauthorized: false,
+      },
+      (res) => {
+        const chunks: Buffer[] = []
+        res.on("data", (chunk: Buffer) => chunks.push(chunk))
+        res.on("end", () => {
+          const responseBody = Buffer.concat(chunks).toString()
+
+          if (debugEnabled) {
+            console.log(highlight(`// REST ${method} ${path} ← ${res.statusCode}`, { language: "javascript" }))
+            console.log(responseBody)
+          }
+
+          resolve({
+            status: res.statusCode || 500,
+            body: responseBody,
+          })
+        })
+        res.on("error", reject)
+      }
+    )
+    req.on("error", reject)
+    req.end()
+  })
+}
+
 // ─── XML helpers ─────────────────────────────────────────────────────────────
 
 function extractTag(xml: string, tag: string): string {
@@ -98,6 +150,20 @@ function extractTag(xml: string, tag: string): string {
   return m ? m[1] : ""
 }
 
+function extractAllTags(xml: string, tag: string): string[] {
+  const re = new RegExp(`<${tag}[^>]*>([^<]*)</${tag}>`, "g")
+  return [...xml.matchAll(re)].map((m) => m[1])
+}
+
+function unescapeXml(s: string): string {
+  return s
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&")
+}
+
 interface ParsedObject {
   type: string
   moRef: string
@@ -266,9 +332,12 @@ ${ENVELOPE_END}`
 export interface VsphereSession {
   cookies: string[]
   host: string
+  username: string
+  password: string
   version: string
   propertyCollector: string
   rootFolder: string
+  sessionManager: string
 }
 
 export interface DatastoreInfo {
@@ -295,6 +364,26 @@ export interface VmFolderTreeItem {
   children: VmFolderTreeItem[]
 }
 
+export interface ContentLibraryItem {
+  name: string
+  type: "LOCAL" | "SUBSCRIBED"
+}
+
+export interface VmItem {
+  name: string
+  /** Slash-separated path of the parent folder below the datacenter's vm folder */
+  folder: string
+  createdAt: string | null
+}
+
+export interface VmFolderItem {
+  name: string
+  path: string
+  vmCount: number
+  /** Creation date of the oldest VM inside; folders have none of their own */
+  createdAt: string | null
+}
+
 // ─── Public API ──────────────────────────────────────────────────────────────
 
 export async function connect(
@@ -349,12 +438,25 @@ ${ENVELOPE_END}`
   return {
     cookies: loginRes.cookies,
     host,
+    username,
+    password,
     version: (fullName || version).replace(/^VMware vCenter Server\s*/i, ""),
     propertyCollector,
     rootFolder,
+    sessionManager,
   }
 }
 
+/** Ends the session, for callers that connect repeatedly (the health monitor) */
+export async function disconnect(session: VsphereSession): Promise<void> {
+  const body = `${ENVELOPE_START}
+<vim25:Logout>
+  <vim25:_this type="SessionManager">${session.sessionManager}</vim25:_this>
+</vim25:Logout>
+${ENVELOPE_END}`
+  await soapRequest(session.host, body, "urn:vim25/Logout", session.cookies)
+}
+
 export async function listDatacenters(
   session: VsphereSession
 ): Promise<string[]> {
@@ -571,3 +673,207 @@ export async function checkVmFolder(
   }
   return findInTree(folders)
 }
+
+/**
+ * VMs and VM folders whose name starts with `prefix`, with folder paths
+ * resolved from the parent references. Only the `scope` datacenter is
+ * searched, below its `vmfolder` folder when one is given, so a vCenter
+ * shared with other endpoints only yields this endpoint's objects.
+ */
+export async function listVmObjects(
+  session: VsphereSession,
+  prefix: string,
+  scope: { datacenter: string; vmfolder?: string }
+): Promise<{ folders: VmFolderItem[]; vms: VmItem[] }> {
+  const [dcResults, folderResults, vmResults] = await Promise.all([
+    retrieveProperties(session, {
+      type: "Datacenter",
+      pathSet: ["name", "vmFolder"],
+      traversals: [TRAVERSE_FOLDER],
+    }),
+    retrieveProperties(session, {
+      type: "Folder",
+      pathSet: ["name", "parent"],
+      traversals: [TRAVERSE_FOLDER, TRAVERSE_DC_VM],
+    }),
+    retrieveProperties(session, {
+      type: "VirtualMachine",
+      pathSet: ["name", "parent", "config.createDate"],
+      traversals: [TRAVERSE_FOLDER, TRAVERSE_DC_VM],
+    }),
+  ])
+
+  const dc = dcResults.find((r) => r.type === "Datacenter" && unescapeXml(r.props["name"] ?? "") === scope.datacenter)
+  if (!dc?.props["vmFolder"]) throw new Error(`Datacenter "${scope.datacenter}" not found`)
+
+  const folderMap = new Map<string, { name: string; parentRef: string }>()
+  for (const r of folderResults) {
+    if (r.type !== "Folder" || !r.props["name"]) continue
+    folderMap.set(r.moRef, { name: unescapeXml(r.props["name"]), parentRef: r.props["parent"] || "" })
+  }
+
+  function ancestors(moRef: string): string[] {
+    const refs: string[] = []
+    let ref = moRef
+    while (folderMap.has(ref)) {
+      refs.push(ref)
+      ref = folderMap.get(ref)!.parentRef
+    }
+    return refs
+  }
+
+  // Same roots as listVmFolders: the datacenter's "vm" folder is left out of the path
+  function folderPath(moRef: string): string {
+    return ancestors(moRef)
+      .filter((ref) => ref !== dc!.props["vmFolder"])
+      .map((ref) => folderMap.get(ref)!.name)
+      .reverse()
+      .join("/")
+  }
+
+  const roots = scope.vmfolder
+    ? [...folderMap.keys()].filter(
+      (ref) => folderMap.get(ref)!.name === scope.vmfolder && ancestors(ref).includes(dc.props["vmFolder"])
+    )
+    : [dc.props["vmFolder"]]
+  if (roots.length === 0) throw new Error(`VM folder "${scope.vmfolder}" not found in ${scope.datacenter}`)
+  /** Strictly below one of the roots */
+  const inScope = (parentRef: string) => ancestors(parentRef).some((ref) => roots.includes(ref))
+
+  const allVms: VmItem[] = vmResults
+    .filter((r) => r.type === "VirtualMachine" && r.props["name"] && inScope(r.props["parent"] || ""))
+    .map((r) => ({
+      name: unescapeXml(r.props["name"]),
+      folder: folderPath(r.props["parent"] || ""),
+      createdAt: r.props["config.createDate"] || null,
+    }))
+
+  const folders: VmFolderItem[] = [...folderMap.entries()]
+    .filter(([, node]) => node.name.startsWith(prefix) && inScope(node.parentRef))
+    .map(([moRef, node]) => {
+      const path = folderPath(moRef)
+      const inside = allVms.filter((vm) => vm.folder === path || vm.folder.startsWith(`${path}/`))
+      const dates = inside.map((vm) => vm.createdAt).filter((d): d is string => d !== null).sort()
+      return { name: node.name, path, vmCount: inside.length, createdAt: dates[0] ?? null }
+    })
+    .sort((a, b) => a.path.localeCompare(b.path))
+
+  const vms = allVms
+    .filter((vm) => vm.name.startsWith(prefix))
+    .sort((a, b) => a.name.localeCompare(b.name))
+
+  return { folders, vms }
+}
+
+// ─── Storage policies (SPBM) ────────────────────────────────────────────────
+
+const PBM_ENVELOPE_START = (sessionId: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<soapenv:Envelope xmlns:soapenv="http://schemas.xmlsoap.org/soap/envelope/" xmlns:pbm="urn:pbm">
+<soapenv:Header><vcSessionCookie>${sessionId}</vcSessionCookie></soapenv:Header>
+<soapenv:Body>`
+
+/** SPBM lives on its own endpoint and authenticates with the vim25 session id */
+function pbmSessionId(session: VsphereSession): string {
+  const cookie = session.cookies.find((c) => c.startsWith("vmware_soap_session="))
+  return cookie ? cookie.slice("vmware_soap_session=".length).replace(/"/g, "") : ""
+}
+
+async function pbmRequest(session: VsphereSession, method: string, inner: string): Promise<string> {
+  const body = `${PBM_ENVELOPE_START(pbmSessionId(session))}
+<pbm:${method}>
+  ${inner}
+</pbm:${method}>
+${ENVELOPE_END}`
+  const res = await soapRequest(session.host, body, `urn:pbm/${method}`, session.cookies, "/pbm/sdk")
+  if (res.status !== 200) throw new Error(`${method} failed`)
+  return res.body
+}
+
+/** Throws when SPBM cannot be queried, so callers can tell "unavailable" from "none" */
+export async function listStoragePolicies(
+  session: VsphereSession
+): Promise<string[]> {
+  const content = await pbmRequest(
+    session,
+    "PbmRetrieveServiceContent",
+    `<pbm:_this type="PbmServiceInstance">ServiceInstance</pbm:_this>`
+  )
+  const profileManager = extractTag(content, "profileManager")
+  if (!profileManager) throw new Error("SPBM returned no profile manager")
+
+  const ids = extractAllTags(
+    await pbmRequest(
+      session,
+      "PbmQueryProfile",
+      `<pbm:_this type="PbmProfileProfileManager">${profileManager}</pbm:_this>
+  <pbm:resourceType><pbm:resourceType>STORAGE</pbm:resourceType></pbm:resourceType>
+  <pbm:profileCategory>REQUIREMENT</pbm:profileCategory>`
+    ),
+    "uniqueId"
+  )
+  if (ids.length === 0) return []
+
+  const profiles = await pbmRequest(
+    session,
+    "PbmRetrieveContent",
+    `<pbm:_this type="PbmProfileProfileManager">${profileManager}</pbm:_this>
+  ${ids.map((id) => `<pbm:profileIds><pbm:uniqueId>${id}</pbm:uniqueId></pbm:profileIds>`).join("")}`
+  )
+  // Each profile carries its name right after its profileId
+  return profiles
+    .split(/<returnval[^>]*>/)
+    .slice(1)
+    .map((block) => unescapeXml(extractTag(block, "name")))
+    .filter(Boolean)
+    .sort()
+}
+
+export async function checkStoragePolicy(
+  session: VsphereSession,
+  name: string
+): Promise<boolean> {
+  const policies = await listStoragePolicies(session)
+  return policies.includes(name)
+}
+
+// ─── Content libraries (Automation API) ─────────────────────────────────────
+
+/** Throws when the Automation API refuses the session or a lookup fails */
+export async function listContentLibraries(
+  session: VsphereSession
+): Promise<ContentLibraryItem[]> {
+  const auth = Buffer.from(`${session.username}:${session.password}`).toString("base64")
+  const sessionRes = await restRequest(session.host, "POST", "/api/session", {
+    Authorization: `Basic ${auth}`,
+  })
+  if (sessionRes.status !== 201 && sessionRes.status !== 200) {
+    throw new Error(`Automation API session refused (HTTP ${sessionRes.status})`)
+  }
+  const headers = { "vmware-api-session-id": JSON.parse(sessionRes.body) as string }
+
+  try {
+    const listRes = await restRequest(session.host, "GET", "/api/content/library", headers)
+    if (listRes.status !== 200) throw new Error(`Content library listing failed (HTTP ${listRes.status})`)
+    const ids = JSON.parse(listRes.body) as string[]
+
+    const libraries = await Promise.all(
+      ids.map(async (id): Promise<ContentLibraryItem> => {
+        const res = await restRequest(session.host, "GET", `/api/content/library/${encodeURIComponent(id)}`, headers)
+        if (res.status !== 200) throw new Error(`Content library ${id} lookup failed (HTTP ${res.status})`)
+        const data = JSON.parse(res.body) as { name: string; type: ContentLibraryItem["type"] }
+        return { name: data.name, type: data.type }
+      })
+    )
+    return libraries.sort((a, b) => a.name.localeCompare(b.name))
+  } finally {
+    await restRequest(session.host, "DELETE", "/api/session", headers).catch(() => undefined)
+  }
+}
+
+export async function checkContentLibrary(
+  session: VsphereSession,
+  name: string
+): Promise<boolean> {
+  const libraries = await listContentLibraries(session)
+  return libraries.some((l) => l.name === name)
+}
@@ -0,0 +1,199 @@
+import type { IncomingMessage, ServerResponse } from "http"
+import { request as httpRequest } from "http"
+import { request as httpsRequest } from "https"
+
+// ─── zPod event stream ──────────────────────────────────────────────────────
+//
+// Browsers subscribe to GET /events/zpods (same X-Target-Url / access_token
+// headers as /api). One poller runs per target + token, however many tabs are
+// subscribed, and only the zPods that changed since the last poll are pushed.
+
+const POLL_INTERVAL_MS = (Number(process.env.ZPODWEB_EVENTS_INTERVAL) || 5) * 1000
+const HEARTBEAT_MS = 15000
+
+interface ZpodLike {
+  id: number
+  [key: string]: unknown
+}
+
+interface Poller {
+  targetUrl: string
+  token: string
+  clients: Set<ServerResponse>
+  snapshot: Map<number, { json: string; zpod: ZpodLike }> | null
+  timer: NodeJS.Timeout | null
+  heartbeat: NodeJS.Timeout | null
+  polling: boolean
+}
+
+const pollers = new Map<string, Poller>()
+
+function fetchZpods(
+  targetUrl: string,
+  token: string
+): Promise<{ status: number; zpods: ZpodLike[] }> {
+  const dest = new URL("/zpods", targetUrl)
+  const reqFn = dest.protocol === "https:" ? httpsRequest : httpRequest
+
+  return new Promise((resolve, reject) => {
+    const req = reqFn(
+      dest,
+      {
+        method: "GET",
+        headers: { access_token: token, Accept: "application/json" },
+        rejectUnauthorized: false,
+      },
+      (res) => {
+        const chunks: Buffer[] = []
+        res.on("data", (chunk: Buffer) => chunks.push(chunk))
+        res.on("end", () => {
+          const status = res.statusCode || 500
+          if (status !== 200) {
+            resolve({ status, zpods: [] })
+            return
+          }
+          try {
+            resolve({ status, zpods: JSON.parse(Buffer.concat(chunks).toString()) })
+          } catch (err) {
+            reject(err)
+          }
+        })
+        res.on("error", reject)
+      }
+    )
+    req.on("error", reject)
+    req.end()
+  })
+}
+
+function sendEvent(res: ServerResponse, event: string, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+}
+
+function broadcast(poller: Poller, event: string, data: unknown) {
+  for (const res of poller.clients) sendEvent(res, event, data)
+}
+
+function stopPoller(key: string, poller: Poller) {
+  if (poller.timer) clearInterval(poller.timer)
+  if (poller.heartbeat) clearInterval(poller.heartbeat)
+  pollers.delete(key)
+  console.log(`[events] poller stopped for ${poller.targetUrl}`)
+}
+
+/**
+ * Ends every subscribed stream with an `error` event. Browsers only pause
+ * their own polling while a stream delivers, so they go back to polling and
+ * reconnect with backoff.
+ */
+function failPoller(key: string, poller: Poller, data: { status?: number; error?: string }) {
+  broadcast(poller, "error", data)
+  for (const res of poller.clients) res.end()
+  poller.clients.clear()
+  stopPoller(key, poller)
+}
+
+async function poll(key: string, poller: Poller) {
+  if (poller.polling) return
+  poller.polling = true
+  try {
+    const { status, zpods } = await fetchZpods(poller.targetUrl, poller.token)
+
+    if (status !== 200) {
+      // Token no longer valid or factory failing: the stream would only go stale
+      console.log(`[events] poll returned ${status} for ${poller.targetUrl}`)
+      failPoller(key, poller, { status })
+      return
+    }
+
+    const next = new Map<number, { json: string; zpod: ZpodLike }>()
+    for (const zpod of zpods) next.set(zpod.id, { json: JSON.stringify(zpod), zpod })
+
+    const previous = poller.snapshot
+    poller.snapshot = next
+
+    if (!previous) {
+      broadcast(poller, "snapshot", zpods)
+      return
+    }
+
+    const upserted: ZpodLike[] = []
+    for (const [id, entry] of next) {
+      if (previous.get(id)?.json !== entry.json) upserted.push(entry.zpod)
+    }
+    const removed = [...previous.keys()].filter((id) => !next.has(id))
+
+    if (upserted.length > 0 || removed.length > 0) {
+      broadcast(poller, "update", { upserted, removed })
+    }
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unknown error"
+    console.log(`[events] poll failed for ${poller.targetUrl}: ${msg}`)
+    failPoller(key, poller, { error: msg })
+  } finally {
+    poller.polling = false
+  }
+}
+
+function getPoller(targetUrl: string, token: string): { key: string; poller: Poller } {
+  const key = `${targetUrl}\n${token}`
+  let poller = pollers.get(key)
+  if (!poller) {
+    const created: Poller = {
+      targetUrl,
+      token,
+      clients: new Set(),
+      snapshot: null,
+      timer: null,
+      heartbeat: null,
+      polling: false,
+    }
+    created.timer = setInterval(() => poll(key, created), POLL_INTERVAL_MS)
+    // Comment lines keep idle connections open through proxies
+    created.heartbeat = setInterval(() => {
+      for (const res of created.clients) res.write(": ping\n\n")
+    }, HEARTBEAT_MS)
+    pollers.set(key, created)
+    console.log(`[events] poller started for ${targetUrl}`)
+    poller = created
+    poll(key, created)
+  }
+  return { key, poller }
+}
+
+export function handleZpodEvents(req: IncomingMessage, res: ServerResponse) {
+  if (req.method !== "GET") {
+    res.writeHead(405, { "Content-Type": "application/json" })
+    res.end(JSON.stringify({ error: "Method not allowed" }))
+    return
+  }
+
+  const targetUrl = req.headers["x-target-url"] as string | undefined
+  const token = req.headers["access_token"] as string | undefined
+  if (!targetUrl || !token) {
+    res.writeHead(400, { "Content-Type": "application/json" })
+    res.end(JSON.stringify({ error: "X-Target-Url and access_token headers are required" }))
+    return
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  })
+  res.write(": connected\n\n")
+
+  const { key, poller } = getPoller(targetUrl, token)
+  poller.clients.add(res)
+  if (poller.snapshot) {
+    sendEvent(res, "snapshot", [...poller.snapshot.values()].map((e) => e.zpod))
+  }
+
+  req.on("close", () => {
+    poller.clients.delete(res)
+    if (poller.clients.size === 0 && pollers.get(key) === poller) {
+      stopPoller(key, poller)
+    }
+  })
+}
@@ -1,6 +1,7 @@
 import { Navigate, useLocation } from "react-router"
 import { useAuthStore } from "@/stores/auth-store"
 import { useTargetStore } from "@/stores/target-store"
+import { usePermissions } from "@/hooks/use-permissions"
 import type { ReactNode } from "react"
 
 export function AuthGuard({ children }: { children: ReactNode }) {
@@ -16,3 +17,10 @@ export function AuthGuard({ children }: { children: ReactNode }) {
 
   return <>{children}</>
 }
+
+/** Routes reserved to superadmins send everyone else to the dashboard */
+export function SuperadminGuard({ children }: { children: ReactNode }) {
+  const { isSuperadmin } = usePermissions()
+  if (!isSuperadmin) return <Navigate to="/" replace />
+  return <>{children}</>
+}
@@ -0,0 +1,54 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import { AlertCircle, CheckCircle2, Circle, Loader2, X } from "lucide-react"
+import type { BulkItem, BulkRun } from "@/hooks/use-bulk-action"
+
+function ItemIcon({ item }: { item: BulkItem }) {
+  switch (item.status) {
+    case "success":
+      return <CheckCircle2 className="h-3.5 w-3.5 shrink-0 text-[#a6e3a1]" />
+    case "failed":
+      return <AlertCircle className="h-3.5 w-3.5 shrink-0 text-[#f38ba8]" />
+    case "running":
+      return <Loader2 className="h-3.5 w-3.5 shrink-0 animate-spin text-[#89b4fa]" />
+    default:
+      return <Circle className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+  }
+}
+
+export function BulkProgressPanel({ run, onDismiss }: { run: BulkRun; onDismiss: () => void }) {
+  const done = run.items.filter((i) => i.status === "success" || i.status === "failed").length
+  const failed = run.items.filter((i) => i.status === "failed").length
+  const pct = run.items.length > 0 ? Math.round((done / run.items.length) * 100) : 0
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base">
+            {run.label}: {done} / {run.items.length}
+            {failed > 0 && (
+              <span className="ml-2 text-sm font-normal text-[#f38ba8]">{failed} failed</span>
+            )}
+          </CardTitle>
+          {run.finished && (
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onDismiss}>
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+        <Progress value={pct} className="h-1.5" />
+      </CardHeader>
+      <CardContent className="max-h-64 overflow-y-auto space-y-1">
+        {run.items.map((item) => (
+          <div key={item.id} className="flex items-start gap-2 text-sm">
+            <span className="mt-0.5"><ItemIcon item={item} /></span>
+            <span className="font-medium">{item.name}</span>
+            {item.error && <span className="text-xs text-[#f38ba8] mt-0.5">{item.error}</span>}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,226 @@
+import { Link } from "react-router"
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet"
+import { Badge } from "@/components/ui/badge"
+import { Separator } from "@/components/ui/separator"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import { StatusBadge } from "@/components/status-badge"
+import { BookOpen, ChevronRight, ExternalLink, Layers, Server } from "lucide-react"
+import { useComponentDefinition } from "@/hooks/use-component-definition"
+import type { DefinitionField } from "@/lib/component-definition"
+import type { ComponentFull, Zpod } from "@/types"
+
+function Section({ title, icon: Icon, children }: {
+  title: string
+  icon?: React.ComponentType<{ className?: string }>
+  children: React.ReactNode
+}) {
+  return (
+    <div className="space-y-2">
+      <h3 className="flex items-center gap-2 text-sm font-semibold">
+        {Icon && <Icon className="h-3.5 w-3.5" />}
+        {title}
+      </h3>
+      {children}
+    </div>
+  )
+}
+
+function FieldList({ fields, mono = false }: { fields: DefinitionField[]; mono?: boolean }) {
+  return (
+    <dl className="space-y-1 text-xs">
+      {fields.map((f) => (
+        <div key={f.path} className="grid grid-cols-[120px_1fr] gap-2">
+          <dt className="text-muted-foreground truncate">{f.key}</dt>
+          <dd className={`break-all ${mono ? "font-mono" : ""}`}>{f.value}</dd>
+        </div>
+      ))}
+    </dl>
+  )
+}
+
+/** Drawer with a component's library definition and where it is used */
+export function ComponentDetailSheet({
+  component,
+  onOpenChange,
+  profiles,
+  zpods,
+}: {
+  component: ComponentFull | null
+  onOpenChange: (open: boolean) => void
+  profiles: string[]
+  zpods: Zpod[]
+}) {
+  const { library, url, json, definition, error, isLoading } = useComponentDefinition(component)
+  const sizing = definition?.sizing
+  const hasSizing = sizing && Object.keys(sizing).length > 0
+
+  return (
+    <Sheet open={component != null} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        {component && (
+          <div className="space-y-5">
+            <SheetHeader>
+              <SheetTitle className="flex items-center gap-2 pr-6 font-mono">
+                {component.component_uid}
+              </SheetTitle>
+              <SheetDescription>{component.component_description}</SheetDescription>
+              <div className="flex items-center gap-2">
+                <StatusBadge status={component.status} />
+                <Badge variant="outline">{component.component_version}</Badge>
+              </div>
+            </SheetHeader>
+
+            <Separator />
+
+            <Section title="Library" icon={BookOpen}>
+              <div className="space-y-1 text-xs">
+                <div>
+                  <Link to="/libraries" className="font-medium hover:text-primary">
+                    {component.library_name}
+                  </Link>
+                </div>
+                {library && <div className="font-mono text-muted-foreground break-all">{library.git_url}</div>}
+                {url && (
+                  <a
+                    href={url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 text-primary hover:underline"
+                  >
+                    <ExternalLink className="h-3 w-3" />
+                    Component JSON
+                  </a>
+                )}
+              </div>
+            </Section>
+
+            <Section title="On the factory">
+              <FieldList
+                mono
+                fields={[
+                  { key: "filename", path: "filename", value: component.filename || "—" },
+                  { key: "file_checksum", path: "file_checksum", value: component.file_checksum || "—" },
+                  { key: "jsonfile", path: "jsonfile", value: component.jsonfile },
+                ]}
+              />
+            </Section>
+
+            {!url ? (
+              <p className="text-xs text-muted-foreground">
+                The library JSON can only be read from GitHub and GitLab hosted libraries.
+              </p>
+            ) : isLoading ? (
+              <div className="space-y-2">
+                <Skeleton className="h-4 w-32" />
+                <Skeleton className="h-16" />
+              </div>
+            ) : error !== undefined || !definition ? (
+              <p className="text-xs text-destructive">Failed to load the component JSON from the library host.</p>
+            ) : (
+              <>
+                <Section title="Default sizing">
+                  {hasSizing ? (
+                    <div className="flex flex-wrap gap-2 text-xs">
+                      {sizing.vcpu != null && <Badge variant="outline">{sizing.vcpu} vCPU</Badge>}
+                      {sizing.vmem != null && <Badge variant="outline">{sizing.vmem} GB memory</Badge>}
+                      {sizing.vnics != null && <Badge variant="outline">{sizing.vnics} NICs</Badge>}
+                      {sizing.vdisks?.map((d, i) => (
+                        <Badge key={i} variant="outline">Disk {i + 1}: {d} GB</Badge>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">No sizing in the definition</p>
+                  )}
+                </Section>
+
+                {definition.downloads.length > 0 && (
+                  <Section title="Downloads">
+                    <div className="space-y-1 text-xs">
+                      {definition.downloads.map((d) => (
+                        <div key={d.path} className="grid grid-cols-[120px_1fr] gap-2">
+                          <span className="text-muted-foreground truncate">{d.key}</span>
+                          <a
+                            href={d.value}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="font-mono break-all text-primary hover:underline"
+                          >
+                            {d.value}
+                          </a>
+                        </div>
+                      ))}
+                    </div>
+                  </Section>
+                )}
+
+                {definition.checksums.length > 0 && (
+                  <Section title="Checksums">
+                    <FieldList fields={definition.checksums} mono />
+                  </Section>
+                )}
+
+                {definition.fields.length > 0 && (
+                  <Section title="Definition">
+                    <FieldList fields={definition.fields} />
+                  </Section>
+                )}
+
+                <Collapsible>
+                  <CollapsibleTrigger className="group flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground">
+                    <ChevronRight className="h-3.5 w-3.5 transition-transform group-data-[state=open]:rotate-90" />
+                    Raw JSON
+                  </CollapsibleTrigger>
+                  <CollapsibleContent>
+                    <pre className="mt-2 max-h-80 overflow-auto border bg-muted/30 p-3 text-[11px]">
+                      {JSON.stringify(json, null, 2)}
+                    </pre>
+                  </CollapsibleContent>
+                </Collapsible>
+              </>
+            )}
+
+            <Separator />
+
+            <Section title={`Profiles (${profiles.length})`} icon={Layers}>
+              {profiles.length === 0 ? (
+                <p className="text-xs text-muted-foreground">Not used in any profile</p>
+              ) : (
+                <div className="flex flex-wrap gap-1.5">
+                  {profiles.map((name) => (
+                    <Link key={name} to={`/profiles?profile=${encodeURIComponent(name)}`}>
+                      <Badge variant="outline" className="hover:text-[#94e2d5]">{name}</Badge>
+                    </Link>
+                  ))}
+                </div>
+              )}
+            </Section>
+
+            <Section title={`zPods (${zpods.length})`} icon={Server}>
+              {zpods.length === 0 ? (
+                <p className="text-xs text-muted-foreground">Not deployed in any zPod</p>
+              ) : (
+                <div className="space-y-1">
+                  {zpods.map((z) => (
+                    <div key={z.id} className="flex items-center justify-between gap-2 text-xs">
+                      <Link to={`/zpods/${z.id}`} className="font-medium hover:text-primary">
+                        {z.name}
+                      </Link>
+                      <StatusBadge status={z.status} />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </Section>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,317 @@
+import { useEffect, useMemo, useState } from "react"
+import axios from "axios"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { Separator } from "@/components/ui/separator"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { CheckCircle2, Cpu, Gauge, HardDrive, Loader2, MemoryStick, Network, RefreshCw, XCircle } from "lucide-react"
+import {
+  deployedFootprint,
+  estimateFit,
+  networkCapacity,
+  type DatastoreCapacity,
+} from "@/lib/endpoint-capacity"
+import { profileFootprint, scaleFootprint, type Footprint } from "@/lib/footprint"
+import { flattenProfileItems } from "@/lib/profile-utils"
+import { useComponentDefaults } from "@/hooks/use-component-defaults"
+import type { ConnectionTestResult, EndpointFull, Profile, Zpod } from "@/types"
+
+function Meter({ label, used, total, unit }: { label: string; used: number; total: number; unit: string }) {
+  const pct = total > 0 ? Math.min(Math.round((used / total) * 100), 100) : 0
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs">
+        <span className="text-muted-foreground">{label}</span>
+        <span className="tabular-nums">
+          {used} / {total} {unit} <span className="text-muted-foreground">({total - used} free)</span>
+        </span>
+      </div>
+      <Progress value={pct} className="h-1.5" />
+    </div>
+  )
+}
+
+function FootprintRow({ label, footprint }: { label: string; footprint: Footprint }) {
+  return (
+    <div className="flex items-center justify-between py-0.5 text-xs">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="flex items-center gap-3 tabular-nums">
+        <span className="flex items-center gap-1"><Cpu className="h-3 w-3 text-muted-foreground" />{footprint.vcpu} vCPU</span>
+        <span className="flex items-center gap-1"><MemoryStick className="h-3 w-3 text-muted-foreground" />{footprint.vmem} GB</span>
+        <span className="flex items-center gap-1"><HardDrive className="h-3 w-3 text-muted-foreground" />{footprint.disk} GB</span>
+      </span>
+    </div>
+  )
+}
+
+export function EndpointCapacityDialog({
+  endpoint,
+  zpods,
+  profiles,
+  open,
+  onOpenChange,
+}: {
+  endpoint: EndpointFull
+  /** zPods deployed on this endpoint */
+  zpods: Zpod[]
+  profiles: Profile[]
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}) {
+  const [password, setPassword] = useState("")
+  const [datastore, setDatastore] = useState<DatastoreCapacity | null>(null)
+  const [datastoreLoading, setDatastoreLoading] = useState(false)
+  const [datastoreError, setDatastoreError] = useState("")
+  const [profileName, setProfileName] = useState("")
+  const [planned, setPlanned] = useState("20")
+
+  useEffect(() => {
+    if (open) {
+      setPassword("")
+      setDatastore(null)
+      setDatastoreLoading(false)
+      setDatastoreError("")
+      setPlanned("20")
+    }
+  }, [open])
+
+  // Default to the most deployed profile on this endpoint
+  useEffect(() => {
+    if (!open || profileName || profiles.length === 0) return
+    const counts = new Map<string, number>()
+    for (const z of zpods) counts.set(z.profile, (counts.get(z.profile) ?? 0) + 1)
+    const top = [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0]
+    setProfileName(top && profiles.some((p) => p.name === top) ? top : profiles[0].name)
+  }, [open, profileName, profiles, zpods])
+
+  const network = useMemo(
+    () => networkCapacity(endpoint.endpoints.network.networks, zpods),
+    [endpoint, zpods]
+  )
+  const defaults = useComponentDefaults(
+    profiles.flatMap((p) => flattenProfileItems(p.profile).map((item) => item.component_uid))
+  )
+  const deployed = useMemo(() => deployedFootprint(zpods, profiles, defaults), [zpods, profiles, defaults])
+
+  const profile = profiles.find((p) => p.name === profileName)
+  const perZpod = profile ? profileFootprint(profile, defaults) : null
+  const plannedCount = Math.max(parseInt(planned, 10) || 0, 0)
+  const required = perZpod ? scaleFootprint(perZpod, plannedCount) : null
+  const estimate = perZpod ? estimateFit(network, datastore, perZpod) : null
+  const fits = estimate ? estimate.fits >= plannedCount : false
+
+  async function queryDatastore() {
+    setDatastoreLoading(true)
+    setDatastoreError("")
+    setDatastore(null)
+    const { hostname, username, storage_datastore } = endpoint.endpoints.compute
+    try {
+      const res = await axios.post<ConnectionTestResult>("/test/vsphere", {
+        hostname,
+        username,
+        password,
+        storage_datastore,
+      })
+      const check = res.data.checks?.storage_datastore
+      if (!res.data.connected) {
+        setDatastoreError(res.data.error || "Connection failed")
+      } else if (!check?.ok || check.capacityGB == null || check.usedGB == null) {
+        setDatastoreError(`Datastore "${storage_datastore}" not found`)
+      } else {
+        setDatastore({ capacityGB: check.capacityGB, usedGB: check.usedGB })
+      }
+    } catch {
+      setDatastoreError("Unable to reach test server")
+    } finally {
+      setDatastoreLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto p-4 gap-3">
+        <DialogHeader className="pb-0">
+          <DialogTitle className="text-base flex items-center gap-2">
+            <Gauge className="h-4 w-4" />
+            Capacity — {endpoint.name}
+          </DialogTitle>
+          <DialogDescription className="text-xs">
+            Network slots, datastore space and profile sizing for {zpods.length} deployed zPod{zpods.length !== 1 ? "s" : ""}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Separator />
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          {/* Network */}
+          <div className="space-y-2">
+            <div className="flex items-center gap-1.5">
+              <Network className="h-3.5 w-3.5 text-muted-foreground" />
+              <span className="text-xs font-medium">Networks</span>
+              <Badge variant="outline" className="ml-auto text-[10px] px-1.5 py-0 bg-[#94e2d5]/15 text-[#94e2d5] border-[#94e2d5]/30">
+                {endpoint.endpoints.network.networks}
+              </Badge>
+            </div>
+            {network ? (
+              <>
+                <Meter label="zPod slots (/24)" used={network.usedSlots} total={network.totalSlots} unit="" />
+                <p className="text-xs text-muted-foreground">
+                  {network.freeSegments} free /26 segment{network.freeSegments !== 1 ? "s" : ""}
+                </p>
+              </>
+            ) : (
+              <p className="text-xs text-muted-foreground">The networks CIDR cannot hold a /24 zPod subnet.</p>
+            )}
+          </div>
+
+          {/* Datastore */}
+          <div className="space-y-2">
+            <div className="flex items-center gap-1.5">
+              <HardDrive className="h-3.5 w-3.5 text-muted-foreground" />
+              <span className="text-xs font-medium">Datastore</span>
+              <span className="ml-auto text-xs font-mono text-muted-foreground">{endpoint.endpoints.compute.storage_datastore}</span>
+            </div>
+            {datastore ? (
+              <Meter label="Space" used={datastore.usedGB} total={datastore.capacityGB} unit="GB" />
+            ) : (
+              <div className="flex items-center gap-1.5">
+                <Input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === "Enter" && password) queryDatastore() }}
+                  placeholder={`${endpoint.endpoints.compute.username} password`}
+                  className="h-7 text-xs"
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs shrink-0"
+                  disabled={!password || datastoreLoading}
+                  onClick={queryDatastore}
+                >
+                  {datastoreLoading ? (
+                    <Loader2 className="mr-1.5 h-3 w-3 animate-spin" />
+                  ) : (
+                    <RefreshCw className="mr-1.5 h-3 w-3" />
+                  )}
+                  Query
+                </Button>
+              </div>
+            )}
+            {datastoreError && (
+              <div className="flex items-center gap-1.5">
+                <XCircle className="h-3.5 w-3.5 text-red-500 shrink-0" />
+                <span className="text-xs text-red-500">{datastoreError}</span>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <Separator />
+
+        {/* Deployed footprint */}
+        <div className="space-y-1">
+          <span className="text-xs font-medium">Deployed (profile sizing)</span>
+          <FootprintRow label={`${zpods.length} zPod${zpods.length !== 1 ? "s" : ""}`} footprint={deployed.footprint} />
+          {(deployed.footprint.unsized > 0 || deployed.unknownProfiles > 0) && (
+            <p className="text-[11px] text-muted-foreground">
+              {deployed.footprint.unsized > 0 && `${deployed.footprint.unsized} component${deployed.footprint.unsized !== 1 ? "s" : ""} without sizing. `}
+              {deployed.unknownProfiles > 0 && `${deployed.unknownProfiles} zPod${deployed.unknownProfiles !== 1 ? "s" : ""} with a deleted profile.`}
+            </p>
+          )}
+        </div>
+
+        <Separator />
+
+        {/* Planner */}
+        <div className="space-y-2">
+          <span className="text-xs font-medium">Plan</span>
+          <div className="flex items-end gap-2">
+            <div className="flex-1 space-y-1">
+              <Label className="text-xs">Profile</Label>
+              <Select value={profileName} onValueChange={setProfileName}>
+                <SelectTrigger className="h-8 text-sm">
+                  <SelectValue placeholder="Select a profile" />
+                </SelectTrigger>
+                <SelectContent>
+                  {profiles.map((p) => (
+                    <SelectItem key={p.id} value={p.name}>{p.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="w-24 space-y-1">
+              <Label className="text-xs">zPods</Label>
+              <Input
+                type="number"
+                min={0}
+                value={planned}
+                onChange={(e) => setPlanned(e.target.value)}
+                className="h-8 text-sm"
+              />
+            </div>
+          </div>
+
+          {perZpod && required && estimate && (
+            <div className="rounded-md border p-2 space-y-0.5">
+              <FootprintRow label="Per zPod" footprint={perZpod} />
+              <FootprintRow label={`${plannedCount} zPod${plannedCount !== 1 ? "s" : ""}`} footprint={required} />
+              <div className="flex justify-between py-0.5 text-xs">
+                <span className="text-muted-foreground">Fit by network slots</span>
+                <span className="tabular-nums">{estimate.byNetwork}</span>
+              </div>
+              <div className="flex justify-between py-0.5 text-xs">
+                <span className="text-muted-foreground">Fit by datastore space</span>
+                <span className="tabular-nums">
+                  {estimate.byDatastore ?? (datastore ? "no disk sizing" : "query the datastore")}
+                </span>
+              </div>
+              <Separator className="my-1" />
+              <div className="flex items-center justify-between text-sm">
+                <span>
+                  Room for <span className="font-bold tabular-nums">{estimate.fits}</span> more {profileName} zPod{estimate.fits !== 1 ? "s" : ""}
+                </span>
+                {fits ? (
+                  <Badge variant="outline" className="gap-1 bg-[#a6e3a1]/15 text-[#a6e3a1] border-[#a6e3a1]/30">
+                    <CheckCircle2 className="h-3 w-3" />
+                    {plannedCount} fit
+                  </Badge>
+                ) : (
+                  <Badge variant="outline" className="gap-1 bg-[#f38ba8]/15 text-[#f38ba8] border-[#f38ba8]/30">
+                    <XCircle className="h-3 w-3" />
+                    {plannedCount} do not fit
+                  </Badge>
+                )}
+              </div>
+              {perZpod.unsized > 0 && (
+                <p className="text-[11px] text-muted-foreground">
+                  {perZpod.unsized} component{perZpod.unsized !== 1 ? "s" : ""} of this profile {perZpod.unsized !== 1 ? "have" : "has"} no sizing in the profile or its library and {perZpod.unsized !== 1 ? "are" : "is"} not counted.
+                </p>
+              )}
+            </div>
+          )}
+          <p className="text-[11px] text-muted-foreground">
+            Disk figures are provisioned sizes; thin-provisioned disks usually use less datastore space.
+          </p>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
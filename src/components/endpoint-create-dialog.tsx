@@ -12,69 +12,86 @@ import {
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
-import {
-  Select,
-  SelectContent,
-  SelectGroup,
-  SelectItem,
-  SelectLabel,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select"
 import { Separator } from "@/components/ui/separator"
 import { Badge } from "@/components/ui/badge"
-import { Progress } from "@/components/ui/progress"
 import { toast } from "sonner"
-import {
-  Collapsible,
-  CollapsibleContent,
-  CollapsibleTrigger,
-} from "@/components/ui/collapsible"
 import {
   Loader2,
   Cpu,
   Network,
-  CheckCircle2,
   XCircle,
   RefreshCw,
-  ChevronRight,
-  FolderIcon,
+  AlertTriangle,
 } from "lucide-react"
+import {
+  InventorySummary,
+  NetworksCidrInput,
+  NsxInventoryPickers,
+  VsphereInventoryPickers,
+} from "@/components/endpoint-inventory-pickers"
+import { parseEndpointNetworks } from "@/lib/cidr"
+import {
+  cloneName,
+  EMPTY_NSX_SELECTION,
+  EMPTY_VSPHERE_SELECTION,
+  overlappingEndpoints,
+  proposeCloneNetworks,
+  reconcileNsxSelection,
+  reconcileVsphereSelection,
+  type NsxSelection,
+  type VsphereSelection,
+} from "@/lib/endpoint-config"
 import type {
   EndpointCreate,
+  EndpointFull,
   VsphereInventory,
   NsxInventory,
   InventoryResult,
-  VmFolderTreeItem,
 } from "@/types"
 
 interface EndpointCreateDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   onCreateComplete: () => void
+  /** Existing endpoints, kept clear of the new networks range */
+  endpoints: EndpointFull[]
+  /** Endpoint to clone: everything but the passwords is pre-filled */
+  source?: EndpointFull | null
 }
 
 export function EndpointCreateDialog({
   open,
   onOpenChange,
   onCreateComplete,
+  endpoints,
+  source,
 }: EndpointCreateDialogProps) {
   const { createEndpoint } = useApi()
+  const sourceCompute = source?.endpoints.compute
+  const sourceNetwork = source?.endpoints.network
 
   // Top-level fields
-  const [name, setName] = useState("")
-  const [description, setDescription] = useState("")
+  const [name, setName] = useState(source ? cloneName(source.name, endpoints) : "")
+  const [description, setDescription] = useState(source?.description ?? "")
 
   // Compute credentials
-  const [computeHostname, setComputeHostname] = useState("")
-  const [computeUsername, setComputeUsername] = useState("")
+  const [computeHostname, setComputeHostname] = useState(sourceCompute?.hostname ?? "")
+  const [computeUsername, setComputeUsername] = useState(sourceCompute?.username ?? "")
   const [computePassword, setComputePassword] = useState("")
 
   // Compute selections
-  const [datacenter, setDatacenter] = useState("")
-  const [resourcePool, setResourcePool] = useState("")
-  const [storageDatastore, setStorageDatastore] = useState("")
-  const [vmfolder, setVmfolder] = useState("")
+  const [compute, setCompute] = useState<VsphereSelection>(() =>
+    sourceCompute
+      ? {
+          datacenter: sourceCompute.datacenter,
+          resource_pool: sourceCompute.resource_pool,
+          storage_datastore: sourceCompute.storage_datastore,
+          vmfolder: sourceCompute.vmfolder,
+          storage_policy: sourceCompute.storage_policy ?? "",
+          contentlibrary: sourceCompute.contentlibrary ?? "",
+        }
+      : EMPTY_VSPHERE_SELECTION
+  )
 
   // Compute inventory state
   const [vsphereLoading, setVsphereLoading] = useState(false)
@@ -83,15 +100,18 @@ export function EndpointCreateDialog({
   const [vsphereInventory, setVsphereInventory] = useState<VsphereInventory | null>(null)
 
   // Network credentials
-  const [networkHostname, setNetworkHostname] = useState("")
-  const [networkUsername, setNetworkUsername] = useState("")
+  const [networkHostname, setNetworkHostname] = useState(sourceNetwork?.hostname ?? "")
+  const [networkUsername, setNetworkUsername] = useState(sourceNetwork?.username ?? "")
   const [networkPassword, setNetworkPassword] = useState("")
 
   // Network selections
-  const [networks, setNetworks] = useState("")
-  const [transportzone, setTransportzone] = useState("")
-  const [edgecluster, setEdgecluster] = useState("")
-  const [t0, setT0] = useState("")
+  const [proposedNetworks] = useState(() => (sourceNetwork ? proposeCloneNetworks(sourceNetwork.networks, endpoints) : null))
+  const [networks, setNetworks] = useState(proposedNetworks ?? "")
+  const [network, setNetwork] = useState<NsxSelection>(() =>
+    sourceNetwork
+      ? { transportzone: sourceNetwork.transportzone, edgecluster: sourceNetwork.edgecluster, t0: sourceNetwork.t0 }
+      : EMPTY_NSX_SELECTION
+  )
 
   // Network inventory state
   const [nsxLoading, setNsxLoading] = useState(false)
@@ -100,27 +120,18 @@ export function EndpointCreateDialog({
   const [nsxInventory, setNsxInventory] = useState<NsxInventory | null>(null)
 
   const [creating, setCreating] = useState(false)
-  const [folderTreeOpen, setFolderTreeOpen] = useState(false)
 
-  // Reset inventory when credentials change
+  // Reset inventory when credentials change; selections are checked again on the next fetch
   function resetVsphereInventory() {
     setVsphereInventory(null)
     setVsphereVersion("")
     setVsphereError("")
-    setDatacenter("")
-    setResourcePool("")
-    setStorageDatastore("")
-    setVmfolder("")
-    setFolderTreeOpen(false)
   }
 
   function resetNsxInventory() {
     setNsxInventory(null)
     setNsxVersion("")
     setNsxError("")
-    setTransportzone("")
-    setEdgecluster("")
-    setT0("")
   }
 
   function computeCredChange(setter: (v: string) => void) {
@@ -137,32 +148,23 @@ export function EndpointCreateDialog({
     }
   }
 
-  // Live CIDR validation
-  const cidrParsed = (() => {
-    if (!networks) return null
-    const m = networks.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})\/(\d{1,2})$/)
-    if (!m) return { valid: false as const, tooSmall: false, hostBits: false }
-    const prefix = parseInt(m[5], 10)
-    if (prefix > 21 || prefix < 1) return { valid: false as const, tooSmall: prefix > 21, hostBits: false }
-    const octets = [parseInt(m[1]), parseInt(m[2]), parseInt(m[3]), parseInt(m[4])]
-    if (octets.some((o) => o > 255)) return { valid: false as const, tooSmall: false, hostBits: false }
-    const ip = ((octets[0] << 24) | (octets[1] << 16) | (octets[2] << 8) | octets[3]) >>> 0
-    const mask = prefix === 0 ? 0 : (~0 << (32 - prefix)) >>> 0
-    if ((ip & mask) !== ip) return { valid: false as const, tooSmall: false, hostBits: true }
-    return { valid: true as const, prefix, zpodCapacity: Math.pow(2, 24 - prefix) }
-  })()
-
-  const cidrValid = cidrParsed?.valid === true
+  const cidrValid = parseEndpointNetworks(networks)?.valid === true
+  const overlapping = overlappingEndpoints(networks, endpoints)
+  const overlapMessage = overlapping.length > 0
+    ? `Overlaps ${overlapping.map((e) => `${e.name} (${e.endpoints.network.networks})`).join(", ")}`
+    : ""
+  // A clone should get its own range; a new endpoint may share one on purpose
+  const overlapBlocks = !!source && overlapping.length > 0
   const computeCredsFilled = !!(computeHostname && computeUsername && computePassword)
   const networkCredsFilled = !!(networkHostname && networkUsername && networkPassword)
-  const computeSelectionsDone = !!(datacenter && resourcePool && storageDatastore && vmfolder)
-  const networkSelectionsDone = !!(transportzone && edgecluster && t0)
+  const computeSelectionsDone = !!(compute.datacenter && compute.resource_pool && compute.storage_datastore && compute.vmfolder)
+  const networkSelectionsDone = !!(network.transportzone && network.edgecluster && network.t0)
 
   const canCreate = !!(
     name.trim() &&
     vsphereInventory && nsxInventory &&
     computeSelectionsDone && networkSelectionsDone &&
-    cidrValid && !creating
+    cidrValid && !overlapBlocks && !creating
   )
 
   async function fetchVsphereInventory() {
@@ -170,10 +172,6 @@ export function EndpointCreateDialog({
     setVsphereError("")
     setVsphereVersion("")
     setVsphereInventory(null)
-    setDatacenter("")
-    setResourcePool("")
-    setStorageDatastore("")
-    setVmfolder("")
 
     try {
       const res = await axios.post<InventoryResult<VsphereInventory>>("/test/vsphere/inventory", {
@@ -184,12 +182,9 @@ export function EndpointCreateDialog({
       if (res.data.connected && res.data.inventory) {
         setVsphereVersion(res.data.version || "")
         setVsphereInventory(res.data.inventory)
-        // Auto-select if single option
+        // Keep what the vCenter still has, auto-select if single option
         const inv = res.data.inventory
-        if (inv.datacenters.length === 1) setDatacenter(inv.datacenters[0])
-        if (inv.resourcePools.length === 1) setResourcePool(inv.resourcePools[0].name)
-        if (inv.datastores.length === 1) setStorageDatastore(inv.datastores[0].name)
-        if (inv.vmFolders.length === 1 && inv.vmFolders[0].children.length === 0) setVmfolder(inv.vmFolders[0].name)
+        setCompute((c) => reconcileVsphereSelection(c, inv))
       } else {
         setVsphereError(res.data.error || "Connection failed")
       }
@@ -205,9 +200,6 @@ export function EndpointCreateDialog({
     setNsxError("")
     setNsxVersion("")
     setNsxInventory(null)
-    setTransportzone("")
-    setEdgecluster("")
-    setT0("")
 
     try {
       const res = await axios.post<InventoryResult<NsxInventory>>("/test/nsx/inventory", {
@@ -218,11 +210,9 @@ export function EndpointCreateDialog({
       if (res.data.connected && res.data.inventory) {
         setNsxVersion(res.data.version || "")
         setNsxInventory(res.data.inventory)
-        // Auto-select if single option
+        // Keep what NSX still has, auto-select if single option
         const inv = res.data.inventory
-        if (inv.transportZones.length === 1) setTransportzone(inv.transportZones[0])
-        if (inv.edgeClusters.length === 1) setEdgecluster(inv.edgeClusters[0])
-        if (inv.t0Gateways.length === 1) setT0(inv.t0Gateways[0])
+        setNetwork((n) => reconcileNsxSelection(n, inv))
       } else {
         setNsxError(res.data.error || "Connection failed")
       }
@@ -246,12 +236,7 @@ export function EndpointCreateDialog({
           hostname: computeHostname,
           username: computeUsername,
           password: computePassword,
-          datacenter,
-          resource_pool: resourcePool,
-          storage_datastore: storageDatastore,
-          storage_policy: "",
-          contentlibrary: "",
-          vmfolder,
+          ...compute,
         },
         network: {
           // driver options: "nsxt" | "nsxt_projects" (nsxt_projects hidden — lacks testing)
@@ -260,9 +245,7 @@ export function EndpointCreateDialog({
           username: networkUsername,
           password: networkPassword,
           networks,
-          transportzone,
-          edgecluster,
-          t0,
+          ...network,
         },
       },
     }
@@ -292,70 +275,15 @@ export function EndpointCreateDialog({
     }
   }
 
-  function FolderTreeNode({ item, selected, onSelect, depth = 0 }: {
-    item: VmFolderTreeItem
-    selected: string
-    onSelect: (name: string) => void
-    depth?: number
-  }) {
-    const isSelected = selected === item.name
-    const hasChildren = item.children.length > 0
-
-    if (hasChildren) {
-      return (
-        <Collapsible key={item.name} defaultOpen={depth === 0}>
-          <div className="flex items-center" style={{ paddingLeft: depth * 16 }}>
-            <CollapsibleTrigger asChild>
-              <button className="group flex h-7 w-5 shrink-0 items-center justify-center rounded-sm hover:bg-accent">
-                <ChevronRight className="h-3 w-3 text-muted-foreground transition-transform group-data-[state=open]:rotate-90" />
-              </button>
-            </CollapsibleTrigger>
-            <button
-              className={`flex flex-1 items-center gap-1.5 rounded-sm px-1.5 h-7 text-sm hover:bg-accent ${isSelected ? "bg-accent font-medium" : ""}`}
-              onClick={() => onSelect(item.name)}
-            >
-              <FolderIcon className={`h-3.5 w-3.5 shrink-0 ${isSelected ? "text-blue-400" : "text-muted-foreground"}`} />
-              <span className="truncate">{item.name}</span>
-              {isSelected && <CheckCircle2 className="h-3.5 w-3.5 text-green-500 shrink-0 ml-auto" />}
-            </button>
-          </div>
-          <CollapsibleContent>
-            {item.children.map((child) => (
-              <FolderTreeNode key={child.name} item={child} selected={selected} onSelect={onSelect} depth={depth + 1} />
-            ))}
-          </CollapsibleContent>
-        </Collapsible>
-      )
-    }
-
-    return (
-      <div className="flex items-center" style={{ paddingLeft: depth * 16 }}>
-        <div className="w-5 shrink-0" />
-        <button
-          className={`flex flex-1 items-center gap-1.5 rounded-sm px-1.5 h-7 text-sm hover:bg-accent ${isSelected ? "bg-accent font-medium" : ""}`}
-          onClick={() => onSelect(item.name)}
-        >
-          <FolderIcon className={`h-3.5 w-3.5 shrink-0 ${isSelected ? "text-blue-400" : "text-muted-foreground"}`} />
-          <span className="truncate">{item.name}</span>
-          {isSelected && <CheckCircle2 className="h-3.5 w-3.5 text-green-500 shrink-0 ml-auto" />}
-        </button>
-      </div>
-    )
-  }
-
-  // Datastore capacity for selected datastore
-  const selectedDs = vsphereInventory?.datastores.find((d) => d.name === storageDatastore)
-  const dsPercent = selectedDs
-    ? Math.round((selectedDs.usedGB / selectedDs.capacityGB) * 100)
-    : 0
-
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto p-4 gap-3">
         <DialogHeader className="pb-0">
-          <DialogTitle className="text-base">Add Endpoint</DialogTitle>
+          <DialogTitle className="text-base">{source ? `Clone Endpoint — ${source.name}` : "Add Endpoint"}</DialogTitle>
           <DialogDescription className="text-xs">
-            Configure compute and network endpoint for deployments
+            {source
+              ? "Pre-filled from the source endpoint. Enter the passwords and fetch both inventories to check the selections."
+              : "Configure compute and network endpoint for deployments"}
           </DialogDescription>
         </DialogHeader>
 
@@ -457,124 +385,24 @@ export function EndpointCreateDialog({
               )}
 
               {/* Inventory selects */}
-              {vsphereInventory && (
-                <>
-                  <div className="space-y-1">
-                    <Label className="text-xs">Datacenter *</Label>
-                    <Select value={datacenter} onValueChange={setDatacenter}>
-                      <div className="flex items-center gap-1.5">
-                      <SelectTrigger className="h-8 text-sm">
-                        <SelectValue placeholder="Select datacenter" />
-                      </SelectTrigger>
-                      {datacenter && <CheckCircle2 className="h-4 w-4 text-green-500 shrink-0" />}
-                      </div>
-                      <SelectContent>
-                        {vsphereInventory.datacenters.map((dc) => (
-                          <SelectItem key={dc} value={dc} className="text-sm">{dc}</SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
-
-                  <div className="space-y-1">
-                    <Label className="text-xs">Cluster / Resource Pool *</Label>
-                    <Select value={resourcePool} onValueChange={setResourcePool}>
-                      <div className="flex items-center gap-1.5">
-                      <SelectTrigger className="h-8 text-sm">
-                        <SelectValue placeholder="Select cluster or resource pool" />
-                      </SelectTrigger>
-                      {resourcePool && <CheckCircle2 className="h-4 w-4 text-green-500 shrink-0" />}
-                      </div>
-                      <SelectContent>
-                        {vsphereInventory.resourcePools.filter(r => r.type === "cluster").length > 0 && (
-                          <SelectGroup>
-                            <SelectLabel className="text-xs text-muted-foreground">Clusters</SelectLabel>
-                            {vsphereInventory.resourcePools.filter(r => r.type === "cluster").map(r => (
-                              <SelectItem key={r.name} value={r.name} className="text-sm">{r.name}</SelectItem>
-                            ))}
-                          </SelectGroup>
-                        )}
-                        {vsphereInventory.resourcePools.filter(r => r.type === "resource_pool").length > 0 && (
-                          <SelectGroup>
-                            <SelectLabel className="text-xs text-muted-foreground">Resource Pools</SelectLabel>
-                            {vsphereInventory.resourcePools.filter(r => r.type === "resource_pool").map(r => (
-                              <SelectItem key={r.name} value={r.name} className="text-sm">{r.name}</SelectItem>
-                            ))}
-                          </SelectGroup>
-                        )}
-                      </SelectContent>
-                    </Select>
-                  </div>
-
-                  <div className="space-y-1">
-                    <Label className="text-xs">Datastore *</Label>
-                    <Select value={storageDatastore} onValueChange={setStorageDatastore}>
-                      <div className="flex items-center gap-1.5">
-                      <SelectTrigger className="h-8 text-sm">
-                        <SelectValue placeholder="Select datastore" />
-                      </SelectTrigger>
-                      {storageDatastore && <CheckCircle2 className="h-4 w-4 text-green-500 shrink-0" />}
-                      </div>
-                      <SelectContent>
-                        {Object.entries(
-                          Object.groupBy(vsphereInventory.datastores, (ds) => ds.type)
-                        ).sort(([a], [b]) => a.localeCompare(b)).map(([type, items]) => (
-                          <SelectGroup key={type}>
-                            <SelectLabel className="text-xs text-muted-foreground">{type}</SelectLabel>
-                            {items!.map((ds) => (
-                              <SelectItem key={ds.name} value={ds.name} className="text-sm">
-                                {ds.name}
-                                <span className="text-muted-foreground ml-2 text-xs">
-                                  ({(ds.usedGB / 1024).toFixed(1)} / {(ds.capacityGB / 1024).toFixed(1)} TB)
-                                </span>
-                              </SelectItem>
-                            ))}
-                          </SelectGroup>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                    {selectedDs && (
-                      <div className="flex items-center gap-2 mt-0.5">
-                        <Progress value={dsPercent} className="h-1.5 flex-1" />
-                        <span className="text-[10px] text-muted-foreground whitespace-nowrap">
-                          {(selectedDs.usedGB / 1024).toFixed(1)} / {(selectedDs.capacityGB / 1024).toFixed(1)} TB
-                        </span>
-                      </div>
-                    )}
-                  </div>
-
-                  <div className="space-y-1">
-                    <Label className="text-xs">VM Folder *</Label>
-                    <div className="flex items-center gap-1.5">
-                      <button
-                        type="button"
-                        onClick={() => setFolderTreeOpen(!folderTreeOpen)}
-                        className="flex h-8 w-full items-center justify-between rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
-                      >
-                        <span className={vmfolder ? "" : "text-muted-foreground"}>
-                          {vmfolder || "Select VM folder"}
-                        </span>
-                        <ChevronRight className={`h-4 w-4 opacity-50 transition-transform ${folderTreeOpen ? "rotate-90" : ""}`} />
-                      </button>
-                      {vmfolder && <CheckCircle2 className="h-4 w-4 text-green-500 shrink-0" />}
-                    </div>
-                    {folderTreeOpen && (
-                      <div className="border rounded-md py-1 max-h-40 overflow-y-auto scrollbar-themed">
-                        {vsphereInventory.vmFolders.map((item) => (
-                          <FolderTreeNode
-                            key={item.name}
-                            item={item}
-                            selected={vmfolder}
-                            onSelect={(name) => {
-                              setVmfolder(name)
-                              setFolderTreeOpen(false)
-                            }}
-                          />
-                        ))}
-                      </div>
-                    )}
-                  </div>
-                </>
+              {vsphereInventory ? (
+                <VsphereInventoryPickers
+                  inventory={vsphereInventory}
+                  value={compute}
+                  onChange={(patch) => setCompute((c) => ({ ...c, ...patch }))}
+                />
+              ) : source && (
+                <InventorySummary
+                  hint="Fetch the inventory to check these against the vCenter"
+                  rows={[
+                    { label: "Datacenter", value: compute.datacenter },
+                    { label: "Resource Pool", value: compute.resource_pool },
+                    { label: "Datastore", value: compute.storage_datastore },
+                    { label: "VM Folder", value: compute.vmfolder },
+                    { label: "Storage Policy", value: compute.storage_policy },
+                    { label: "Content Library", value: compute.contentlibrary },
+                  ]}
+                />
               )}
             </div>
 
@@ -645,95 +473,42 @@ export function EndpointCreateDialog({
                 </div>
               )}
 
-              {/* Networks CIDR (always a text input, validated live) */}
-              <div className="space-y-1">
-                <Label htmlFor="n-net" className="text-xs">Networks *</Label>
+              <NetworksCidrInput
+                id="n-net"
+                value={networks}
+                onChange={setNetworks}
+                error={overlapBlocks && overlapMessage}
+              />
+              {overlapMessage && !overlapBlocks && (
                 <div className="flex items-center gap-1.5">
-                  <Input
-                    id="n-net"
-                    value={networks}
-                    onChange={(e) => setNetworks(e.target.value)}
-                    placeholder="10.60.0.0/16"
-                    className="h-8 text-sm"
-                  />
-                  {networks && cidrParsed && (
-                    cidrParsed.valid ? (
-                      <CheckCircle2 className="h-4 w-4 text-green-500 shrink-0" />
-                    ) : (
-                      <XCircle className="h-4 w-4 text-red-500 shrink-0" />
-                    )
-                  )}
+                  <AlertTriangle className="h-3.5 w-3.5 text-[#f9e2af] shrink-0" />
+                  <span className="text-xs text-[#f9e2af]">{overlapMessage}</span>
                 </div>
-                {networks && cidrParsed && cidrParsed.valid && (
-                  <p className="text-[10px] text-muted-foreground mt-0.5">
-                    /{cidrParsed.prefix} → {cidrParsed.zpodCapacity} zPods available
-                  </p>
-                )}
-                {networks && cidrParsed && !cidrParsed.valid && (
-                  <p className="text-[10px] text-red-400 mt-0.5">
-                    {cidrParsed.tooSmall
-                      ? "Prefix must be /21 or larger (e.g. /20, /16)"
-                      : cidrParsed.hostBits
-                        ? "Host bits set — use the network address (e.g. 10.60.0.0/20, not 10.60.1.0/20)"
-                        : "Invalid CIDR format (e.g. 10.60.0.0/16)"}
-                  </p>
-                )}
-              </div>
+              )}
+              {sourceNetwork && networks === (proposedNetworks ?? "") && (
+                <p className="text-[10px] text-muted-foreground">
+                  {proposedNetworks
+                    ? `Next free range after ${sourceNetwork.networks}, not used by any endpoint`
+                    : `No free range of the same size after ${sourceNetwork.networks}, enter one`}
+                </p>
+              )}
 
               {/* Inventory selects */}
-              {nsxInventory && (
-                <>
-                  <div className="space-y-1">
-                    <Label className="text-xs">Transport Zone *</Label>
-                    <Select value={transportzone} onValueChange={setTransportzone}>
-                      <div className="flex items-center gap-1.5">
-                      <SelectTrigger className="h-8 text-sm">
-                        <SelectValue placeholder="Select transport zone" />
-                      </SelectTrigger>
-                      {transportzone && <CheckCircle2 className="h-4 w-4 text-green-500 shrink-0" />}
-                      </div>
-                      <SelectContent>
-                        {nsxInventory.transportZones.map((tz) => (
-                          <SelectItem key={tz} value={tz} className="text-sm">{tz}</SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
-
-                  <div className="space-y-1">
-                    <Label className="text-xs">Edge Cluster *</Label>
-                    <Select value={edgecluster} onValueChange={setEdgecluster}>
-                      <div className="flex items-center gap-1.5">
-                      <SelectTrigger className="h-8 text-sm">
-                        <SelectValue placeholder="Select edge cluster" />
-                      </SelectTrigger>
-                      {edgecluster && <CheckCircle2 className="h-4 w-4 text-green-500 shrink-0" />}
-                      </div>
-                      <SelectContent>
-                        {nsxInventory.edgeClusters.map((ec) => (
-                          <SelectItem key={ec} value={ec} className="text-sm">{ec}</SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
-
-                  <div className="space-y-1">
-                    <Label className="text-xs">T0 Gateway *</Label>
-                    <Select value={t0} onValueChange={setT0}>
-                      <div className="flex items-center gap-1.5">
-                      <SelectTrigger className="h-8 text-sm">
-                        <SelectValue placeholder="Select T0 gateway" />
-                      </SelectTrigger>
-                      {t0 && <CheckCircle2 className="h-4 w-4 text-green-500 shrink-0" />}
-                      </div>
-                      <SelectContent>
-                        {nsxInventory.t0Gateways.map((gw) => (
-                          <SelectItem key={gw} value={gw} className="text-sm">{gw}</SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
-                </>
+              {nsxInventory ? (
+                <NsxInventoryPickers
+                  inventory={nsxInventory}
+                  value={network}
+                  onChange={(patch) => setNetwork((n) => ({ ...n, ...patch }))}
+                />
+              ) : source && (
+                <InventorySummary
+                  hint="Fetch the inventory to check these against NSX"
+                  rows={[
+                    { label: "Transport Zone", value: network.transportzone },
+                    { label: "Edge Cluster", value: network.edgecluster },
+                    { label: "T0 Gateway", value: network.t0 },
+                  ]}
+                />
               )}
             </div>
           </div>
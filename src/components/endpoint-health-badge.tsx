@@ -0,0 +1,127 @@
+import { Badge } from "@/components/ui/badge"
+import {
+  HoverCard,
+  HoverCardContent,
+  HoverCardTrigger,
+} from "@/components/ui/hover-card"
+import { Sparkline } from "@/components/sparkline"
+import { Activity, CheckCircle2, XCircle } from "lucide-react"
+import { formatDateTime } from "@/lib/utils"
+import {
+  DATASTORE_FULL_PERCENT,
+  datastoreUsagePercent,
+  healthSeries,
+  sampleStatus,
+  type EndpointHealthStatus,
+} from "@/lib/endpoint-health"
+import type { EndpointFull, EndpointHealthHistory, HealthCheck } from "@/types"
+
+const STATUS_STYLES: Record<EndpointHealthStatus, { label: string; className: string }> = {
+  healthy: { label: "Healthy", className: "bg-[#a6e3a1]/15 text-[#a6e3a1] border-[#a6e3a1]/30" },
+  degraded: { label: "Degraded", className: "bg-[#f9e2af]/15 text-[#f9e2af] border-[#f9e2af]/30" },
+  down: { label: "Down", className: "bg-[#f38ba8]/15 text-[#f38ba8] border-[#f38ba8]/30" },
+  pending: { label: "Checking", className: "bg-[#6c7086]/15 text-[#a6adc8] border-[#6c7086]/30" },
+}
+
+function SeriesRow({ label, current, children }: { label: string; current: string; children: React.ReactNode }) {
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs">
+        <span className="text-muted-foreground">{label}</span>
+        <span>{current}</span>
+      </div>
+      {children}
+    </div>
+  )
+}
+
+function CheckRow({ label, name, check }: { label: string; name: string; check?: HealthCheck }) {
+  if (!check) return null
+  return (
+    <div className="flex items-center justify-between text-xs">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="flex items-center gap-1.5 font-mono">
+        {name}
+        {check.ok
+          ? <CheckCircle2 className="h-3 w-3 text-green-500" />
+          : <XCircle className="h-3 w-3 text-red-500" />}
+      </span>
+    </div>
+  )
+}
+
+/** Health badge for an endpoint watched by the server's monitor, with its recent history on hover */
+export function EndpointHealthBadge({
+  endpoint,
+  history,
+  intervalSeconds,
+}: {
+  endpoint: EndpointFull
+  history: EndpointHealthHistory
+  intervalSeconds: number
+}) {
+  const { compute, network } = endpoint.endpoints
+  const { samples } = history
+  const last = samples.at(-1)
+  const status = STATUS_STYLES[sampleStatus(last)]
+  const series = healthSeries(samples)
+  const usage = last ? datastoreUsagePercent(last) : null
+  const failures = samples.filter((s) => sampleStatus(s) === "down").length
+
+  return (
+    <HoverCard>
+      <HoverCardTrigger asChild>
+        <Badge variant="outline" className={`cursor-default gap-1 ${status.className}`}>
+          <Activity className="h-3 w-3" />
+          {status.label}
+        </Badge>
+      </HoverCardTrigger>
+      <HoverCardContent className="w-72 bg-[#181825] border-[#313244]" side="bottom" align="end">
+        {!last ? (
+          <p className="text-xs text-muted-foreground">Waiting for the first check</p>
+        ) : (
+          <div className="space-y-3">
+            <div>
+              <p className="text-sm font-medium">Endpoint health</p>
+              <p className="text-xs text-muted-foreground">
+                Last check {formatDateTime(last.at)}, every {intervalSeconds}s.
+                {failures > 0 && ` ${failures} of the last ${samples.length} checks failed.`}
+              </p>
+            </div>
+
+            <SeriesRow
+              label={`vSphere ${compute.hostname}`}
+              current={last.vsphere.ok ? `${last.vsphere.latencyMs} ms` : "unreachable"}
+            >
+              <Sparkline values={series.vsphereLatency} color="#89b4fa" width={256} />
+            </SeriesRow>
+
+            <SeriesRow
+              label={`NSX ${network.hostname}`}
+              current={last.nsx.ok ? `${last.nsx.latencyMs} ms` : "unreachable"}
+            >
+              <Sparkline values={series.nsxLatency} color="#cba6f7" width={256} />
+            </SeriesRow>
+
+            {series.datastoreUsage.some((v) => v != null) && (
+              <SeriesRow label="Datastore usage" current={usage != null ? `${usage}%` : "—"}>
+                <Sparkline
+                  values={series.datastoreUsage}
+                  max={100}
+                  color={usage != null && usage >= DATASTORE_FULL_PERCENT ? "#f9e2af" : "#94e2d5"}
+                  width={256}
+                />
+              </SeriesRow>
+            )}
+
+            <div className="space-y-1 border-t border-[#313244] pt-2">
+              <CheckRow label="Datastore" name={compute.storage_datastore} check={last.vsphere.datastore} />
+              <CheckRow label="Edge Cluster" name={network.edgecluster} check={last.nsx.edgecluster} />
+              <CheckRow label="T0" name={network.t0} check={last.nsx.t0} />
+            </div>
+          </div>
+        )}
+      </HoverCardContent>
+    </HoverCard>
+  )
+}
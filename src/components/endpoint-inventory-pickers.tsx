@@ -0,0 +1,402 @@
+import { useState } from "react"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Progress } from "@/components/ui/progress"
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible"
+import { AlertTriangle, CheckCircle2, ChevronRight, FolderIcon, XCircle } from "lucide-react"
+import { parseEndpointNetworks } from "@/lib/cidr"
+import { findInFolderTree, type NsxSelection, type VsphereSelection } from "@/lib/endpoint-config"
+import type { NsxInventory, VmFolderTreeItem, VsphereInventory } from "@/types"
+
+/** Radix Select items can't carry an empty value, optional fields use this instead */
+const NONE = "__none__"
+
+function FieldStatus({ value, found, unavailable }: { value: string; found: boolean; unavailable?: boolean }) {
+  if (!value) return null
+  if (unavailable) return <AlertTriangle className="h-4 w-4 text-[#f9e2af] shrink-0" />
+  return found
+    ? <CheckCircle2 className="h-4 w-4 text-green-500 shrink-0" />
+    : <XCircle className="h-4 w-4 text-red-500 shrink-0" />
+}
+
+interface SelectOption {
+  value: string
+  hint?: React.ReactNode
+}
+
+interface SelectOptionGroup {
+  label?: string
+  options: SelectOption[]
+}
+
+/**
+ * Select over inventory items. A value missing from the inventory (an
+ * endpoint pointing at a renamed resource) stays selectable and is flagged;
+ * when the list itself could not be fetched (`unavailable`) it is only
+ * reported as unverified.
+ */
+function InventorySelect({
+  label,
+  value,
+  onChange,
+  placeholder,
+  groups,
+  optional = false,
+  unavailable,
+}: {
+  label: string
+  value: string
+  onChange: (value: string) => void
+  placeholder?: string
+  groups: SelectOptionGroup[]
+  optional?: boolean
+  /** Why the inventory for this field could not be listed */
+  unavailable?: string
+}) {
+  const found = groups.some((g) => g.options.some((o) => o.value === value))
+
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs">{label}{!optional && " *"}</Label>
+      <Select
+        value={optional ? value || NONE : value}
+        onValueChange={(v) => onChange(v === NONE ? "" : v)}
+      >
+        <div className="flex items-center gap-1.5">
+        <SelectTrigger className="h-8 text-sm">
+          <SelectValue placeholder={placeholder} />
+        </SelectTrigger>
+        <FieldStatus value={value} found={found} unavailable={!!unavailable} />
+        </div>
+        <SelectContent>
+          {optional && (
+            <SelectItem value={NONE} className="text-sm text-muted-foreground">None</SelectItem>
+          )}
+          {value && !found && (
+            <SelectItem value={value} className="text-sm">
+              {value}
+              {unavailable
+                ? <span className="text-[#f9e2af] ml-2 text-xs">(not verified)</span>
+                : <span className="text-red-400 ml-2 text-xs">(not found)</span>}
+            </SelectItem>
+          )}
+          {groups.map((g, i) => g.label ? (
+            g.options.length > 0 && (
+              <SelectGroup key={g.label}>
+                <SelectLabel className="text-xs text-muted-foreground">{g.label}</SelectLabel>
+                {g.options.map((o) => (
+                  <SelectItem key={o.value} value={o.value} className="text-sm">
+                    {o.value}
+                    {o.hint && <span className="text-muted-foreground ml-2 text-xs">{o.hint}</span>}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            )
+          ) : (
+            g.options.map((o) => (
+              <SelectItem key={`${i}-${o.value}`} value={o.value} className="text-sm">
+                {o.value}
+                {o.hint && <span className="text-muted-foreground ml-2 text-xs">{o.hint}</span>}
+              </SelectItem>
+            ))
+          ))}
+        </SelectContent>
+      </Select>
+      {unavailable && (
+        <p className="text-[10px] text-[#f9e2af]">Unavailable: {unavailable}</p>
+      )}
+    </div>
+  )
+}
+
+function FolderTreeNode({ item, selected, onSelect, depth = 0 }: {
+  item: VmFolderTreeItem
+  selected: string
+  onSelect: (name: string) => void
+  depth?: number
+}) {
+  const isSelected = selected === item.name
+  const hasChildren = item.children.length > 0
+
+  if (hasChildren) {
+    return (
+      <Collapsible key={item.name} defaultOpen={depth === 0}>
+        <div className="flex items-center" style={{ paddingLeft: depth * 16 }}>
+          <CollapsibleTrigger asChild>
+            <button className="group flex h-7 w-5 shrink-0 items-center justify-center rounded-sm hover:bg-accent">
+              <ChevronRight className="h-3 w-3 text-muted-foreground transition-transform group-data-[state=open]:rotate-90" />
+            </button>
+          </CollapsibleTrigger>
+          <button
+            className={`flex flex-1 items-center gap-1.5 rounded-sm px-1.5 h-7 text-sm hover:bg-accent ${isSelected ? "bg-accent font-medium" : ""}`}
+            onClick={() => onSelect(item.name)}
+          >
+            <FolderIcon className={`h-3.5 w-3.5 shrink-0 ${isSelected ? "text-blue-400" : "text-muted-foreground"}`} />
+            <span className="truncate">{item.name}</span>
+            {isSelected && <CheckCircle2 className="h-3.5 w-3.5 text-green-500 shrink-0 ml-auto" />}
+          </button>
+        </div>
+        <CollapsibleContent>
+          {item.children.map((child) => (
+            <FolderTreeNode key={child.name} item={child} selected={selected} onSelect={onSelect} depth={depth + 1} />
+          ))}
+        </CollapsibleContent>
+      </Collapsible>
+    )
+  }
+
+  return (
+    <div className="flex items-center" style={{ paddingLeft: depth * 16 }}>
+      <div className="w-5 shrink-0" />
+      <button
+        className={`flex flex-1 items-center gap-1.5 rounded-sm px-1.5 h-7 text-sm hover:bg-accent ${isSelected ? "bg-accent font-medium" : ""}`}
+        onClick={() => onSelect(item.name)}
+      >
+        <FolderIcon className={`h-3.5 w-3.5 shrink-0 ${isSelected ? "text-blue-400" : "text-muted-foreground"}`} />
+        <span className="truncate">{item.name}</span>
+        {isSelected && <CheckCircle2 className="h-3.5 w-3.5 text-green-500 shrink-0 ml-auto" />}
+      </button>
+    </div>
+  )
+}
+
+/** Current selections shown read-only until the inventory is fetched */
+export function InventorySummary({ rows, hint }: { rows: { label: string; value: string }[]; hint: string }) {
+  return (
+    <div className="space-y-0.5 rounded-md border p-2">
+      {rows.filter((r) => r.value).map((r) => (
+        <div key={r.label} className="flex items-center justify-between py-0.5">
+          <span className="text-xs text-muted-foreground">{r.label}</span>
+          <span className="text-xs font-mono">{r.value}</span>
+        </div>
+      ))}
+      <p className="pt-1 text-[10px] text-muted-foreground">{hint}</p>
+    </div>
+  )
+}
+
+/** Datacenter, cluster / resource pool, datastore, VM folder, storage policy and content library */
+export function VsphereInventoryPickers({
+  inventory,
+  value,
+  onChange,
+}: {
+  inventory: VsphereInventory
+  value: VsphereSelection
+  onChange: (patch: Partial<VsphereSelection>) => void
+}) {
+  const [folderTreeOpen, setFolderTreeOpen] = useState(false)
+
+  // Datastore capacity for selected datastore
+  const selectedDs = inventory.datastores.find((d) => d.name === value.storage_datastore)
+  const dsPercent = selectedDs
+    ? Math.round((selectedDs.usedGB / selectedDs.capacityGB) * 100)
+    : 0
+
+  return (
+    <>
+      <InventorySelect
+        label="Datacenter"
+        value={value.datacenter}
+        onChange={(datacenter) => onChange({ datacenter })}
+        placeholder="Select datacenter"
+        groups={[{ options: inventory.datacenters.map((dc) => ({ value: dc })) }]}
+      />
+
+      <InventorySelect
+        label="Cluster / Resource Pool"
+        value={value.resource_pool}
+        onChange={(resource_pool) => onChange({ resource_pool })}
+        placeholder="Select cluster or resource pool"
+        groups={[
+          {
+            label: "Clusters",
+            options: inventory.resourcePools.filter((r) => r.type === "cluster").map((r) => ({ value: r.name })),
+          },
+          {
+            label: "Resource Pools",
+            options: inventory.resourcePools.filter((r) => r.type === "resource_pool").map((r) => ({ value: r.name })),
+          },
+        ]}
+      />
+
+      <div className="space-y-1">
+        <InventorySelect
+          label="Datastore"
+          value={value.storage_datastore}
+          onChange={(storage_datastore) => onChange({ storage_datastore })}
+          placeholder="Select datastore"
+          groups={Object.entries(Object.groupBy(inventory.datastores, (ds) => ds.type))
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([type, items]) => ({
+              label: type,
+              options: items!.map((ds) => ({
+                value: ds.name,
+                hint: `(${(ds.usedGB / 1024).toFixed(1)} / ${(ds.capacityGB / 1024).toFixed(1)} TB)`,
+              })),
+            }))}
+        />
+        {selectedDs && (
+          <div className="flex items-center gap-2 mt-0.5">
+            <Progress value={dsPercent} className="h-1.5 flex-1" />
+            <span className="text-[10px] text-muted-foreground whitespace-nowrap">
+              {(selectedDs.usedGB / 1024).toFixed(1)} / {(selectedDs.capacityGB / 1024).toFixed(1)} TB
+            </span>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs">VM Folder *</Label>
+        <div className="flex items-center gap-1.5">
+          <button
+            type="button"
+            onClick={() => setFolderTreeOpen(!folderTreeOpen)}
+            className="flex h-8 w-full items-center justify-between rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+          >
+            <span className={value.vmfolder ? "" : "text-muted-foreground"}>
+              {value.vmfolder || "Select VM folder"}
+            </span>
+            <ChevronRight className={`h-4 w-4 opacity-50 transition-transform ${folderTreeOpen ? "rotate-90" : ""}`} />
+          </button>
+          <FieldStatus value={value.vmfolder} found={findInFolderTree(inventory.vmFolders, value.vmfolder)} />
+        </div>
+        {folderTreeOpen && (
+          <div className="border rounded-md py-1 max-h-40 overflow-y-auto scrollbar-themed">
+            {inventory.vmFolders.map((item) => (
+              <FolderTreeNode
+                key={item.name}
+                item={item}
+                selected={value.vmfolder}
+                onSelect={(name) => {
+                  onChange({ vmfolder: name })
+                  setFolderTreeOpen(false)
+                }}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="grid gap-2 grid-cols-2">
+        <InventorySelect
+          label="Storage Policy"
+          optional
+          value={value.storage_policy}
+          onChange={(storage_policy) => onChange({ storage_policy })}
+          groups={[{ options: inventory.storagePolicies.map((sp) => ({ value: sp })) }]}
+          unavailable={inventory.errors?.storagePolicies}
+        />
+        <InventorySelect
+          label="Content Library"
+          optional
+          value={value.contentlibrary}
+          onChange={(contentlibrary) => onChange({ contentlibrary })}
+          groups={[{
+            options: inventory.contentLibraries.map((cl) => ({
+              value: cl.name,
+              hint: `(${cl.type === "SUBSCRIBED" ? "subscribed" : "local"})`,
+            })),
+          }]}
+          unavailable={inventory.errors?.contentLibraries}
+        />
+      </div>
+    </>
+  )
+}
+
+/** Transport zone, edge cluster and T0 gateway */
+export function NsxInventoryPickers({
+  inventory,
+  value,
+  onChange,
+}: {
+  inventory: NsxInventory
+  value: NsxSelection
+  onChange: (patch: Partial<NsxSelection>) => void
+}) {
+  return (
+    <>
+      <InventorySelect
+        label="Transport Zone"
+        value={value.transportzone}
+        onChange={(transportzone) => onChange({ transportzone })}
+        placeholder="Select transport zone"
+        groups={[{ options: inventory.transportZones.map((tz) => ({ value: tz })) }]}
+      />
+      <InventorySelect
+        label="Edge Cluster"
+        value={value.edgecluster}
+        onChange={(edgecluster) => onChange({ edgecluster })}
+        placeholder="Select edge cluster"
+        groups={[{ options: inventory.edgeClusters.map((ec) => ({ value: ec })) }]}
+      />
+      <InventorySelect
+        label="T0 Gateway"
+        value={value.t0}
+        onChange={(t0) => onChange({ t0 })}
+        placeholder="Select T0 gateway"
+        groups={[{ options: inventory.t0Gateways.map((gw) => ({ value: gw })) }]}
+      />
+    </>
+  )
+}
+
+/** Networks CIDR (always a text input, validated live); `error` overrides the capacity hint */
+export function NetworksCidrInput({
+  id,
+  value,
+  onChange,
+  error,
+}: {
+  id: string
+  value: string
+  onChange: (value: string) => void
+  error?: React.ReactNode
+}) {
+  const cidrParsed = parseEndpointNetworks(value)
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs">Networks *</Label>
+      <div className="flex items-center gap-1.5">
+        <Input
+          id={id}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="10.60.0.0/16"
+          className="h-8 text-sm"
+        />
+        {cidrParsed && <FieldStatus value={value} found={cidrParsed.valid && !error} />}
+      </div>
+      {cidrParsed && cidrParsed.valid && !error && (
+        <p className="text-[10px] text-muted-foreground mt-0.5">
+          /{cidrParsed.prefix} → {cidrParsed.zpodCapacity} zPods available
+        </p>
+      )}
+      {cidrParsed && !cidrParsed.valid && (
+        <p className="text-[10px] text-red-400 mt-0.5">
+          {cidrParsed.tooSmall
+            ? "Prefix must be /21 or larger (e.g. /20, /16)"
+            : cidrParsed.hostBits
+              ? "Host bits set — use the network address (e.g. 10.60.0.0/20, not 10.60.1.0/20)"
+              : "Invalid CIDR format (e.g. 10.60.0.0/16)"}
+        </p>
+      )}
+      {cidrParsed?.valid && error && <div className="text-[10px] text-red-400 mt-0.5">{error}</div>}
+    </div>
+  )
+}
@@ -0,0 +1,290 @@
+import { useMemo, useState } from "react"
+import axios from "axios"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Separator } from "@/components/ui/separator"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { AlertTriangle, CheckCircle2, Ghost, Loader2, Search, XCircle } from "lucide-react"
+import { useAggregateMode, useAllTargetsZpods, useOpenZpod, type TargetZpod } from "@/hooks/use-all-targets"
+import { findOrphans, formatAge, ORPHAN_KIND_LABELS, type OrphanKind } from "@/lib/endpoint-orphans"
+import { formatDateTime } from "@/lib/utils"
+import type { EndpointFull, InventoryResult, NsxZpodObjects, VsphereZpodObjects, Zpod } from "@/types"
+
+const KIND_STYLES: Record<OrphanKind, string> = {
+  tier1: "bg-[#cba6f7]/15 text-[#cba6f7] border-[#cba6f7]/30",
+  segment: "bg-[#94e2d5]/15 text-[#94e2d5] border-[#94e2d5]/30",
+  folder: "bg-[#f9e2af]/15 text-[#f9e2af] border-[#f9e2af]/30",
+  vm: "bg-[#89b4fa]/15 text-[#89b4fa] border-[#89b4fa]/30",
+}
+
+interface ScanResult<T> {
+  objects: T | null
+  error: string
+}
+
+async function scan<T>(route: string, body: Record<string, string>): Promise<ScanResult<T>> {
+  try {
+    const res = await axios.post<InventoryResult<T>>(route, body)
+    if (!res.data.connected) return { objects: null, error: res.data.error || "Connection failed" }
+    if (!res.data.inventory) return { objects: null, error: res.data.error || "Listing failed" }
+    return { objects: res.data.inventory, error: "" }
+  } catch {
+    return { objects: null, error: "Unable to reach test server" }
+  }
+}
+
+function ScanStatus({ label, host, result }: { label: string; host: string; result: ScanResult<unknown> }) {
+  return (
+    <div className="flex items-center gap-1.5 text-xs">
+      {result.error ? (
+        <XCircle className="h-3.5 w-3.5 text-red-500 shrink-0" />
+      ) : (
+        <CheckCircle2 className="h-3.5 w-3.5 text-green-500 shrink-0" />
+      )}
+      <span className="text-muted-foreground">{label}</span>
+      <span className="font-mono">{host}</span>
+      {result.error && <span className="text-red-500">— {result.error}</span>}
+    </div>
+  )
+}
+
+/**
+ * Leftovers of zPods that failed to destroy: the endpoint's `zPod-…`
+ * gateways, segments, VM folders and VMs that no live zPod accounts for.
+ * The scan stays within the endpoint's datacenter / VM folder and T0 /
+ * transport zone; in all-factories mode every target's zPods count as live.
+ * Remount (key) to reset.
+ */
+export function EndpointOrphansDialog({
+  endpoint,
+  zpods,
+  zpodsLoading,
+  zpodsError,
+  open,
+  onOpenChange,
+}: {
+  endpoint: EndpointFull
+  /** Every zPod of the active factory, whatever its endpoint */
+  zpods: Zpod[]
+  zpodsLoading: boolean
+  /** Error of the last zPods fetch; `zpods` may then be stale or empty */
+  zpodsError: unknown
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}) {
+  const { compute, network } = endpoint.endpoints
+  const [vspherePassword, setVspherePassword] = useState("")
+  const [nsxPassword, setNsxPassword] = useState("")
+  const [scanning, setScanning] = useState(false)
+  const [vsphereScan, setVsphereScan] = useState<ScanResult<VsphereZpodObjects> | null>(null)
+  const [nsxScan, setNsxScan] = useState<ScanResult<NsxZpodObjects> | null>(null)
+  const [scannedAt, setScannedAt] = useState<number | null>(null)
+  const aggregate = useAggregateMode()
+  const allTargets = useAllTargetsZpods(aggregate)
+  const openZpod = useOpenZpod()
+  const known: TargetZpod[] = aggregate ? allTargets.zpods : zpods
+  const zpodsUnavailable = !aggregate && (zpodsLoading || zpodsError !== undefined)
+
+  const orphans = useMemo(
+    () => (vsphereScan && nsxScan ? findOrphans(known, nsxScan.objects, vsphereScan.objects) : []),
+    [known, vsphereScan, nsxScan]
+  )
+  const orphanedZpods = new Set(orphans.map((o) => o.zpodName)).size
+
+  async function runScan() {
+    setScanning(true)
+    const [v, n] = await Promise.all([
+      scan<VsphereZpodObjects>("/test/vsphere/zpod-objects", {
+        hostname: compute.hostname,
+        username: compute.username,
+        password: vspherePassword,
+        datacenter: compute.datacenter,
+        vmfolder: compute.vmfolder,
+      }),
+      scan<NsxZpodObjects>("/test/nsx/zpod-objects", {
+        hostname: network.hostname,
+        username: network.username,
+        password: nsxPassword,
+        t0: network.t0,
+        transportzone: network.transportzone,
+      }),
+    ])
+    setVsphereScan(v)
+    setNsxScan(n)
+    setScannedAt(Date.now())
+    setScanning(false)
+  }
+
+  // Without every target's zPods their live objects would read as orphans
+  const canScan = !!vspherePassword && !!nsxPassword && !scanning && !allTargets.isLoading && !zpodsUnavailable
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto p-4 gap-3">
+        <DialogHeader className="pb-0">
+          <DialogTitle className="text-base flex items-center gap-2">
+            <Ghost className="h-4 w-4" />
+            Orphaned Objects — {endpoint.name}
+          </DialogTitle>
+          <DialogDescription className="text-xs">
+            Tier-1 gateways, segments, VM folders and VMs named after a zPod the factory no longer lists, or lists as DESTROY_FAILED.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Separator />
+
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div className="space-y-1">
+            <Label className="text-xs">vSphere — {compute.hostname}</Label>
+            <Input
+              type="password"
+              value={vspherePassword}
+              onChange={(e) => setVspherePassword(e.target.value)}
+              onKeyDown={(e) => { if (e.key === "Enter" && canScan) runScan() }}
+              placeholder={`${compute.username} password`}
+              className="h-8 text-sm"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">NSX — {network.hostname}</Label>
+            <Input
+              type="password"
+              value={nsxPassword}
+              onChange={(e) => setNsxPassword(e.target.value)}
+              onKeyDown={(e) => { if (e.key === "Enter" && canScan) runScan() }}
+              placeholder={`${network.username} password`}
+              className="h-8 text-sm"
+            />
+          </div>
+        </div>
+        <div className="flex items-center justify-end gap-3">
+          {zpodsUnavailable && (
+            <span className="flex items-center gap-1.5 text-xs text-[#f9e2af]">
+              <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+              {zpodsLoading
+                ? "Loading the factory's zPods"
+                : "The factory's zPods could not be listed, so every object would read as orphaned"}
+            </span>
+          )}
+          <Button size="sm" className="h-8" disabled={!canScan} onClick={runScan}>
+            {scanning ? (
+              <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />
+            ) : (
+              <Search className="mr-1.5 h-3.5 w-3.5" />
+            )}
+            {scannedAt ? "Scan again" : "Scan"}
+          </Button>
+        </div>
+
+        {vsphereScan && nsxScan && scannedAt && (
+          <>
+            <Separator />
+            <div className="space-y-1">
+              <ScanStatus label="vSphere" host={compute.hostname} result={vsphereScan} />
+              <ScanStatus label="NSX" host={network.hostname} result={nsxScan} />
+            </div>
+
+            {orphans.length === 0 ? (
+              <p className="py-4 text-center text-sm text-muted-foreground">
+                {vsphereScan.error || nsxScan.error
+                  ? "No leftovers among the objects that could be listed"
+                  : "No leftovers: every zPod object belongs to a live zPod"}
+              </p>
+            ) : (
+              <>
+                <p className="text-xs">
+                  <span className="font-bold tabular-nums">{orphans.length}</span> leftover object{orphans.length !== 1 ? "s" : ""} from{" "}
+                  <span className="font-bold tabular-nums">{orphanedZpods}</span> zPod{orphanedZpods !== 1 ? "s" : ""}
+                </p>
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-24">Type</TableHead>
+                        <TableHead>Object</TableHead>
+                        <TableHead>zPod</TableHead>
+                        <TableHead className="w-16 text-right">Age</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {orphans.map((o) => (
+                        <TableRow key={`${o.kind}:${o.location}:${o.name}`}>
+                          <TableCell>
+                            <Badge variant="outline" className={`text-[10px] px-1.5 py-0 ${KIND_STYLES[o.kind]}`}>
+                              {ORPHAN_KIND_LABELS[o.kind]}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            <div className="font-mono text-xs">{o.name}</div>
+                            <div className="font-mono text-[10px] text-muted-foreground">
+                              {o.location}
+                              {o.vmCount != null && ` · ${o.vmCount} VM${o.vmCount !== 1 ? "s" : ""} inside`}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-xs">
+                            {o.zpod ? (
+                              <span className="flex items-center gap-1.5">
+                                <button
+                                  type="button"
+                                  className="underline hover:text-[#94e2d5]"
+                                  onClick={() => { if (o.zpod) openZpod(o.zpod) }}
+                                >
+                                  {o.zpod.name}
+                                </button>
+                                {o.zpod.target && <span className="text-muted-foreground">({o.zpod.target.name})</span>}
+                                <Badge variant="outline" className="text-[10px] px-1.5 py-0 bg-[#f38ba8]/15 text-[#f38ba8] border-[#f38ba8]/30">
+                                  {o.zpod.status}
+                                </Badge>
+                              </span>
+                            ) : (
+                              <span className="text-muted-foreground">{o.zpodName} (gone)</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right text-xs tabular-nums">
+                            {o.createdAt ? (
+                              <span title={formatDateTime(o.createdAt)}>{formatAge(o.createdAt, scannedAt)}</span>
+                            ) : (
+                              <span className="text-muted-foreground">—</span>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </>
+            )}
+            {aggregate && allTargets.failures.length > 0 && (
+              <div className="flex items-start gap-1.5 text-xs text-[#f9e2af]">
+                <AlertTriangle className="h-3.5 w-3.5 shrink-0 mt-0.5" />
+                <span>
+                  zPods of {allTargets.failures.map((f) => f.name).join(", ")} could not be listed; their objects may show up here.
+                </span>
+              </div>
+            )}
+            <p className="text-[11px] text-muted-foreground">
+              Searched below VM folder {compute.vmfolder || "vm"} in {compute.datacenter}, Tier-1s on {network.t0} and segments in {network.transportzone}.
+              Objects are matched by name against {known.length} zPods {aggregate ? "of every saved target" : "of this factory"}. Folder age is the age of the oldest VM inside.
+            </p>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
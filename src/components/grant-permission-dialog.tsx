@@ -0,0 +1,179 @@
+import { useMemo, useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Check, Loader2, Search, UserPlus } from "lucide-react"
+import { permissionUsers } from "@/lib/permissions"
+import type { User, Zpod, ZpodPermission } from "@/types"
+
+export interface GrantPermissionRequest {
+  permission: ZpodPermission
+  userIds: number[]
+  /** Remove the current owners once the new ones are granted (lab handover) */
+  replaceOwners: boolean
+}
+
+const PERMISSION_HINTS: Partial<Record<ZpodPermission, string>> = {
+  OWNER: "Full control, including destroy and permission changes",
+  USER: "Can see the zPod and its credentials",
+}
+
+/** Mount with a fresh `key` per opening, the form keeps no state across uses */
+export function GrantPermissionDialog({
+  open,
+  onOpenChange,
+  zpod,
+  users,
+  usersError,
+  saving,
+  onSave,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  zpod: Zpod
+  users: User[]
+  usersError: boolean
+  saving: boolean
+  onSave: (request: GrantPermissionRequest) => void
+}) {
+  const [permission, setPermission] = useState<ZpodPermission>("OWNER")
+  const [filter, setFilter] = useState("")
+  const [selected, setSelected] = useState<Set<number>>(new Set())
+  const [replaceOwners, setReplaceOwners] = useState(false)
+
+  const owners = useMemo(() => permissionUsers(zpod, "OWNER"), [zpod])
+
+  // Users already holding the permission are not offered again
+  const candidates = useMemo(() => {
+    const holders = new Set(permissionUsers(zpod, permission).map((u) => u.id))
+    const q = filter.trim().toLowerCase()
+    return users
+      .filter((u) => !holders.has(u.id))
+      .filter((u) => !q || u.username.toLowerCase().includes(q) || u.email.toLowerCase().includes(q))
+      .sort((a, b) => a.username.localeCompare(b.username))
+  }, [users, zpod, permission, filter])
+
+  const toggle = (id: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  const handlePermissionChange = (value: ZpodPermission) => {
+    setPermission(value)
+    setSelected(new Set())
+    if (value !== "OWNER") setReplaceOwners(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Grant permission</DialogTitle>
+          <DialogDescription>
+            Give users access to zPod "{zpod.name}".
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-1.5">
+            <Label>Permission</Label>
+            <Select value={permission} onValueChange={(v) => handlePermissionChange(v as ZpodPermission)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="OWNER">OWNER</SelectItem>
+                <SelectItem value="USER">USER</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{PERMISSION_HINTS[permission]}</p>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label>Users</Label>
+            <div className="relative">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Filter by username or email..."
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                className="pl-8"
+              />
+            </div>
+            {usersError ? (
+              <p className="text-sm text-destructive">Failed to load the factory's users</p>
+            ) : (
+              <div className="max-h-60 overflow-y-auto rounded-md border">
+                {candidates.length === 0 ? (
+                  <p className="px-3 py-4 text-center text-sm text-muted-foreground">No users to add</p>
+                ) : (
+                  candidates.map((u) => (
+                    <button
+                      key={u.id}
+                      type="button"
+                      className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-sm hover:bg-accent"
+                      onClick={() => toggle(u.id)}
+                    >
+                      <Check className={`h-3.5 w-3.5 shrink-0 ${selected.has(u.id) ? "text-[#a6e3a1]" : "invisible"}`} />
+                      <span className="font-medium">{u.username}</span>
+                      <span className="truncate text-xs text-muted-foreground">{u.email}</span>
+                      {u.status !== "ENABLED" && (
+                        <Badge variant="outline" className="ml-auto text-xs">{u.status}</Badge>
+                      )}
+                    </button>
+                  ))
+                )}
+              </div>
+            )}
+          </div>
+
+          {permission === "OWNER" && owners.length > 0 && (
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <Label>Hand over</Label>
+                <p className="text-xs text-muted-foreground">
+                  Remove the current owner{owners.length !== 1 ? "s" : ""} ({owners.map((u) => u.username).join(", ")})
+                </p>
+              </div>
+              <Switch checked={replaceOwners} onCheckedChange={setReplaceOwners} />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onSave({ permission, userIds: [...selected], replaceOwners })}
+            disabled={selected.size === 0 || saving}
+          >
+            {saving ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <UserPlus className="mr-1 h-3 w-3" />}
+            Grant{selected.size > 0 ? ` (${selected.size})` : ""}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,26 @@
+import { IconTooltip } from "@/components/icon-tooltip"
+import type { PermissionCheck } from "@/lib/permissions"
+
+/**
+ * Wraps an action button with its tooltip. When the permission check
+ * fails the tooltip gives the reason instead; the caller still disables
+ * the button, the span keeps the tooltip working on disabled elements.
+ */
+export function GuardedAction({
+  check,
+  label,
+  children,
+}: {
+  check: PermissionCheck
+  label?: string
+  children: React.ReactElement
+}) {
+  if (check.allowed) {
+    return label ? <IconTooltip label={label}>{children}</IconTooltip> : children
+  }
+  return (
+    <IconTooltip label={check.reason ?? "Not permitted"}>
+      <span className="inline-flex cursor-not-allowed">{children}</span>
+    </IconTooltip>
+  )
+}
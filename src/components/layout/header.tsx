@@ -2,13 +2,18 @@ import { useCallback, useEffect, useState } from "react"
 import { useNavigate } from "react-router"
 import { useAuthStore } from "@/stores/auth-store"
 import { useTargetStore } from "@/stores/target-store"
-import { usePreferencesStore } from "@/stores/preferences-store"
-import { useApi } from "@/hooks/use-api"
-import { usePolling } from "@/hooks/use-polling"
+import {
+  usePreferencesStore,
+  getNotificationPrefs,
+  type NotificationPrefs,
+} from "@/stores/preferences-store"
+import { useZpodsQuery } from "@/hooks/use-api"
+import { useZpodPolling } from "@/hooks/use-polling"
 import { isInProgressStatus } from "@/lib/status-colors"
 import { Button } from "@/components/ui/button"
 import { Label } from "@/components/ui/label"
 import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
 import {
   Dialog,
   DialogContent,
@@ -27,7 +32,12 @@ import {
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import { IconTooltip } from "@/components/icon-tooltip"
 import { UploadIndicator } from "@/components/layout/upload-indicator"
-import { LogOut, ChevronDown, Settings2, Server } from "lucide-react"
+import { NotificationCenter } from "@/components/layout/notification-center"
+import { VaultSettings } from "@/components/layout/vault-settings"
+import { SettingsExportDialog } from "@/components/target/settings-export-dialog"
+import { SettingsImportDialog } from "@/components/target/settings-import-dialog"
+import { useVaultStore } from "@/stores/vault-store"
+import { LogOut, ChevronDown, Settings2, Server, Lock, Download, Upload } from "lucide-react"
 import { toast } from "sonner"
 import type { Zpod } from "@/types"
 
@@ -39,17 +49,29 @@ const INTERVAL_OPTIONS = [
   { label: "30s", value: 30 },
 ]
 
+const TRANSITION_OPTIONS: { key: "onActive" | "onDeployFailed" | "onDestroyFailed"; label: string }[] = [
+  { key: "onActive", label: "Build finished (→ ACTIVE)" },
+  { key: "onDeployFailed", label: "Deploy failed" },
+  { key: "onDestroyFailed", label: "Destroy failed" },
+]
+
+const SCOPE_OPTIONS: { label: string; value: NotificationPrefs["scope"] }[] = [
+  { label: "My zPods", value: "own" },
+  { label: "All zPods", value: "all" },
+]
+
+const NO_ZPODS: Zpod[] = []
+
 function ZpodStats() {
   const navigate = useNavigate()
-  const { fetchZpods } = useApi()
-  const [zpods, setZpods] = useState<Zpod[]>([])
+  const { data: zpods = NO_ZPODS, refetch } = useZpodsQuery()
 
   const load = useCallback(() => {
-    fetchZpods().then(setZpods).catch(() => {})
-  }, [fetchZpods])
+    refetch().catch(() => {})
+  }, [refetch])
 
   useEffect(() => { load() }, [load])
-  usePolling(load)
+  useZpodPolling(load)
 
   const active = zpods.filter((z) => z.status === "ACTIVE").length
   const inProgress = zpods.filter((z) => isInProgressStatus(z.status)).length
@@ -98,9 +120,33 @@ export function Header() {
   const navigate = useNavigate()
   const { user, logout } = useAuthStore()
   const { targets, activeTargetId, clearActiveTarget } = useTargetStore()
-  const { pollingInterval, setPollingInterval } = usePreferencesStore()
+  const { pollingInterval, setPollingInterval, notifications, setNotificationPrefs } = usePreferencesStore()
   const activeTarget = targets.find((t) => t.id === activeTargetId)
+  const { vault, lock: lockVault } = useVaultStore()
   const [prefsOpen, setPrefsOpen] = useState(false)
+  const [transfer, setTransfer] = useState<"import" | "export" | null>(null)
+  const notifyPrefs = getNotificationPrefs(notifications, user?.username)
+
+  function updateNotifyPrefs(updates: Partial<NotificationPrefs>) {
+    if (user?.username) setNotificationPrefs(user.username, updates)
+  }
+
+  async function handleDesktopToggle(enabled: boolean) {
+    if (!enabled) {
+      updateNotifyPrefs({ desktop: false })
+      return
+    }
+    if (!("Notification" in window)) {
+      toast.error("This browser does not support desktop notifications")
+      return
+    }
+    const permission = await Notification.requestPermission()
+    if (permission !== "granted") {
+      toast.error("Desktop notifications are blocked for this site")
+      return
+    }
+    updateNotifyPrefs({ desktop: true })
+  }
 
   function handleLogout() {
     sessionStorage.setItem("zpodweb-manual-disconnect", "1")
@@ -131,6 +177,8 @@ export function Header() {
             </div>
           </IconTooltip>
 
+          <NotificationCenter />
+
           {user?.superadmin && <UploadIndicator />}
 
           <DropdownMenu>
@@ -157,6 +205,12 @@ export function Header() {
                 <Settings2 className="mr-2 h-4 w-4" />
                 Preferences
               </DropdownMenuItem>
+              {vault && (
+                <DropdownMenuItem onClick={lockVault}>
+                  <Lock className="mr-2 h-4 w-4" />
+                  Lock tokens
+                </DropdownMenuItem>
+              )}
               <DropdownMenuItem onClick={handleLogout}>
                 <LogOut className="mr-2 h-4 w-4" />
                 Disconnect
@@ -199,8 +253,90 @@ export function Header() {
               ))}
             </div>
           </div>
+          <div className="space-y-3 py-2 border-t pt-4">
+            <Label className="text-xs text-muted-foreground">
+              Notifications — zPod status changes to report
+            </Label>
+            <div className="space-y-2">
+              {TRANSITION_OPTIONS.map((opt) => (
+                <div key={opt.key} className="flex items-center justify-between">
+                  <span className="text-sm">{opt.label}</span>
+                  <Switch
+                    checked={notifyPrefs[opt.key]}
+                    onCheckedChange={(checked) => updateNotifyPrefs({ [opt.key]: checked })}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-1.5">
+              {SCOPE_OPTIONS.map((opt) => (
+                <Button
+                  key={opt.value}
+                  size="sm"
+                  variant={notifyPrefs.scope === opt.value ? "default" : "outline"}
+                  className="text-xs"
+                  onClick={() => updateNotifyPrefs({ scope: opt.value })}
+                >
+                  {opt.label}
+                </Button>
+              ))}
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-sm">Desktop notifications</span>
+              <Switch
+                checked={notifyPrefs.desktop}
+                onCheckedChange={handleDesktopToggle}
+              />
+            </div>
+          </div>
+          <div className="space-y-3 py-2 border-t pt-4">
+            <Label className="text-xs text-muted-foreground">
+              Token vault — encrypt saved target tokens in this browser
+            </Label>
+            <VaultSettings />
+          </div>
+          <div className="space-y-3 py-2 border-t pt-4">
+            <Label className="text-xs text-muted-foreground">
+              Backup — move targets and preferences to another browser
+            </Label>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                className="flex-1"
+                onClick={() => {
+                  setPrefsOpen(false)
+                  setTransfer("export")
+                }}
+              >
+                <Download className="mr-1 h-3 w-3" />
+                Export
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="flex-1"
+                onClick={() => {
+                  setPrefsOpen(false)
+                  setTransfer("import")
+                }}
+              >
+                <Upload className="mr-1 h-3 w-3" />
+                Import
+              </Button>
+            </div>
+          </div>
         </DialogContent>
       </Dialog>
+
+      <SettingsExportDialog
+        open={transfer === "export"}
+        onOpenChange={(open) => !open && setTransfer(null)}
+      />
+      <SettingsImportDialog
+        open={transfer === "import"}
+        onOpenChange={(open) => !open && setTransfer(null)}
+      />
     </>
   )
 }
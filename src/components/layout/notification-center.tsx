@@ -0,0 +1,110 @@
+import { useNavigate } from "react-router"
+import { useTargetStore } from "@/stores/target-store"
+import { useNotificationStore, type ZpodNotification } from "@/stores/notification-store"
+import { describeTransition } from "@/lib/zpod-transitions"
+import { formatDateTime } from "@/lib/utils"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Bell, CheckCircle2, AlertCircle, Trash2, X } from "lucide-react"
+
+function NotificationRow({ notification }: { notification: ZpodNotification }) {
+  const removeNotification = useNotificationStore((s) => s.removeNotification)
+  const ok = notification.kind === "active"
+  const Icon = ok ? CheckCircle2 : AlertCircle
+
+  return (
+    <div className="flex items-start gap-2 w-full">
+      <Icon className={`h-4 w-4 mt-0.5 shrink-0 ${ok ? "text-[#a6e3a1]" : "text-[#f38ba8]"}`} />
+      <div className="flex-1 min-w-0">
+        <p className={`text-xs ${notification.read ? "text-zinc-400" : "text-zinc-100 font-medium"}`}>
+          {describeTransition(notification.kind, notification.zpodName)}
+        </p>
+        <p className="text-[11px] text-zinc-500">
+          {notification.from} → {notification.to} · {formatDateTime(notification.createdAt)}
+        </p>
+      </div>
+      <button
+        onClick={(e) => {
+          e.stopPropagation()
+          removeNotification(notification.id)
+        }}
+        className="shrink-0 p-0.5 rounded hover:bg-zinc-700 text-zinc-500 hover:text-zinc-200 transition-colors"
+      >
+        <X className="h-3 w-3" />
+      </button>
+    </div>
+  )
+}
+
+export function NotificationCenter() {
+  const navigate = useNavigate()
+  const activeTargetId = useTargetStore((s) => s.activeTargetId)
+  const allNotifications = useNotificationStore((s) => s.notifications)
+  const { markAllRead, clearNotifications } = useNotificationStore()
+
+  if (!activeTargetId) return null
+
+  const notifications = allNotifications.filter((n) => n.targetId === activeTargetId)
+  const unread = notifications.filter((n) => !n.read).length
+  const unreadFailures = notifications.some((n) => !n.read && n.kind !== "active")
+
+  return (
+    <DropdownMenu
+      onOpenChange={(open) => {
+        // Keep unread highlighting visible while the menu is open
+        if (!open && unread > 0) markAllRead(activeTargetId)
+      }}
+    >
+      <DropdownMenuTrigger asChild>
+        <button className="relative flex items-center justify-center h-8 w-8 rounded-md hover:bg-muted transition-colors">
+          <Bell className="h-4 w-4 text-muted-foreground" />
+          {unread > 0 && (
+            <span
+              className={`absolute -top-0.5 -right-0.5 flex h-4 min-w-[16px] items-center justify-center rounded-full px-1 text-[10px] font-bold text-white ${unreadFailures ? "bg-[#f38ba8]" : "bg-[#a6e3a1]"}`}
+            >
+              {unread}
+            </span>
+          )}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80 bg-[#181825] border-[#313244]">
+        <DropdownMenuLabel className="flex items-center justify-between gap-4">
+          <span className="text-sm font-bold text-zinc-100">Notifications</span>
+          {notifications.length > 0 && (
+            <button
+              onClick={() => clearNotifications(activeTargetId)}
+              className="flex items-center gap-1 text-xs font-normal text-zinc-300 hover:text-zinc-100 bg-zinc-700/50 hover:bg-zinc-600/60 px-2 py-1 rounded transition-colors whitespace-nowrap"
+            >
+              <Trash2 className="h-3 w-3" />
+              Clear all
+            </button>
+          )}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-3 text-xs text-zinc-500 text-center">
+            No notifications yet
+          </p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((n) => (
+              <DropdownMenuItem
+                key={n.id}
+                className="cursor-pointer"
+                onClick={() => navigate(`/zpods/${n.zpodId}`)}
+              >
+                <NotificationRow notification={n} />
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
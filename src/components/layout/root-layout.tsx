@@ -4,10 +4,19 @@ import { Sidebar } from "./sidebar"
 import { Header } from "./header"
 import { MobileNav } from "./mobile-nav"
 import { useTargetStore } from "@/stores/target-store"
+import { useZpodEvents } from "@/hooks/use-zpod-events"
+import { useZpodNotifications } from "@/hooks/use-zpod-notifications"
+import { useCloneReplay } from "@/hooks/use-clone-replay"
+import { useVaultAutoLock } from "@/hooks/use-vault-auto-lock"
+import { ReauthDialog } from "@/components/reauth-dialog"
 
 export function RootLayout() {
   const { targets, activeTargetId } = useTargetStore()
   const activeTarget = targets.find((t) => t.id === activeTargetId)
+  useZpodEvents()
+  useZpodNotifications()
+  useCloneReplay()
+  useVaultAutoLock()
 
   useEffect(() => {
     document.title = activeTarget ? activeTarget.name : "zPodFactory"
@@ -23,6 +32,7 @@ export function RootLayout() {
         </main>
       </div>
       <MobileNav />
+      <ReauthDialog />
     </div>
   )
 }
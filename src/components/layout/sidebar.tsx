@@ -12,8 +12,10 @@ import {
   Info,
   ShieldCheck,
   FlaskConical,
+  Users,
 } from "lucide-react"
 import { Separator } from "@/components/ui/separator"
+import { usePermissions } from "@/hooks/use-permissions"
 
 const mainNav = [
   { label: "Dashboard", href: "/", icon: LayoutDashboard },
@@ -27,6 +29,7 @@ const adminNav = [
   { label: "Endpoints", href: "/endpoints", icon: Box },
   { label: "Factory", href: "/factory", icon: Factory },
   { label: "Settings", href: "/settings", icon: Settings },
+  { label: "Users", href: "/users", icon: Users, superadminOnly: true },
 ]
 
 interface SidebarProps {
@@ -70,6 +73,7 @@ function NavLink({
 
 export function Sidebar({ className, onNavigate }: SidebarProps) {
   const location = useLocation()
+  const { isSuperadmin } = usePermissions()
 
   return (
     <aside
@@ -110,7 +114,7 @@ export function Sidebar({ className, onNavigate }: SidebarProps) {
             Administration
           </span>
         </div>
-        {adminNav.map((item) => (
+        {adminNav.filter((item) => isSuperadmin || !item.superadminOnly).map((item) => (
           <NavLink key={item.href} {...item} pathname={location.pathname} onNavigate={onNavigate} />
         ))}
       </div>
@@ -0,0 +1,125 @@
+import { useState } from "react"
+import { useVaultStore } from "@/stores/vault-store"
+import { isVaultSupported, MIN_PASSPHRASE_LENGTH } from "@/lib/token-vault"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Loader2, Lock, ShieldCheck } from "lucide-react"
+import { toast } from "sonner"
+
+const AUTO_LOCK_OPTIONS = [
+  { label: "Never", value: 0 },
+  { label: "5m", value: 5 },
+  { label: "15m", value: 15 },
+  { label: "30m", value: 30 },
+  { label: "1h", value: 60 },
+]
+
+/** Preferences section: seal target tokens behind a passphrase */
+export function VaultSettings() {
+  const { vault, autoLockMinutes, enable, lock, disable, setAutoLockMinutes } = useVaultStore()
+  const [passphrase, setPassphrase] = useState("")
+  const [confirm, setConfirm] = useState("")
+  const [enabling, setEnabling] = useState(false)
+
+  if (!isVaultSupported()) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        Token encryption needs a secure origin (HTTPS or localhost).
+      </p>
+    )
+  }
+
+  async function handleEnable() {
+    setEnabling(true)
+    try {
+      await enable(passphrase)
+      setPassphrase("")
+      setConfirm("")
+      toast.success("Target tokens are now encrypted")
+    } catch {
+      toast.error("Failed to encrypt target tokens")
+    } finally {
+      setEnabling(false)
+    }
+  }
+
+  if (!vault) {
+    const tooShort = passphrase.length < MIN_PASSPHRASE_LENGTH
+    const mismatch = confirm.length > 0 && confirm !== passphrase
+    return (
+      <div className="space-y-2">
+        <p className="text-xs text-muted-foreground">
+          Target tokens are stored in plain text in this browser. Set a passphrase to encrypt them;
+          it is asked once per session on the login page.
+        </p>
+        <Input
+          type="password"
+          autoComplete="new-password"
+          placeholder={`Passphrase (${MIN_PASSPHRASE_LENGTH}+ characters)`}
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+        />
+        <Input
+          type="password"
+          autoComplete="new-password"
+          placeholder="Confirm passphrase"
+          value={confirm}
+          onChange={(e) => setConfirm(e.target.value)}
+        />
+        {mismatch && <p className="text-xs text-destructive">Passphrases do not match</p>}
+        <Button
+          size="sm"
+          className="w-full"
+          disabled={tooShort || confirm !== passphrase || enabling}
+          onClick={handleEnable}
+        >
+          {enabling ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <ShieldCheck className="mr-1 h-3 w-3" />}
+          Encrypt tokens
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm">
+        <ShieldCheck className="h-4 w-4 text-[#a6e3a1]" />
+        Tokens are encrypted
+      </div>
+      <div className="space-y-1.5">
+        <Label className="text-xs text-muted-foreground">Auto-lock after inactivity</Label>
+        <div className="flex flex-wrap gap-1.5">
+          {AUTO_LOCK_OPTIONS.map((opt) => (
+            <Button
+              key={opt.value}
+              size="sm"
+              variant={autoLockMinutes === opt.value ? "default" : "outline"}
+              className="text-xs"
+              onClick={() => setAutoLockMinutes(opt.value)}
+            >
+              {opt.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+      <div className="flex gap-2">
+        <Button size="sm" variant="outline" className="flex-1" onClick={lock}>
+          <Lock className="mr-1 h-3 w-3" />
+          Lock now
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          className="flex-1"
+          onClick={() => {
+            disable()
+            toast.success("Target tokens are stored unencrypted again")
+          }}
+        >
+          Remove encryption
+        </Button>
+      </div>
+    </div>
+  )
+}
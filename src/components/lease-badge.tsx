@@ -0,0 +1,37 @@
+import { useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { formatLeaseRemaining, leaseState, type LeaseState } from "@/lib/zpod-lease"
+import { Hourglass } from "lucide-react"
+
+const LEASE_CLASSES: Record<Exclude<LeaseState, "none">, string> = {
+  // Green #a6e3a1
+  ok: "bg-[#a6e3a1]/15 text-[#a6e3a1] border-[#a6e3a1]/30",
+  // Peach #fab387
+  expiring: "bg-[#fab387]/15 text-[#fab387] border-[#fab387]/30",
+  // Red #f38ba8
+  expired: "bg-[#f38ba8]/15 text-[#f38ba8] border-[#f38ba8]/30",
+}
+
+/** Lease countdown that refreshes every minute */
+export function LeaseBadge({ expiry }: { expiry: Date | null }) {
+  const [now, setNow] = useState(() => Date.now())
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), 60_000)
+    return () => clearInterval(id)
+  }, [])
+
+  const state = leaseState(expiry, now)
+  if (!expiry || state === "none") {
+    return <span className="text-muted-foreground">—</span>
+  }
+  return (
+    <Badge
+      variant="outline"
+      className={`gap-1 tabular-nums ${LEASE_CLASSES[state]}`}
+      title={expiry.toLocaleString()}
+    >
+      <Hourglass className="h-3 w-3" />
+      {formatLeaseRemaining(expiry, now)}
+    </Badge>
+  )
+}
@@ -0,0 +1,106 @@
+import { useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Loader2 } from "lucide-react"
+import { validateGitUrl, validateLibraryName } from "@/lib/library"
+import type { Library, LibraryCreate } from "@/types"
+
+/**
+ * Create or edit a component library. The name is the clone directory on
+ * the factory, so it cannot change once registered.
+ * Mount with a fresh `key` per opening.
+ */
+export function LibraryDialog({
+  open,
+  onOpenChange,
+  library,
+  libraries,
+  saving,
+  onSave,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  library: Library | null
+  libraries: Library[]
+  saving: boolean
+  onSave: (payload: LibraryCreate) => void
+}) {
+  const [name, setName] = useState(library?.name ?? "")
+  const [gitUrl, setGitUrl] = useState(library?.git_url ?? "")
+  const [description, setDescription] = useState(library?.description ?? "")
+  const [touched, setTouched] = useState<{ name?: boolean; gitUrl?: boolean }>({})
+
+  const nameError = library ? null : validateLibraryName(name, libraries, library)
+  const gitUrlError = validateGitUrl(gitUrl, libraries, library)
+  const isValid = !nameError && !gitUrlError && description.trim().length > 0
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{library ? "Edit Library" : "Add Library"}</DialogTitle>
+          <DialogDescription>
+            {library
+              ? `Update the repository or description of "${library.name}".`
+              : "Register a git repository of component definitions, for example a fork of the default library."}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3 py-2">
+          <div className="space-y-1.5">
+            <Label className="text-xs">Name</Label>
+            <Input
+              className="text-xs font-mono"
+              value={name}
+              disabled={library != null}
+              placeholder="e.g. my-library"
+              onChange={(e) => setName(e.target.value)}
+              onBlur={() => setTouched((t) => ({ ...t, name: true }))}
+            />
+            {touched.name && nameError && <p className="text-xs text-destructive">{nameError}</p>}
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">Git URL</Label>
+            <Input
+              className="text-xs font-mono"
+              value={gitUrl}
+              placeholder="https://github.com/owner/repo.git"
+              onChange={(e) => setGitUrl(e.target.value)}
+              onBlur={() => setTouched((t) => ({ ...t, gitUrl: true }))}
+            />
+            {touched.gitUrl && gitUrlError && <p className="text-xs text-destructive">{gitUrlError}</p>}
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">Description</Label>
+            <Input
+              className="text-xs"
+              value={description}
+              placeholder="What this library provides"
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onSave({ name: name.trim(), git_url: gitUrl.trim(), description: description.trim() })}
+            disabled={!isValid || saving}
+          >
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {library ? "Update" : "Create"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,129 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Badge } from "@/components/ui/badge"
+import { StatusBadge } from "@/components/status-badge"
+import { ArrowRight, Loader2 } from "lucide-react"
+import { formatDateTime } from "@/lib/utils"
+import type { ComponentSnapshot } from "@/lib/library-sync"
+import type { LibrarySync } from "@/stores/library-sync-store"
+
+const SECTION_CLASSES = {
+  added: "bg-[#a6e3a1]/15 text-[#a6e3a1] border-[#a6e3a1]/30",
+  removed: "bg-[#f38ba8]/15 text-[#f38ba8] border-[#f38ba8]/30",
+  changed: "bg-[#fab387]/15 text-[#fab387] border-[#fab387]/30",
+}
+
+function shortChecksum(checksum: string): string {
+  const value = checksum.includes(":") ? checksum.split(":").pop()! : checksum
+  return value ? value.slice(0, 12) : "—"
+}
+
+function ComponentLine({ component }: { component: ComponentSnapshot }) {
+  return (
+    <div className="flex items-center justify-between gap-2 px-3 py-1 text-xs">
+      <span className="font-mono truncate">{component.component_uid}</span>
+      <StatusBadge status={component.status} />
+    </div>
+  )
+}
+
+function Section({
+  title,
+  kind,
+  count,
+  children,
+}: {
+  title: string
+  kind: keyof typeof SECTION_CLASSES
+  count: number
+  children: React.ReactNode
+}) {
+  if (count === 0) return null
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-medium">{title}</span>
+        <Badge variant="outline" className={`text-xs ${SECTION_CLASSES[kind]}`}>{count}</Badge>
+      </div>
+      <div className="max-h-48 overflow-y-auto border">{children}</div>
+    </div>
+  )
+}
+
+/** What a library resync added, removed or changed */
+export function LibrarySyncReportDialog({
+  sync,
+  onOpenChange,
+}: {
+  sync: LibrarySync | null
+  onOpenChange: (open: boolean) => void
+}) {
+  const report = sync?.report
+
+  return (
+    <Dialog open={sync != null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Sync report: {sync?.libraryName}</DialogTitle>
+          <DialogDescription>
+            {sync && (
+              <>
+                Started {formatDateTime(sync.startedAt)}
+                {sync.finishedAt && `, finished ${formatDateTime(sync.finishedAt)}`}.
+                {sync.status === "timeout" && " The library never reported the sync as done, these are the changes seen so far."}
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        {sync?.status === "syncing" ? (
+          <div className="flex items-center gap-2 py-6 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Waiting for the factory to finish the sync...
+          </div>
+        ) : report && (
+          <div className="space-y-4 py-2">
+            {report.added.length + report.removed.length + report.changed.length === 0 && (
+              <p className="text-sm text-muted-foreground">No component was added, removed or changed.</p>
+            )}
+            <Section title="Added" kind="added" count={report.added.length}>
+              {report.added.map((c) => <ComponentLine key={c.component_uid} component={c} />)}
+            </Section>
+            <Section title="Removed" kind="removed" count={report.removed.length}>
+              {report.removed.map((c) => <ComponentLine key={c.component_uid} component={c} />)}
+            </Section>
+            <Section title="Changed" kind="changed" count={report.changed.length}>
+              {report.changed.map(({ before, after, fields }) => (
+                <div key={after.component_uid} className="space-y-0.5 px-3 py-1.5 text-xs">
+                  <span className="font-mono">{after.component_uid}</span>
+                  {fields.includes("version") && (
+                    <div className="flex items-center gap-1.5 text-muted-foreground">
+                      Version {before.component_version}
+                      <ArrowRight className="h-3 w-3" />
+                      <span className="text-foreground">{after.component_version}</span>
+                    </div>
+                  )}
+                  {fields.includes("checksum") && (
+                    <div className="flex items-center gap-1.5 font-mono text-muted-foreground">
+                      {shortChecksum(before.file_checksum)}
+                      <ArrowRight className="h-3 w-3" />
+                      <span className="text-foreground">{shortChecksum(after.file_checksum)}</span>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </Section>
+            <p className="text-xs text-muted-foreground">
+              {report.unchanged} component{report.unchanged !== 1 ? "s" : ""} unchanged
+            </p>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,17 @@
+import { ShieldOff } from "lucide-react"
+import { Card, CardContent } from "@/components/ui/card"
+
+/** Inline state for data the current user's role may not read */
+export function NotPermitted({ what }: { what: string }) {
+  return (
+    <Card>
+      <CardContent className="flex flex-col items-center gap-2 py-12 text-center">
+        <ShieldOff className="h-8 w-8 text-muted-foreground" />
+        <p className="text-sm font-medium">Not permitted</p>
+        <p className="text-sm text-muted-foreground">
+          Your account is not allowed to view {what} on this factory.
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,5 +1,7 @@
 import { useEffect, useMemo, useState } from "react"
 import { IconTooltip } from "@/components/icon-tooltip"
+import { ProfileFootprint } from "@/components/profile-footprint"
+import { useComponentDefaults } from "@/hooks/use-component-defaults"
 import {
   Dialog,
   DialogContent,
@@ -219,6 +221,15 @@ export function ProfileEditorDialog({
     setExpandedStep(null)
   }, [open, profile, zboxUids])
 
+  // Footprint reads the same values that would be saved
+  const footprintSteps = useMemo(
+    () => stepsToProfile(steps).map((entry) => (Array.isArray(entry) ? entry : [entry])),
+    [steps]
+  )
+  const componentDefaults = useComponentDefaults(
+    steps.flatMap((step) => step.items.map((item) => item.component_uid))
+  )
+
   const isEditing = profile != null
   const isValid = name.trim().length > 0 && steps.length > 0 && steps[0].items.length === 1 && extractComponentType(steps[0].items[0].component_uid) === "zbox"
 
@@ -633,6 +644,14 @@ export function ProfileEditorDialog({
               </SelectContent>
             </Select>
           </div>
+
+          {/* Resource footprint */}
+          <div className="space-y-1.5">
+            <Label>Footprint</Label>
+            <div className="rounded-lg border border-border/60 bg-card px-3 py-2">
+              <ProfileFootprint steps={footprintSteps} defaults={componentDefaults} />
+            </div>
+          </div>
         </div>
 
         <DialogFooter>
@@ -0,0 +1,99 @@
+import { Cpu, HardDrive, MemoryStick, Network } from "lucide-react"
+import { getComponentHex } from "@/lib/component-colors"
+import {
+  addFootprints,
+  EMPTY_FOOTPRINT,
+  sumFootprints,
+  type ComponentDefaults,
+  type Footprint,
+  type SizedItem,
+} from "@/lib/footprint"
+
+function FootprintTotals({ footprint }: { footprint: Footprint }) {
+  return (
+    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs tabular-nums">
+      <span className="flex items-center gap-1"><Cpu className="h-3 w-3 text-muted-foreground" />{footprint.vcpu} vCPU</span>
+      <span className="flex items-center gap-1"><MemoryStick className="h-3 w-3 text-muted-foreground" />{footprint.vmem} GB</span>
+      <span className="flex items-center gap-1"><HardDrive className="h-3 w-3 text-muted-foreground" />{footprint.disk} GB</span>
+      <span className="flex items-center gap-1"><Network className="h-3 w-3 text-muted-foreground" />{footprint.nics} NIC{footprint.nics !== 1 ? "s" : ""}</span>
+    </div>
+  )
+}
+
+function UnsizedNote({ count }: { count: number }) {
+  if (count === 0) return null
+  return (
+    <p className="text-[10px] text-muted-foreground">
+      {count} component{count !== 1 ? "s have" : " has"} no sizing in the profile or its library and {count !== 1 ? "are" : "is"} not counted.
+    </p>
+  )
+}
+
+/**
+ * Live resource footprint of a profile: totals per step and for the whole
+ * profile. `compact` renders the totals only (hover cards).
+ */
+export function ProfileFootprint({
+  steps,
+  defaults,
+  compact = false,
+}: {
+  steps: SizedItem[][]
+  defaults?: ComponentDefaults
+  compact?: boolean
+}) {
+  const perStep = steps.map((items) => sumFootprints(items, defaults))
+  const total = perStep.reduce(addFootprints, EMPTY_FOOTPRINT)
+
+  if (compact) {
+    return (
+      <div className="space-y-1">
+        <FootprintTotals footprint={total} />
+        <UnsizedNote count={total.unsized} />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-1.5">
+      <table className="w-full text-xs tabular-nums">
+        <thead>
+          <tr className="text-muted-foreground">
+            <th className="text-left py-0.5 pr-2 font-normal">Step</th>
+            <th className="text-right py-0.5 pr-2 font-normal">vCPU</th>
+            <th className="text-right py-0.5 pr-2 font-normal">vMem (GB)</th>
+            <th className="text-right py-0.5 pr-2 font-normal">Disk (GB)</th>
+            <th className="text-right py-0.5 font-normal">NICs</th>
+          </tr>
+        </thead>
+        <tbody>
+          {steps.map((items, idx) => (
+            <tr key={idx}>
+              <td className="py-0.5 pr-2">
+                <span className="text-muted-foreground mr-1.5">{idx + 1}</span>
+                {items.map((item, i) => (
+                  <span key={i} className="font-mono" style={{ color: getComponentHex(item.component_uid) }}>
+                    {i > 0 && <span className="text-muted-foreground">, </span>}
+                    {item.component_uid}
+                  </span>
+                ))}
+              </td>
+              <td className="text-right py-0.5 pr-2">{perStep[idx].vcpu}</td>
+              <td className="text-right py-0.5 pr-2">{perStep[idx].vmem}</td>
+              <td className="text-right py-0.5 pr-2">{perStep[idx].disk}</td>
+              <td className="text-right py-0.5">{perStep[idx].nics}</td>
+            </tr>
+          ))}
+          <tr className="border-t font-medium">
+            <td className="py-1 pr-2">Total</td>
+            <td className="text-right py-1 pr-2">{total.vcpu}</td>
+            <td className="text-right py-1 pr-2">{total.vmem}</td>
+            <td className="text-right py-1 pr-2">{total.disk}</td>
+            <td className="text-right py-1">{total.nics}</td>
+          </tr>
+        </tbody>
+      </table>
+      <UnsizedNote count={total.unsized} />
+    </div>
+  )
+}
@@ -0,0 +1,101 @@
+import { useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { KeyRound, Loader2 } from "lucide-react"
+import { toast } from "sonner"
+import { validateTarget } from "@/hooks/use-api"
+import { useAuthStore } from "@/stores/auth-store"
+import { useReauthStore } from "@/stores/reauth-store"
+import { useTargetStore } from "@/stores/target-store"
+
+/**
+ * Opened by the API client when the active target rejects its token.
+ * The current page stays mounted; requests that failed meanwhile are
+ * replayed once a working token is entered.
+ */
+export function ReauthDialog() {
+  const { open, queued, resume, cancel } = useReauthStore()
+  const { targets, activeTargetId, updateTarget, clearActiveTarget } = useTargetStore()
+  const { setUser, logout } = useAuthStore()
+  const target = targets.find((t) => t.id === activeTargetId)
+  const [token, setToken] = useState("")
+  const [checking, setChecking] = useState(false)
+
+  async function handleReconnect() {
+    if (!target || !token) return
+    setChecking(true)
+    try {
+      const user = await validateTarget(target.url, token)
+      updateTarget(target.id, { token, lastConnected: new Date().toISOString() })
+      setUser(user)
+      setToken("")
+      resume()
+    } catch {
+      toast.error("Token rejected", { description: `${target.name} did not accept this token.` })
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  function handleDisconnect() {
+    cancel()
+    setToken("")
+    logout()
+    clearActiveTarget()
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        // Dismissing keeps the session, the parked requests fail as they would have
+        if (!next) {
+          cancel()
+          setToken("")
+        }
+      }}
+    >
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Authentication required</DialogTitle>
+          <DialogDescription>
+            {target?.name ?? "The factory"} rejected the saved API token, it may have expired or been
+            revoked. Enter a new token to continue
+            {queued > 0 && ` — ${queued} pending request${queued !== 1 ? "s" : ""} will be retried`}.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2 py-2">
+          <Label htmlFor="reauth-token">API Token</Label>
+          <Input
+            id="reauth-token"
+            type="password"
+            autoFocus
+            autoComplete="off"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleReconnect()}
+          />
+          <p className="text-xs text-muted-foreground truncate">{target?.url}</p>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={handleDisconnect}>
+            Disconnect
+          </Button>
+          <Button onClick={handleReconnect} disabled={!token || checking}>
+            {checking ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <KeyRound className="mr-1 h-3 w-3" />}
+            Reconnect
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
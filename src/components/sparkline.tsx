@@ -0,0 +1,50 @@
+/** Minimal SVG line chart; null values break the line */
+export function Sparkline({
+  values,
+  color,
+  max,
+  width = 200,
+  height = 32,
+}: {
+  values: (number | null)[]
+  color: string
+  /** Top of the scale, defaults to the largest value */
+  max?: number
+  width?: number
+  height?: number
+}) {
+  const numbers = values.filter((v): v is number => v != null)
+  const top = max ?? Math.max(...numbers, 1)
+  const step = values.length > 1 ? width / (values.length - 1) : 0
+  const y = (v: number) => height - 1 - (Math.min(v, top) / top) * (height - 2)
+
+  // One path segment per run of consecutive values
+  const segments: string[] = []
+  let current: string[] = []
+  values.forEach((v, i) => {
+    if (v == null) {
+      if (current.length > 0) segments.push(current.join(" "))
+      current = []
+      return
+    }
+    current.push(`${current.length === 0 ? "M" : "L"}${(i * step).toFixed(1)},${y(v).toFixed(1)}`)
+  })
+  if (current.length > 0) segments.push(current.join(" "))
+
+  const failures = values.map((v, i) => (v == null ? i : -1)).filter((i) => i >= 0)
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className="overflow-visible">
+      <line x1={0} y1={height - 0.5} x2={width} y2={height - 0.5} stroke="#313244" />
+      {segments.map((d, i) => (
+        <path key={i} d={d} fill="none" stroke={color} strokeWidth={1.5} strokeLinejoin="round" />
+      ))}
+      {segments.length === 1 && numbers.length === 1 && (
+        <circle cx={values.findIndex((v) => v != null) * step} cy={y(numbers[0])} r={1.5} fill={color} />
+      )}
+      {failures.map((i) => (
+        <rect key={i} x={i * step - 1} y={height - 4} width={2} height={4} fill="#f38ba8" />
+      ))}
+    </svg>
+  )
+}
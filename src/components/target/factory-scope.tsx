@@ -0,0 +1,57 @@
+import { AlertTriangle, Layers, Server } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { useTargetStore } from "@/stores/target-store"
+import type { TargetFailure } from "@/hooks/use-all-targets"
+
+/** "This factory" / "All factories" switch, hidden with a single saved target */
+export function FactoryScopeToggle({ onChange }: { onChange?: (aggregate: boolean) => void }) {
+  const { targets, aggregate, setAggregate } = useTargetStore()
+  if (targets.length < 2) return null
+
+  const select = (value: boolean) => {
+    if (value === aggregate) return
+    setAggregate(value)
+    onChange?.(value)
+  }
+
+  return (
+    <div className="flex items-center rounded-md border p-0.5">
+      <Button
+        variant={aggregate ? "ghost" : "secondary"}
+        size="sm"
+        className="h-7 px-2.5"
+        onClick={() => select(false)}
+      >
+        <Server className="mr-1.5 h-3.5 w-3.5" />
+        This factory
+      </Button>
+      <Button
+        variant={aggregate ? "secondary" : "ghost"}
+        size="sm"
+        className="h-7 px-2.5"
+        onClick={() => select(true)}
+      >
+        <Layers className="mr-1.5 h-3.5 w-3.5" />
+        All factories ({targets.length})
+      </Button>
+    </div>
+  )
+}
+
+/** Lists the targets that could not be reached in all-factories mode */
+export function FactoryFailures({ failures }: { failures: TargetFailure[] }) {
+  if (failures.length === 0) return null
+  return (
+    <div className="flex items-start gap-2 rounded-md border border-[#fab387]/40 bg-[#fab387]/10 px-3 py-2 text-sm">
+      <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-[#fab387]" />
+      <div>
+        <span className="font-medium">
+          {failures.length} factor{failures.length !== 1 ? "ies" : "y"} unavailable:
+        </span>{" "}
+        <span className="text-muted-foreground">
+          {failures.map((f) => `${f.name} (${f.error})`).join(", ")}
+        </span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,130 @@
+import { useMemo, useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Download, Loader2 } from "lucide-react"
+import { toast } from "sonner"
+import { useTargetStore } from "@/stores/target-store"
+import { usePreferencesStore } from "@/stores/preferences-store"
+import { buildBundle } from "@/lib/settings-bundle"
+import { readAllColumnPrefs } from "@/lib/column-prefs"
+import { isVaultSupported, MIN_PASSPHRASE_LENGTH } from "@/lib/token-vault"
+import { downloadFile } from "@/lib/utils"
+
+interface SettingsExportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function SettingsExportDialog({ open, onOpenChange }: SettingsExportDialogProps) {
+  const targets = useTargetStore((s) => s.targets)
+  const { pollingInterval, notifications } = usePreferencesStore()
+  const [includeTokens, setIncludeTokens] = useState(false)
+  const [passphrase, setPassphrase] = useState("")
+  const [confirm, setConfirm] = useState("")
+  const [exporting, setExporting] = useState(false)
+
+  // Re-read on open, other tabs may have saved column prefs since
+  const columns = useMemo(() => (open ? readAllColumnPrefs() : {}), [open])
+  const columnUsers = Object.keys(columns).length
+  const canEncrypt = isVaultSupported()
+  const passphraseValid = passphrase.length >= MIN_PASSPHRASE_LENGTH && passphrase === confirm
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setIncludeTokens(false)
+      setPassphrase("")
+      setConfirm("")
+    }
+    onOpenChange(next)
+  }
+
+  async function handleExport() {
+    setExporting(true)
+    try {
+      const bundle = await buildBundle(
+        targets,
+        { pollingInterval, notifications },
+        columns,
+        includeTokens ? passphrase : null
+      )
+      const date = new Date().toISOString().slice(0, 10)
+      downloadFile(`zpodweb-settings-${date}.json`, JSON.stringify(bundle, null, 2) + "\n", "application/json")
+      handleOpenChange(false)
+    } catch {
+      toast.error("Failed to export settings")
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export settings</DialogTitle>
+          <DialogDescription>
+            Download saved targets and UI preferences to import them in another browser.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <ul className="space-y-1 text-sm">
+            <li>{targets.length} saved target{targets.length !== 1 ? "s" : ""}</li>
+            <li>Auto-refresh and notification preferences</li>
+            <li>zPods table columns of {columnUsers} user{columnUsers !== 1 ? "s" : ""}</li>
+          </ul>
+          <div className="flex items-center justify-between">
+            <div>
+              <Label>Include API tokens</Label>
+              <p className="text-xs text-muted-foreground">
+                {canEncrypt
+                  ? "Encrypted with a passphrase asked again on import"
+                  : "Needs a secure origin (HTTPS or localhost)"}
+              </p>
+            </div>
+            <Switch checked={includeTokens} onCheckedChange={setIncludeTokens} disabled={!canEncrypt} />
+          </div>
+          {includeTokens && (
+            <div className="space-y-2">
+              <Input
+                type="password"
+                autoComplete="new-password"
+                placeholder={`Export passphrase (${MIN_PASSPHRASE_LENGTH}+ characters)`}
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+              />
+              <Input
+                type="password"
+                autoComplete="new-password"
+                placeholder="Confirm passphrase"
+                value={confirm}
+                onChange={(e) => setConfirm(e.target.value)}
+              />
+              {confirm.length > 0 && confirm !== passphrase && (
+                <p className="text-xs text-destructive">Passphrases do not match</p>
+              )}
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={exporting || (includeTokens && !passphraseValid)}>
+            {exporting ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <Download className="mr-1 h-3 w-3" />}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
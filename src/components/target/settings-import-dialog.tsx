@@ -0,0 +1,258 @@
+import { useRef, useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { FileUp, Loader2, Upload } from "lucide-react"
+import { toast } from "sonner"
+import { useTargetStore } from "@/stores/target-store"
+import { usePreferencesStore } from "@/stores/preferences-store"
+import {
+  openBundleTokens,
+  parseBundle,
+  planImport,
+  type ImportAction,
+  type ImportRow,
+  type SettingsBundle,
+} from "@/lib/settings-bundle"
+import { saveColumnPrefs } from "@/lib/column-prefs"
+import { generateId } from "@/lib/utils"
+
+interface SettingsImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function SettingsImportDialog({ open, onOpenChange }: SettingsImportDialogProps) {
+  const { targets, addTarget, updateTarget } = useTargetStore()
+  const importPreferences = usePreferencesStore((s) => s.importPreferences)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const [bundle, setBundle] = useState<SettingsBundle | null>(null)
+  const [parseError, setParseError] = useState<string | null>(null)
+  const [rows, setRows] = useState<ImportRow[]>([])
+  const [passphrase, setPassphrase] = useState("")
+  const [withPreferences, setWithPreferences] = useState(true)
+  const [withColumns, setWithColumns] = useState(true)
+  const [importing, setImporting] = useState(false)
+
+  const reset = () => {
+    setBundle(null)
+    setParseError(null)
+    setRows([])
+    setPassphrase("")
+    setWithPreferences(true)
+    setWithColumns(true)
+  }
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset()
+    onOpenChange(next)
+  }
+
+  const handleFile = async (file: File) => {
+    reset()
+    try {
+      const parsed = parseBundle(await file.text())
+      setBundle(parsed)
+      setRows(planImport(parsed, targets))
+    } catch (err) {
+      setParseError(err instanceof Error ? err.message : "Failed to read file")
+    }
+  }
+
+  const setAction = (idx: number, action: ImportAction) => {
+    setRows((prev) => prev.map((r, i) => (i === idx ? { ...r, action } : r)))
+  }
+
+  async function handleImport() {
+    if (!bundle) return
+    setImporting(true)
+    try {
+      let tokens: Record<string, string> = {}
+      if (bundle.tokens && passphrase) {
+        try {
+          tokens = await openBundleTokens(bundle, passphrase)
+        } catch {
+          toast.error("Wrong export passphrase")
+          return
+        }
+      }
+
+      const ids = new Set(targets.map((t) => t.id))
+      let added = 0
+      let replaced = 0
+      for (const { target, existing, action } of rows) {
+        const token = tokens[target.id]
+        if (action === "add") {
+          addTarget({
+            id: ids.has(target.id) ? generateId() : target.id,
+            name: target.name,
+            url: target.url.replace(/\/+$/, ""),
+            token: token ?? "",
+            lastConnected: target.lastConnected,
+          })
+          added++
+        } else if (action === "replace" && existing) {
+          updateTarget(existing.id, { name: target.name, ...(token ? { token } : {}) })
+          replaced++
+        }
+      }
+
+      if (withPreferences) importPreferences(bundle.preferences)
+      if (withColumns) {
+        for (const [username, prefs] of Object.entries(bundle.columns)) saveColumnPrefs(username, prefs)
+      }
+
+      toast.success(`Imported ${added} new and updated ${replaced} existing target${added + replaced !== 1 ? "s" : ""}`)
+      handleOpenChange(false)
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const columnUsers = bundle ? Object.keys(bundle.columns).length : 0
+  const missingTokens = bundle != null && (!bundle.tokens || !passphrase) &&
+    rows.some((r) => r.action === "add")
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import settings</DialogTitle>
+          <DialogDescription>
+            Merge targets and preferences exported from another browser. Targets whose URL is
+            already saved are listed as duplicates.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) handleFile(file)
+              e.target.value = ""
+            }}
+          />
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+            <FileUp className="mr-1 h-3 w-3" />
+            Choose export file
+          </Button>
+          {parseError && <p className="text-sm text-destructive">{parseError}</p>}
+
+          {bundle && (
+            <>
+              <p className="text-xs text-muted-foreground">
+                Exported {new Date(bundle.exportedAt).toLocaleString()}
+              </p>
+
+              <div className="space-y-2">
+                {rows.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No targets in this export</p>
+                )}
+                {rows.map((row, idx) => (
+                  <div key={`${row.target.id}-${idx}`} className="flex items-center justify-between gap-3 border p-2">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium truncate">{row.target.name}</span>
+                        {row.existing ? (
+                          <Badge variant="outline" className="bg-[#fab387]/15 text-[#fab387] border-[#fab387]/30 text-xs">
+                            Duplicate of {row.existing.name}
+                          </Badge>
+                        ) : row.action === "skip" ? (
+                          <Badge variant="outline" className="text-xs">Repeated URL</Badge>
+                        ) : (
+                          <Badge variant="outline" className="bg-[#a6e3a1]/15 text-[#a6e3a1] border-[#a6e3a1]/30 text-xs">
+                            New
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground truncate">{row.target.url}</p>
+                    </div>
+                    <Select value={row.action} onValueChange={(v) => setAction(idx, v as ImportAction)}>
+                      <SelectTrigger className="h-8 w-32 shrink-0 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {row.existing ? (
+                          <SelectItem value="replace">Replace</SelectItem>
+                        ) : (
+                          <SelectItem value="add">Add</SelectItem>
+                        )}
+                        <SelectItem value="skip">Skip</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              {bundle.tokens ? (
+                <div className="space-y-2">
+                  <Label htmlFor="import-passphrase">Export passphrase</Label>
+                  <Input
+                    id="import-passphrase"
+                    type="password"
+                    autoComplete="off"
+                    placeholder="Leave empty to import without tokens"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                  />
+                </div>
+              ) : (
+                <p className="text-xs text-muted-foreground">This export does not contain API tokens.</p>
+              )}
+              {missingTokens && (
+                <p className="text-xs text-muted-foreground">
+                  Added targets without a token need one before connecting (edit the target).
+                </p>
+              )}
+
+              <div className="space-y-2 border-t pt-4">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm">Auto-refresh and notification preferences</span>
+                  <Switch checked={withPreferences} onCheckedChange={setWithPreferences} />
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm">
+                    zPods table columns ({columnUsers} user{columnUsers !== 1 ? "s" : ""})
+                  </span>
+                  <Switch checked={withColumns} onCheckedChange={setWithColumns} disabled={columnUsers === 0} />
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!bundle || importing}>
+            {importing ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <Upload className="mr-1 h-3 w-3" />}
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -27,26 +27,47 @@ import { Separator } from "@/components/ui/separator"
 import { toast } from "sonner"
 import { Loader2, Cpu, Network } from "lucide-react"
 import { ProfileTrunk } from "@/components/profile-trunk"
+import { ProfileFootprint } from "@/components/profile-footprint"
+import { useComponentDefaults } from "@/hooks/use-component-defaults"
 import { flattenProfileItems } from "@/lib/profile-utils"
 import { useAuthStore } from "@/stores/auth-store"
 import type {
   Profile,
   EndpointFull,
   Setting,
+  Zpod,
 } from "@/types"
 
+/** Values to pre-fill the form with, e.g. when cloning a zPod */
+export interface ZpodCreateInitialValues {
+  name: string // full name, the username prefix is stripped if present
+  profile: string
+  endpointId?: number
+  domain?: string
+}
+
 interface ZpodCreateDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
-  onCreateComplete: () => void
+  onCreateComplete: (zpod: Zpod) => void
+  initialValues?: ZpodCreateInitialValues
+  title?: string
+  description?: string
 }
 
 function ProfileHoverContent({ profile }: { profile: Profile }) {
   const items = flattenProfileItems(profile.profile)
+  const defaults = useComponentDefaults(items.map((item) => item.component_uid))
   return (
     <div className="space-y-2">
       <p className="text-sm font-medium">{profile.name}</p>
       <Separator />
+      <ProfileFootprint
+        steps={profile.profile.map((step) => (Array.isArray(step) ? step : [step]))}
+        defaults={defaults}
+        compact
+      />
+      <Separator />
       <div className="max-h-48 overflow-y-auto">
         <table className="w-full text-xs">
           <thead>
@@ -130,6 +151,9 @@ export function ZpodCreateDialog({
   open,
   onOpenChange,
   onCreateComplete,
+  initialValues,
+  title = "Create zPod",
+  description = "Deploy a new zpod with the selected profile and endpoint.",
 }: ZpodCreateDialogProps) {
   const { fetchProfiles, fetchEndpoints, fetchSettings, createZpod } = useApi()
   const isSuperadmin = useAuthStore((s) => s.user?.superadmin ?? false)
@@ -170,7 +194,8 @@ export function ZpodCreateDialog({
         const prefixSetting = s.find(
           (setting) => setting.name === "ff_restrict_zpod_with_username_prefix"
         )
-        setUsernamePrefix(prefixSetting?.value === "true" && !isSuperadmin ? username : "")
+        const prefix = prefixSetting?.value === "true" && !isSuperadmin ? username : ""
+        setUsernamePrefix(prefix)
         // Pre-select default profile if setting exists and profile matches
         const defaultProfileSetting = s.find(
           (setting) => setting.name === "ff_zpod_default_profile"
@@ -186,10 +211,27 @@ export function ZpodCreateDialog({
         if (active.length === 1) {
           setEndpointId(String(active[0].id))
         }
+        if (initialValues) {
+          setName(
+            prefix && initialValues.name.startsWith(`${prefix}-`)
+              ? initialValues.name.slice(prefix.length + 1)
+              : initialValues.name
+          )
+          if (p.some((profile) => profile.name === initialValues.profile)) {
+            setProfileName(initialValues.profile)
+          }
+          if (active.some((ep) => ep.id === initialValues.endpointId)) {
+            setEndpointId(String(initialValues.endpointId))
+          }
+          // Only an explicit, non-default domain is worth carrying over
+          if (isSuperadmin && initialValues.domain && initialValues.domain !== domainSetting?.value) {
+            setDomain(initialValues.domain)
+          }
+        }
       })
       .catch(() => toast.error("Failed to load form data"))
       .finally(() => setDataLoading(false))
-  }, [open, fetchProfiles, fetchEndpoints, fetchSettings])
+  }, [open, fetchProfiles, fetchEndpoints, fetchSettings, initialValues])
 
   const fullName = usernamePrefix ? `${usernamePrefix}-${name}` : name
   const effectiveDomain = domain || defaultDomain
@@ -207,7 +249,7 @@ export function ZpodCreateDialog({
       const zpodName = usernamePrefix
         ? `${usernamePrefix}-${name.trim().toLowerCase()}`
         : name.trim().toLowerCase()
-      await createZpod({
+      const created = await createZpod({
         name: zpodName,
         endpoint_id: Number(endpointId),
         profile: profileName,
@@ -215,7 +257,7 @@ export function ZpodCreateDialog({
       })
       toast.success(`zPod "${name}" creation started`)
       onOpenChange(false)
-      onCreateComplete()
+      onCreateComplete(created)
     } catch (err: unknown) {
       const msg =
         err instanceof Error ? err.message : "Failed to create zpod"
@@ -241,10 +283,8 @@ export function ZpodCreateDialog({
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-2xl">
         <DialogHeader>
-          <DialogTitle>Create zPod</DialogTitle>
-          <DialogDescription>
-            Deploy a new zpod with the selected profile and endpoint.
-          </DialogDescription>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
         </DialogHeader>
 
         {dataLoading ? (
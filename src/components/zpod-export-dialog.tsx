@@ -0,0 +1,153 @@
+import { useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { toast } from "sonner"
+import { Copy, Download } from "lucide-react"
+import { buildConnectionSheet, SHEET_FORMATS, type SheetFormat } from "@/lib/connection-sheet"
+import { CLIENT_CONFIG_FORMATS, type ClientConfigFormat } from "@/lib/client-configs"
+import { copyToClipboard, downloadFile } from "@/lib/utils"
+import type { Zpod, ZpodDnsEntry } from "@/types"
+
+type ExportFormat = SheetFormat | ClientConfigFormat
+
+function isSheetFormat(format: ExportFormat): format is SheetFormat {
+  return format in SHEET_FORMATS
+}
+
+function renderExport(format: ExportFormat, zpod: Zpod, dnsEntries: ZpodDnsEntry[], includePasswords: boolean) {
+  if (isSheetFormat(format)) {
+    const { extension, mime, render } = SHEET_FORMATS[format]
+    return {
+      content: render(buildConnectionSheet(zpod, dnsEntries, includePasswords)),
+      filename: `${zpod.name}-connection-sheet.${extension}`,
+      mime,
+    }
+  }
+  const { filename, mime, render } = CLIENT_CONFIG_FORMATS[format]
+  return { content: render(zpod, dnsEntries), filename: filename(zpod), mime }
+}
+
+function FormatButtons<F extends ExportFormat>({
+  label,
+  formats,
+  value,
+  onChange,
+}: {
+  label: string
+  formats: Record<F, { label: string }>
+  value: ExportFormat
+  onChange: (format: F) => void
+}) {
+  return (
+    <div className="space-y-1.5">
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      <div className="flex flex-wrap gap-1.5">
+        {(Object.keys(formats) as F[]).map((f) => (
+          <Button
+            key={f}
+            size="sm"
+            variant={value === f ? "default" : "outline"}
+            className="text-xs"
+            onClick={() => onChange(f)}
+          >
+            {formats[f].label}
+          </Button>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+interface ZpodExportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  zpod: Zpod
+  dnsEntries: ZpodDnsEntry[]
+}
+
+export function ZpodExportDialog({
+  open,
+  onOpenChange,
+  zpod,
+  dnsEntries,
+}: ZpodExportDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>("markdown")
+  const [includePasswords, setIncludePasswords] = useState(false)
+
+  const { content, filename, mime } = useMemo(
+    () => renderExport(format, zpod, dnsEntries, includePasswords),
+    [format, zpod, dnsEntries, includePasswords]
+  )
+
+  const handleDownload = () => downloadFile(filename, content, mime)
+
+  const handleCopy = async () => {
+    const ok = await copyToClipboard(content)
+    if (ok) toast.success("Copied to clipboard")
+    else toast.error("Failed to copy")
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Export zPod</DialogTitle>
+          <DialogDescription>
+            Connection sheet and client configuration files for "{zpod.name}".
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 py-2">
+          <div className="flex flex-wrap items-end justify-between gap-3">
+            <FormatButtons
+              label="Connection sheet"
+              formats={SHEET_FORMATS}
+              value={format}
+              onChange={setFormat}
+            />
+            <div className="flex items-center gap-2">
+              <Switch
+                id="sheet-passwords"
+                checked={includePasswords && isSheetFormat(format)}
+                disabled={!isSheetFormat(format)}
+                onCheckedChange={setIncludePasswords}
+              />
+              <Label htmlFor="sheet-passwords" className="text-sm">
+                Include passwords
+              </Label>
+            </div>
+          </div>
+          <FormatButtons
+            label="Client configuration"
+            formats={CLIENT_CONFIG_FORMATS}
+            value={format}
+            onChange={setFormat}
+          />
+          <pre className="max-h-[50vh] overflow-auto rounded-md border bg-muted/30 p-3 text-xs font-mono whitespace-pre">
+            {content}
+          </pre>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleCopy}>
+            <Copy className="mr-2 h-4 w-4" />
+            Copy
+          </Button>
+          <Button onClick={handleDownload}>
+            <Download className="mr-2 h-4 w-4" />
+            Download
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
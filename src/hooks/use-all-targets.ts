@@ -0,0 +1,162 @@
+import { useCallback, useEffect } from "react"
+import { useNavigate } from "react-router"
+import { toast } from "sonner"
+import { useTargetStore } from "@/stores/target-store"
+import { useAuthStore } from "@/stores/auth-store"
+import { validateTarget } from "@/hooks/use-api"
+import { usePolling } from "@/hooks/use-polling"
+import { useQuery } from "@/hooks/use-query"
+import { createTargetClient, isAuthError, isForbidden } from "@/lib/api"
+import { fetchQuery, invalidateQueries, queryKey } from "@/lib/query-cache"
+import type { Profile, TargetProfile, Zpod } from "@/types"
+
+/** A zPod tagged with the target it was fetched from (all-factories mode only) */
+export type TargetZpod = Zpod & { target?: { id: string; name: string } }
+
+export interface TargetFailure {
+  targetId: string
+  name: string
+  error: string
+}
+
+function failureMessage(err: unknown): string {
+  if (isAuthError(err)) return "token rejected"
+  if (isForbidden(err)) return "not permitted"
+  const status = (err as { response?: { status?: number } }).response?.status
+  if (status) return `HTTP ${status}`
+  return err instanceof Error ? err.message : "unreachable"
+}
+
+/** Whether the all-factories mode applies (it needs at least two targets) */
+export function useAggregateMode(): boolean {
+  return useTargetStore((s) => s.aggregate && s.targets.length > 1)
+}
+
+interface AllTargetsData {
+  zpods: TargetZpod[]
+  profiles: Profile[]
+  failures: TargetFailure[]
+}
+
+const ALL_TARGETS_KEY = queryKey("all-targets", "zpods")
+
+async function fetchAllTargets(targets: TargetProfile[]): Promise<AllTargetsData> {
+  const results = await Promise.allSettled(
+    targets.map(async (target) => {
+      const client = createTargetClient(target)
+      const [zpods, profiles] = await Promise.all([
+        fetchQuery(queryKey(target.id, "zpods"), async () => {
+          const { data } = await client.get<Zpod[]>("/zpods")
+          return data
+        }),
+        // Profiles only drive build progress bars, a failure there is not fatal
+        fetchQuery(queryKey(target.id, "profiles"), async () => {
+          const { data } = await client.get<Profile[]>("/profiles")
+          return data
+        }).catch(() => [] as Profile[]),
+      ])
+      return { zpods, profiles }
+    })
+  )
+
+  const data: AllTargetsData = { zpods: [], profiles: [], failures: [] }
+  const profileNames = new Set<string>()
+  results.forEach((result, i) => {
+    const target = targets[i]
+    if (result.status === "rejected") {
+      data.failures.push({ targetId: target.id, name: target.name, error: failureMessage(result.reason) })
+      return
+    }
+    for (const z of result.value.zpods) {
+      data.zpods.push({ ...z, target: { id: target.id, name: target.name } })
+    }
+    // Same-named profiles on several factories: the first one wins
+    for (const p of result.value.profiles) {
+      if (profileNames.has(p.name)) continue
+      profileNames.add(p.name)
+      data.profiles.push(p)
+    }
+  })
+  return data
+}
+
+const NO_DATA: AllTargetsData = { zpods: [], profiles: [], failures: [] }
+
+/**
+ * zPods and profiles of every saved target, fetched side by side.
+ * Per-target responses land in the same cache keys as the single-target
+ * queries. A failing target is reported in `failures` and never blocks
+ * the others.
+ */
+export function useAllTargetsZpods(enabled: boolean) {
+  const targets = useTargetStore((s) => s.targets)
+  const fetcher = useCallback(
+    () => fetchQuery(ALL_TARGETS_KEY, () => fetchAllTargets(targets)),
+    [targets]
+  )
+  const { data = NO_DATA, isLoading, refetch } = useQuery(ALL_TARGETS_KEY, fetcher)
+
+  const load = useCallback(() => {
+    refetch().catch(() => {})
+  }, [refetch])
+
+  useEffect(() => {
+    if (enabled) load()
+  }, [enabled, load])
+
+  // The event stream only covers the active target, always poll here
+  usePolling(load, enabled ? undefined : 0)
+
+  return { ...data, isLoading: enabled && isLoading, refetch: load }
+}
+
+/** Destroy a zPod on a given target, active or not */
+export async function deleteZpodOnTarget(target: TargetProfile, zpodId: number): Promise<void> {
+  await createTargetClient(target).delete(`/zpods/${zpodId}`)
+  invalidateQueries(queryKey(target.id, "zpods"))
+  invalidateQueries(ALL_TARGETS_KEY)
+}
+
+/**
+ * Make another saved target the active one, the same way the login page
+ * connects. Resolves to false when its token is rejected.
+ */
+export function useSwitchTarget() {
+  const { targets, activeTargetId, setActiveTarget, updateTarget } = useTargetStore()
+  const setUser = useAuthStore((s) => s.setUser)
+
+  return useCallback(
+    async (targetId: string): Promise<boolean> => {
+      if (targetId === activeTargetId) return true
+      const target = targets.find((t) => t.id === targetId)
+      if (!target) return false
+      try {
+        const user = await validateTarget(target.url, target.token)
+        updateTarget(target.id, { lastConnected: new Date().toISOString() })
+        setActiveTarget(target.id)
+        setUser(user)
+        return true
+      } catch {
+        return false
+      }
+    },
+    [targets, activeTargetId, setActiveTarget, updateTarget, setUser]
+  )
+}
+
+/** Open a zPod's detail page, switching to its target first when needed */
+export function useOpenZpod() {
+  const switchTarget = useSwitchTarget()
+  const navigate = useNavigate()
+
+  return useCallback(
+    async (zpod: TargetZpod) => {
+      if (zpod.target && !(await switchTarget(zpod.target.id))) {
+        toast.error(`Could not connect to ${zpod.target.name}`)
+        return
+      }
+      navigate(`/zpods/${zpod.id}`)
+    },
+    [switchTarget, navigate]
+  )
+}
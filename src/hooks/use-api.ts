@@ -1,15 +1,24 @@
 import { useCallback } from "react"
 import axios, { type AxiosInstance } from "axios"
 import { useTargetStore } from "@/stores/target-store"
-import { useAuthStore } from "@/stores/auth-store"
+import { api } from "@/lib/api"
+import { fetchQuery, invalidateQueries, queryKey } from "@/lib/query-cache"
+import { useQuery } from "@/hooks/use-query"
 import type {
   User,
+  UserCreate,
+  UserUpdate,
+  UserWithToken,
   Zpod,
   ZpodCreate,
+  ZpodUpdate,
   ZpodDnsEntry,
   ZpodDnsCreate,
+  ZpodPermission,
   ComponentFull,
   Library,
+  LibraryCreate,
+  LibraryUpdate,
   Profile,
   ProfileCreate,
   ProfileUpdate,
@@ -19,39 +28,26 @@ import type {
   SettingUpdate,
   EndpointFull,
   EndpointCreate,
-  EndpointPasswordUpdate,
+  EndpointUpdate,
 } from "@/types"
 
 function useApiClient() {
-  const { targets, activeTargetId } = useTargetStore()
+  const activeTargetId = useTargetStore((s) => s.activeTargetId)
+  const hasTarget = useTargetStore((s) => s.targets.some((t) => t.id === s.activeTargetId))
 
+  // All hooks share the single client from lib/api, which resolves the
+  // active target's URL and token on every request.
   const getClient = useCallback((): AxiosInstance => {
-    const target = targets.find((t) => t.id === activeTargetId)
-    if (!target) throw new Error("No active target")
-
-    const instance = axios.create({
-      baseURL: "/api",
-      headers: {
-        access_token: target.token,
-        "X-Target-Url": target.url,
-      },
-    })
-
-    instance.interceptors.response.use(
-      (response) => response,
-      (error) => {
-        if (error.response?.status === 403) {
-          useAuthStore.getState().logout()
-          useTargetStore.getState().clearActiveTarget()
-        }
-        return Promise.reject(error)
-      }
-    )
+    if (!hasTarget) throw new Error("No active target")
+    return api
+  }, [hasTarget])
 
-    return instance
-  }, [targets, activeTargetId])
+  const key = useCallback(
+    (...parts: (string | number)[]) => queryKey(activeTargetId, ...parts),
+    [activeTargetId]
+  )
 
-  return getClient
+  return { getClient, key }
 }
 
 export interface UploadProgress {
@@ -63,7 +59,7 @@ export interface UploadProgress {
 }
 
 export function useApi() {
-  const getClient = useApiClient()
+  const { getClient, key } = useApiClient()
 
   const fetchCurrentUser = useCallback(async (): Promise<User> => {
     const client = getClient()
@@ -71,118 +67,205 @@ export function useApi() {
     return data
   }, [getClient])
 
+  const fetchUsers = useCallback(async (): Promise<User[]> => {
+    const client = getClient()
+    return fetchQuery(key("users"), async () => {
+      const { data } = await client.get<User[]>("/users")
+      return data
+    })
+  }, [getClient, key])
+
+  const createUser = useCallback(
+    async (payload: UserCreate): Promise<UserWithToken> => {
+      const client = getClient()
+      const { data } = await client.post<UserWithToken>("/users", payload)
+      invalidateQueries(key("users"))
+      return data
+    },
+    [getClient, key]
+  )
+
+  const updateUser = useCallback(
+    async (id: number, payload: UserUpdate): Promise<User> => {
+      const client = getClient()
+      const { data } = await client.patch<User>(`/users/${id}`, payload)
+      invalidateQueries(key("users"))
+      return data
+    },
+    [getClient, key]
+  )
+
+  const enableUser = useCallback(
+    async (id: number): Promise<void> => {
+      const client = getClient()
+      await client.put(`/users/${id}/enable`)
+      invalidateQueries(key("users"))
+    },
+    [getClient, key]
+  )
+
+  const disableUser = useCallback(
+    async (id: number): Promise<void> => {
+      const client = getClient()
+      await client.put(`/users/${id}/disable`)
+      invalidateQueries(key("users"))
+    },
+    [getClient, key]
+  )
+
+  const regenerateUserToken = useCallback(
+    async (id: number): Promise<UserWithToken> => {
+      const client = getClient()
+      const { data } = await client.put<UserWithToken>(`/users/${id}/api_token`)
+      return data
+    },
+    [getClient]
+  )
+
   const fetchZpods = useCallback(async (): Promise<Zpod[]> => {
     const client = getClient()
-    const { data } = await client.get<Zpod[]>("/zpods")
-    return data
-  }, [getClient])
+    return fetchQuery(key("zpods"), async () => {
+      const { data } = await client.get<Zpod[]>("/zpods")
+      return data
+    })
+  }, [getClient, key])
 
   const fetchComponents = useCallback(async (): Promise<ComponentFull[]> => {
     const client = getClient()
-    const { data } = await client.get<ComponentFull[]>("/components")
-    return data
-  }, [getClient])
+    return fetchQuery(key("components"), async () => {
+      const { data } = await client.get<ComponentFull[]>("/components")
+      return data
+    })
+  }, [getClient, key])
 
   const fetchLibraries = useCallback(async (): Promise<Library[]> => {
     const client = getClient()
-    const { data } = await client.get<Library[]>("/libraries")
-    return data
-  }, [getClient])
+    return fetchQuery(key("libraries"), async () => {
+      const { data } = await client.get<Library[]>("/libraries")
+      return data
+    })
+  }, [getClient, key])
 
   const fetchProfiles = useCallback(async (): Promise<Profile[]> => {
     const client = getClient()
-    const { data } = await client.get<Profile[]>("/profiles")
-    return data
-  }, [getClient])
+    return fetchQuery(key("profiles"), async () => {
+      const { data } = await client.get<Profile[]>("/profiles")
+      return data
+    })
+  }, [getClient, key])
 
   const fetchSettings = useCallback(async (): Promise<Setting[]> => {
     const client = getClient()
-    const { data } = await client.get<Setting[]>("/settings")
-    return data
-  }, [getClient])
+    return fetchQuery(key("settings"), async () => {
+      const { data } = await client.get<Setting[]>("/settings")
+      return data
+    })
+  }, [getClient, key])
 
   const createSetting = useCallback(
     async (payload: SettingCreate): Promise<Setting> => {
       const client = getClient()
       const { data } = await client.post<Setting>("/settings", payload)
+      invalidateQueries(key("settings"))
       return data
     },
-    [getClient]
+    [getClient, key]
   )
 
   const updateSetting = useCallback(
     async (id: number, payload: SettingUpdate): Promise<Setting> => {
       const client = getClient()
       const { data } = await client.patch<Setting>(`/settings/${id}`, payload)
+      invalidateQueries(key("settings"))
       return data
     },
-    [getClient]
+    [getClient, key]
   )
 
   const deleteSetting = useCallback(
     async (id: number): Promise<void> => {
       const client = getClient()
       await client.delete(`/settings/${id}`)
+      invalidateQueries(key("settings"))
     },
-    [getClient]
+    [getClient, key]
   )
 
   const fetchEndpoints = useCallback(async (): Promise<EndpointFull[]> => {
     const client = getClient()
-    const { data } = await client.get<EndpointFull[]>("/endpoints")
-    return data
-  }, [getClient])
+    return fetchQuery(key("endpoints"), async () => {
+      const { data } = await client.get<EndpointFull[]>("/endpoints")
+      return data
+    })
+  }, [getClient, key])
 
   const createEndpoint = useCallback(
     async (payload: EndpointCreate): Promise<EndpointFull> => {
       const client = getClient()
       const { data } = await client.post<EndpointFull>("/endpoints", payload)
+      invalidateQueries(key("endpoints"))
       return data
     },
-    [getClient]
+    [getClient, key]
   )
 
-  const updateEndpointPasswords = useCallback(
-    async (id: number, payload: EndpointPasswordUpdate): Promise<EndpointFull> => {
+  const updateEndpoint = useCallback(
+    async (id: number, payload: EndpointUpdate): Promise<EndpointFull> => {
       const client = getClient()
       const { data } = await client.patch<EndpointFull>(`/endpoints/${id}`, payload)
+      invalidateQueries(key("endpoints"))
       return data
     },
-    [getClient]
+    [getClient, key]
   )
 
   const deleteEndpoint = useCallback(
     async (id: number): Promise<void> => {
       const client = getClient()
       await client.delete(`/endpoints/${id}`)
+      invalidateQueries(key("endpoints"))
     },
-    [getClient]
+    [getClient, key]
   )
 
   const fetchZpod = useCallback(
     async (id: number): Promise<Zpod> => {
       const client = getClient()
-      const { data } = await client.get<Zpod>(`/zpods/${id}`)
-      return data
+      return fetchQuery(key("zpods", id), async () => {
+        const { data } = await client.get<Zpod>(`/zpods/${id}`)
+        return data
+      })
     },
-    [getClient]
+    [getClient, key]
   )
 
   const deleteZpod = useCallback(
     async (id: number): Promise<void> => {
       const client = getClient()
       await client.delete(`/zpods/${id}`)
+      invalidateQueries(key("zpods"))
     },
-    [getClient]
+    [getClient, key]
   )
 
   const createZpod = useCallback(
     async (payload: ZpodCreate): Promise<Zpod> => {
       const client = getClient()
       const { data } = await client.post<Zpod>("/zpods", payload)
+      invalidateQueries(key("zpods"))
       return data
     },
-    [getClient]
+    [getClient, key]
+  )
+
+  const updateZpod = useCallback(
+    async (id: number, payload: ZpodUpdate): Promise<Zpod> => {
+      const client = getClient()
+      const { data } = await client.patch<Zpod>(`/zpods/${id}`, payload)
+      invalidateQueries(key("zpods"))
+      return data
+    },
+    [getClient, key]
   )
 
   const getUploadedFileSize = useCallback(
@@ -254,26 +337,29 @@ export function useApi() {
     async (payload: ProfileCreate): Promise<Profile> => {
       const client = getClient()
       const { data } = await client.post<Profile>("/profiles", payload)
+      invalidateQueries(key("profiles"))
       return data
     },
-    [getClient]
+    [getClient, key]
   )
 
   const updateProfile = useCallback(
     async (id: number, payload: ProfileUpdate): Promise<Profile> => {
       const client = getClient()
       const { data } = await client.patch<Profile>(`/profiles/${id}`, payload)
+      invalidateQueries(key("profiles"))
       return data
     },
-    [getClient]
+    [getClient, key]
   )
 
   const deleteProfile = useCallback(
     async (id: number): Promise<void> => {
       const client = getClient()
       await client.delete(`/profiles/${id}`)
+      invalidateQueries(key("profiles"))
     },
-    [getClient]
+    [getClient, key]
   )
 
   const fetchZpodDns = useCallback(
@@ -301,61 +387,150 @@ export function useApi() {
     [getClient]
   )
 
+  const addZpodPermissionUsers = useCallback(
+    async (zpodId: number, permission: ZpodPermission, userIds: number[]): Promise<void> => {
+      const client = getClient()
+      await client.patch(`/zpods/${zpodId}/permissions/${permission}/users/add`, { user_ids: userIds })
+      invalidateQueries(key("zpods"))
+    },
+    [getClient, key]
+  )
+
+  const removeZpodPermissionUsers = useCallback(
+    async (zpodId: number, permission: ZpodPermission, userIds: number[]): Promise<void> => {
+      const client = getClient()
+      await client.patch(`/zpods/${zpodId}/permissions/${permission}/users/remove`, { user_ids: userIds })
+      invalidateQueries(key("zpods"))
+    },
+    [getClient, key]
+  )
+
   const deleteZpodComponent = useCallback(
     async (zpodId: number, componentId: string): Promise<void> => {
       const client = getClient()
       await client.delete(`/zpods/${zpodId}/components/${componentId}`)
+      invalidateQueries(key("zpods"))
     },
-    [getClient]
+    [getClient, key]
   )
 
   const addZpodComponent = useCallback(
     async (zpodId: number, payload: ProfileItemCreate): Promise<void> => {
       const client = getClient()
       await client.post(`/zpods/${zpodId}/components`, payload)
+      invalidateQueries(key("zpods"))
     },
-    [getClient]
+    [getClient, key]
   )
 
   const enableComponent = useCallback(
     async (id: number): Promise<void> => {
       const client = getClient()
       await client.put(`/components/${id}/enable`)
+      invalidateQueries(key("components"))
     },
-    [getClient]
+    [getClient, key]
   )
 
   const disableComponent = useCallback(
     async (id: number): Promise<void> => {
       const client = getClient()
       await client.put(`/components/${id}/disable`)
+      invalidateQueries(key("components"))
     },
-    [getClient]
+    [getClient, key]
+  )
+
+  const createLibrary = useCallback(
+    async (payload: LibraryCreate): Promise<Library> => {
+      const client = getClient()
+      const { data } = await client.post<Library>("/libraries", payload)
+      invalidateQueries(key("libraries"))
+      invalidateQueries(key("components"))
+      return data
+    },
+    [getClient, key]
+  )
+
+  const updateLibrary = useCallback(
+    async (id: number, payload: LibraryUpdate): Promise<Library> => {
+      const client = getClient()
+      const { data } = await client.patch<Library>(`/libraries/${id}`, payload)
+      invalidateQueries(key("libraries"))
+      return data
+    },
+    [getClient, key]
+  )
+
+  const deleteLibrary = useCallback(
+    async (id: number): Promise<void> => {
+      const client = getClient()
+      await client.delete(`/libraries/${id}`)
+      invalidateQueries(key("libraries"))
+      invalidateQueries(key("components"))
+    },
+    [getClient, key]
+  )
+
+  const enableLibrary = useCallback(
+    async (id: number): Promise<void> => {
+      const client = getClient()
+      await client.put(`/libraries/${id}/enable`)
+      invalidateQueries(key("libraries"))
+      invalidateQueries(key("components"))
+    },
+    [getClient, key]
+  )
+
+  const disableLibrary = useCallback(
+    async (id: number): Promise<void> => {
+      const client = getClient()
+      await client.put(`/libraries/${id}/disable`)
+      invalidateQueries(key("libraries"))
+      invalidateQueries(key("components"))
+    },
+    [getClient, key]
   )
 
   const resyncLibrary = useCallback(
     async (id: string): Promise<void> => {
       const client = getClient()
       await client.put(`/libraries/${id}/sync`)
+      invalidateQueries(key("libraries"))
+      invalidateQueries(key("components"))
     },
-    [getClient]
+    [getClient, key]
   )
 
   return {
     fetchCurrentUser,
+    fetchUsers,
+    createUser,
+    updateUser,
+    enableUser,
+    disableUser,
+    regenerateUserToken,
     fetchZpods,
     fetchZpod,
     deleteZpod,
     createZpod,
+    updateZpod,
     fetchComponents,
     addZpodComponent,
     deleteZpodComponent,
     fetchZpodDns,
     createZpodDns,
     deleteZpodDns,
+    addZpodPermissionUsers,
+    removeZpodPermissionUsers,
     enableComponent,
     disableComponent,
     fetchLibraries,
+    createLibrary,
+    updateLibrary,
+    deleteLibrary,
+    enableLibrary,
+    disableLibrary,
     resyncLibrary,
     fetchProfiles,
     createProfile,
@@ -367,13 +542,56 @@ export function useApi() {
     deleteSetting,
     fetchEndpoints,
     createEndpoint,
-    updateEndpointPasswords,
+    updateEndpoint,
     deleteEndpoint,
     getUploadedFileSize,
     uploadComponentChunk,
   }
 }
 
+// --- Shared query hooks ---
+// Every page subscribing to one of these reads the same cached copy,
+// so mounting the header stats and a page does not double the requests.
+
+function useActiveKey(...parts: string[]) {
+  return useTargetStore((s) => queryKey(s.activeTargetId, ...parts))
+}
+
+export function useZpodsQuery() {
+  const { fetchZpods } = useApi()
+  return useQuery(useActiveKey("zpods"), fetchZpods)
+}
+
+export function useProfilesQuery() {
+  const { fetchProfiles } = useApi()
+  return useQuery(useActiveKey("profiles"), fetchProfiles)
+}
+
+export function useComponentsQuery() {
+  const { fetchComponents } = useApi()
+  return useQuery(useActiveKey("components"), fetchComponents)
+}
+
+export function useLibrariesQuery() {
+  const { fetchLibraries } = useApi()
+  return useQuery(useActiveKey("libraries"), fetchLibraries)
+}
+
+export function useEndpointsQuery() {
+  const { fetchEndpoints } = useApi()
+  return useQuery(useActiveKey("endpoints"), fetchEndpoints)
+}
+
+export function useUsersQuery() {
+  const { fetchUsers } = useApi()
+  return useQuery(useActiveKey("users"), fetchUsers)
+}
+
+export function useSettingsQuery() {
+  const { fetchSettings } = useApi()
+  return useQuery(useActiveKey("settings"), fetchSettings)
+}
+
 export async function validateTarget(
   url: string,
   token: string
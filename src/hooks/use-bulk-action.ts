@@ -0,0 +1,85 @@
+import { useCallback, useState } from "react"
+import { isForbidden } from "@/lib/api"
+
+export type BulkItemStatus = "pending" | "running" | "success" | "failed"
+
+export interface BulkItem {
+  id: number
+  name: string
+  status: BulkItemStatus
+  error?: string
+}
+
+export interface BulkRun {
+  label: string // e.g. "Destroy"
+  items: BulkItem[]
+  finished: boolean
+}
+
+/** Parallel requests per bulk run, keeps the API responsive */
+const CONCURRENCY = 4
+
+function errorMessage(err: unknown): string {
+  if (isForbidden(err)) return "Not permitted"
+  const axiosErr = err as { response?: { data?: { detail?: unknown } } }
+  const detail = axiosErr.response?.data?.detail
+  if (typeof detail === "string") return detail
+  return err instanceof Error ? err.message : "Unknown error"
+}
+
+/** Runs `fn` over `items`, at most CONCURRENCY at a time; `fn` handles its own errors */
+export async function runPooled<T>(items: T[], fn: (item: T) => Promise<void>): Promise<void> {
+  const queue = [...items]
+  const worker = async () => {
+    for (let item = queue.shift(); item !== undefined; item = queue.shift()) await fn(item)
+  }
+  await Promise.all(Array.from({ length: Math.min(CONCURRENCY, items.length) }, worker))
+}
+
+/**
+ * Runs one action over many items with bounded concurrency and keeps
+ * per-item status for a progress panel. Resolves with the ids that succeeded.
+ */
+export function useBulkAction() {
+  const [run, setRun] = useState<BulkRun | null>(null)
+
+  const start = useCallback(
+    async (
+      label: string,
+      targets: { id: number; name: string }[],
+      action: (id: number) => Promise<unknown>
+    ): Promise<number[]> => {
+      setRun({
+        label,
+        items: targets.map((t) => ({ id: t.id, name: t.name, status: "pending" })),
+        finished: false,
+      })
+
+      const update = (id: number, patch: Partial<BulkItem>) =>
+        setRun((prev) => prev && {
+          ...prev,
+          items: prev.items.map((item) => (item.id === id ? { ...item, ...patch } : item)),
+        })
+
+      const succeeded: number[] = []
+      await runPooled(targets, async (t) => {
+        update(t.id, { status: "running" })
+        try {
+          await action(t.id)
+          succeeded.push(t.id)
+          update(t.id, { status: "success" })
+        } catch (err) {
+          update(t.id, { status: "failed", error: errorMessage(err) })
+        }
+      })
+
+      setRun((prev) => prev && { ...prev, finished: true })
+      return succeeded
+    },
+    []
+  )
+
+  const dismiss = useCallback(() => setRun(null), [])
+
+  return { run, start, dismiss }
+}
@@ -0,0 +1,137 @@
+import { useEffect, useRef } from "react"
+import { toast } from "sonner"
+import { useApi, useZpodsQuery } from "@/hooks/use-api"
+import { useTargetStore } from "@/stores/target-store"
+import { useCloneStore, type ZpodClonePlan } from "@/stores/clone-store"
+import { remapIp } from "@/lib/zpod-clone"
+import { generateId } from "@/lib/utils"
+import type { Zpod } from "@/types"
+
+/** A clone missing from the zPod list for this long is considered gone */
+const MISSING_GRACE_MS = 60_000
+
+/** A localStorage claim older than this is left by a tab that went away mid-replay */
+const CLAIM_TTL_MS = 5 * 60_000
+/** Time for a racing tab's claim to land before reading back whose won */
+const CLAIM_SETTLE_MS = 200
+
+const TAB_ID = generateId()
+
+/**
+ * Runs `fn` in one tab only. Web Locks are only exposed on secure origins
+ * (https or localhost); over plain http a claim in localStorage stands in.
+ */
+async function runExclusive(name: string, fn: () => Promise<void>) {
+  if (typeof navigator !== "undefined" && navigator.locks) {
+    await navigator.locks.request(name, { ifAvailable: true }, async (lock) => {
+      if (lock) await fn()
+    })
+    return
+  }
+
+  const key = `${name}-claim`
+  const held = (): { tab: string; at: number } | null => {
+    try {
+      return JSON.parse(localStorage.getItem(key) ?? "null")
+    } catch {
+      return null
+    }
+  }
+  const current = held()
+  if (current && current.tab !== TAB_ID && Date.now() - current.at < CLAIM_TTL_MS) return
+  localStorage.setItem(key, JSON.stringify({ tab: TAB_ID, at: Date.now() }))
+  await new Promise((resolve) => setTimeout(resolve, CLAIM_SETTLE_MS))
+  if (held()?.tab !== TAB_ID) return
+  try {
+    await fn()
+  } finally {
+    localStorage.removeItem(key)
+  }
+}
+
+/**
+ * Replays the extra components and custom DNS entries of pending clones
+ * once their base build is ACTIVE. Plans are persisted, so a build that
+ * finishes while the tab was closed is picked up on the next visit.
+ * Mounted once in the root layout.
+ */
+export function useCloneReplay() {
+  const { data: zpods } = useZpodsQuery()
+  const { addZpodComponent, fetchZpodDns, createZpodDns } = useApi()
+  const activeTargetId = useTargetStore((s) => s.activeTargetId)
+  const plans = useCloneStore((s) => s.plans)
+  const removePlan = useCloneStore((s) => s.removePlan)
+  const running = useRef(new Set<number>())
+
+  useEffect(() => {
+    if (!zpods || !activeTargetId) return
+
+    const replay = async (plan: ZpodClonePlan, zpod: Zpod) => {
+      const failed: string[] = []
+
+      for (const item of plan.components) {
+        try {
+          await addZpodComponent(zpod.id, item)
+        } catch {
+          failed.push(item.hostname ?? item.component_uid)
+        }
+      }
+
+      let existing = new Set<string>()
+      try {
+        existing = new Set((await fetchZpodDns(zpod.id)).map((e) => e.hostname))
+      } catch { /* create everything */ }
+      const toCidrs = zpod.networks.map((n) => n.cidr)
+      for (const entry of plan.dns) {
+        if (existing.has(entry.hostname)) continue
+        try {
+          await createZpodDns(zpod.id, {
+            hostname: entry.hostname,
+            ip: remapIp(entry.ip, plan.sourceNetworks, toCidrs),
+          })
+        } catch {
+          failed.push(entry.hostname)
+        }
+      }
+
+      removePlan(plan.targetId, plan.zpodId)
+      if (failed.length > 0) {
+        toast.error(`Clone "${plan.zpodName}" is incomplete`, {
+          description: `Could not add: ${failed.join(", ")}`,
+        })
+      } else {
+        toast.success(`Clone "${plan.zpodName}" is ready`, {
+          description: `Added ${plan.components.length} component(s) and ${plan.dns.length} DNS entr${plan.dns.length === 1 ? "y" : "ies"} from "${plan.sourceName}"`,
+        })
+      }
+    }
+
+    for (const plan of plans) {
+      if (plan.targetId !== activeTargetId || running.current.has(plan.zpodId)) continue
+      const zpod = zpods.find((z) => z.id === plan.zpodId)
+
+      if (!zpod) {
+        if (Date.now() - new Date(plan.createdAt).getTime() > MISSING_GRACE_MS) {
+          removePlan(plan.targetId, plan.zpodId)
+        }
+        continue
+      }
+      if (zpod.status.endsWith("_FAILED") || zpod.status === "DELETING") {
+        removePlan(plan.targetId, plan.zpodId)
+        toast.error(`Clone "${plan.zpodName}" did not build, nothing was replayed`)
+        continue
+      }
+      if (zpod.status !== "ACTIVE") continue
+
+      running.current.add(plan.zpodId)
+      // Other tabs share the persisted plans: only one of them may replay
+      runExclusive(`zpodweb-clone-${plan.targetId}-${plan.zpodId}`, async () => {
+        await useCloneStore.persist.rehydrate()
+        const pending = useCloneStore.getState().plans.some(
+          (p) => p.targetId === plan.targetId && p.zpodId === plan.zpodId
+        )
+        if (pending) await replay(plan, zpod)
+      }).finally(() => running.current.delete(plan.zpodId))
+    }
+  }, [zpods, activeTargetId, plans, removePlan, addZpodComponent, fetchZpodDns, createZpodDns])
+}
@@ -0,0 +1,65 @@
+import { useEffect, useState } from "react"
+import axios from "axios"
+import { useComponentsQuery, useLibrariesQuery } from "@/hooks/use-api"
+import { useTargetStore } from "@/stores/target-store"
+import { fetchQuery, queryKey } from "@/lib/query-cache"
+import {
+  componentJsonUrl,
+  parseComponentSizing,
+  type ComponentDefaults,
+  type ComponentSizing,
+} from "@/lib/footprint"
+
+const EMPTY_DEFAULTS: ComponentDefaults = new Map()
+
+/**
+ * Default sizing of the given components, read from their library JSON.
+ * Each JSON is fetched once per session; components whose library host is
+ * unsupported or unreachable simply have no defaults.
+ */
+export function useComponentDefaults(componentUids: string[]): ComponentDefaults {
+  const activeTargetId = useTargetStore((s) => s.activeTargetId)
+  const { data: components, refetch: fetchComponents } = useComponentsQuery()
+  const { data: libraries, refetch: fetchLibraries } = useLibrariesQuery()
+  const [defaults, setDefaults] = useState<ComponentDefaults>(EMPTY_DEFAULTS)
+  const wanted = [...new Set(componentUids)].sort().join(",")
+
+  useEffect(() => {
+    fetchComponents().catch(() => {})
+    fetchLibraries().catch(() => {})
+  }, [fetchComponents, fetchLibraries])
+
+  useEffect(() => {
+    if (!components || !libraries || !wanted) return
+    let cancelled = false
+
+    const load = async (uid: string): Promise<[string, ComponentSizing]> => {
+      const component = components.find((c) => c.component_uid === uid)
+      const library = libraries.find((l) => l.name === component?.library_name)
+      const url = component && library
+        ? componentJsonUrl(component.jsonfile, library.name, library.git_url)
+        : null
+      if (!url) return [uid, {}]
+      const sizing = await fetchQuery(
+        queryKey(activeTargetId, "component-defaults", uid),
+        async () => {
+          try {
+            const { data } = await axios.get<unknown>(url)
+            return parseComponentSizing(data)
+          } catch {
+            return {}
+          }
+        },
+        Infinity
+      )
+      return [uid, sizing]
+    }
+
+    Promise.all(wanted.split(",").map(load)).then((entries) => {
+      if (!cancelled) setDefaults(new Map(entries))
+    })
+    return () => { cancelled = true }
+  }, [wanted, components, libraries, activeTargetId])
+
+  return defaults
+}
@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useMemo } from "react"
+import axios from "axios"
+import { useLibrariesQuery } from "@/hooks/use-api"
+import { useQuery } from "@/hooks/use-query"
+import { useTargetStore } from "@/stores/target-store"
+import { fetchQuery, queryKey } from "@/lib/query-cache"
+import { componentJsonUrl } from "@/lib/footprint"
+import { parseComponentDefinition } from "@/lib/component-definition"
+import type { ComponentFull } from "@/types"
+
+/**
+ * The library JSON of a component, fetched from its git host once per
+ * session. `url` is null when the library host is not supported.
+ */
+export function useComponentDefinition(component: ComponentFull | null) {
+  const activeTargetId = useTargetStore((s) => s.activeTargetId)
+  const { data: libraries, refetch: fetchLibraries } = useLibrariesQuery()
+  const library = libraries?.find((l) => l.name === component?.library_name)
+  const url = component && library
+    ? componentJsonUrl(component.jsonfile, library.name, library.git_url)
+    : null
+
+  const key = queryKey(activeTargetId, "component-json", component?.component_uid ?? "")
+  const fetcher = useCallback(
+    () => fetchQuery(key, async () => (await axios.get<unknown>(url!)).data, Infinity),
+    [key, url]
+  )
+  const { data: json, error } = useQuery(key, fetcher)
+
+  useEffect(() => {
+    fetchLibraries().catch(() => {})
+  }, [fetchLibraries])
+
+  useEffect(() => {
+    if (url) fetcher().catch(() => {})
+  }, [url, fetcher])
+
+  const definition = useMemo(() => (json !== undefined ? parseComponentDefinition(json) : null), [json])
+
+  return {
+    library,
+    url,
+    json,
+    definition,
+    error,
+    isLoading: url != null && json === undefined && error === undefined,
+  }
+}
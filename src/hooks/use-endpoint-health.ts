@@ -0,0 +1,38 @@
+import { useCallback, useEffect } from "react"
+import axios from "axios"
+import { useQuery } from "@/hooks/use-query"
+import { usePolling } from "@/hooks/use-polling"
+import { fetchQuery, queryKey } from "@/lib/query-cache"
+import type { EndpointHealthReport } from "@/types"
+
+/** The server samples every minute by default, so a tighter poll adds nothing */
+const HEALTH_POLL_SECONDS = 30
+
+/** The monitor runs in the Node server, for every target alike */
+const HEALTH_KEY = queryKey(null, "endpoint-health")
+
+/**
+ * Endpoint health history from the server's monitor. `report` stays
+ * undefined when the app is served without the Node server.
+ */
+export function useEndpointHealth() {
+  const fetcher = useCallback(
+    () =>
+      fetchQuery(HEALTH_KEY, async () => {
+        const { data } = await axios.get<EndpointHealthReport>("/health/endpoints")
+        // A static host answers with the SPA index instead
+        if (!Array.isArray(data?.endpoints)) throw new Error("Endpoint health unavailable")
+        return data
+      }),
+    []
+  )
+  const { data: report } = useQuery(HEALTH_KEY, fetcher)
+  const refresh = useCallback(() => {
+    fetcher().catch(() => {})
+  }, [fetcher])
+
+  useEffect(refresh, [refresh])
+  usePolling(refresh, HEALTH_POLL_SECONDS)
+
+  return report
+}
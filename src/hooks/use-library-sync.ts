@@ -0,0 +1,85 @@
+import { useCallback, useMemo, useRef } from "react"
+import { toast } from "sonner"
+import { useApi } from "@/hooks/use-api"
+import { usePolling } from "@/hooks/use-polling"
+import { useTargetStore } from "@/stores/target-store"
+import { useLibrarySyncStore, type LibrarySync } from "@/stores/library-sync-store"
+import { diffLibrarySync, snapshotComponents, summarizeSyncReport } from "@/lib/library-sync"
+import type { Library } from "@/types"
+
+/** How often a running sync is checked */
+const SYNC_POLL_SECONDS = 3
+
+/** A sync whose library never reports a change is reported as is after this */
+const SYNC_TIMEOUT_MS = 10 * 60_000
+
+/**
+ * Resyncs a library and tracks it until its `last_modified_date` moves,
+ * then compares its components with the snapshot taken before the sync.
+ * Syncs are persisted, so one still running when the page is left is
+ * picked up on the next visit.
+ */
+export function useLibrarySync() {
+  const { fetchLibraries, fetchComponents, resyncLibrary } = useApi()
+  const activeTargetId = useTargetStore((s) => s.activeTargetId)
+  const allSyncs = useLibrarySyncStore((s) => s.syncs)
+  const { start, finish, remove } = useLibrarySyncStore()
+  const checking = useRef(false)
+
+  const syncs = useMemo(() => {
+    const map = new Map<number, LibrarySync>()
+    for (const s of allSyncs) if (s.targetId === activeTargetId) map.set(s.libraryId, s)
+    return map
+  }, [allSyncs, activeTargetId])
+
+  const pending = useMemo(() => [...syncs.values()].filter((s) => s.status === "syncing"), [syncs])
+
+  const startSync = useCallback(
+    async (lib: Library) => {
+      if (!activeTargetId) return
+      const snapshot = snapshotComponents(await fetchComponents(), lib.name)
+      await resyncLibrary(String(lib.id))
+      start({
+        targetId: activeTargetId,
+        libraryId: lib.id,
+        libraryName: lib.name,
+        startedAt: new Date().toISOString(),
+        previousModified: lib.last_modified_date,
+        snapshot,
+        status: "syncing",
+      })
+    },
+    [activeTargetId, fetchComponents, resyncLibrary, start]
+  )
+
+  const check = useCallback(async () => {
+    if (checking.current || pending.length === 0 || !activeTargetId) return
+    checking.current = true
+    try {
+      const libraries = await fetchLibraries()
+      for (const sync of pending) {
+        const lib = libraries.find((l) => l.id === sync.libraryId)
+        if (!lib) {
+          remove(sync.targetId, sync.libraryId)
+          continue
+        }
+        const moved = lib.last_modified_date !== sync.previousModified
+        const timedOut = Date.now() - new Date(sync.startedAt).getTime() > SYNC_TIMEOUT_MS
+        if (!moved && !timedOut) continue
+
+        const report = diffLibrarySync(sync.snapshot, snapshotComponents(await fetchComponents(), lib.name))
+        finish(sync.targetId, sync.libraryId, { status: moved ? "done" : "timeout", report })
+        if (moved) toast.success(`Library "${lib.name}" synced: ${summarizeSyncReport(report)}`)
+        else toast.warning(`Library "${lib.name}" did not report a sync, showing the changes so far`)
+      }
+    } catch {
+      /* retried on the next tick */
+    } finally {
+      checking.current = false
+    }
+  }, [pending, activeTargetId, fetchLibraries, fetchComponents, finish, remove])
+
+  usePolling(check, pending.length > 0 ? SYNC_POLL_SECONDS : 0)
+
+  return { syncs, startSync }
+}
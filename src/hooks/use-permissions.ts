@@ -0,0 +1,20 @@
+import { useCallback } from "react"
+import { useAuthStore } from "@/stores/auth-store"
+import { checkPermission, type GlobalAction, type PermissionCheck, type ZpodAction } from "@/lib/permissions"
+import type { Zpod } from "@/types"
+
+/** Permission checks for the signed-in user, see lib/permissions */
+export function usePermissions() {
+  const user = useAuthStore((s) => s.user)
+
+  const can = useCallback(
+    (action: GlobalAction): PermissionCheck => checkPermission(user, action),
+    [user]
+  )
+  const canOnZpod = useCallback(
+    (action: ZpodAction, zpod: Pick<Zpod, "permissions">): PermissionCheck => checkPermission(user, action, zpod),
+    [user]
+  )
+
+  return { isSuperadmin: user?.superadmin ?? false, can, canOnZpod }
+}
@@ -1,5 +1,6 @@
 import { useEffect, useRef } from "react"
 import { usePreferencesStore } from "@/stores/preferences-store"
+import { useEventsStore } from "@/stores/events-store"
 
 /**
  * Polls a fetch function at the configured interval.
@@ -29,3 +30,12 @@ export function usePolling(fetchFn: () => void, overrideSeconds?: number) {
     return () => clearInterval(id)
   }, [interval])
 }
+
+/**
+ * usePolling for zPod list fetches: idles while the zPod event stream
+ * is connected (it patches the cache directly) and resumes when it drops.
+ */
+export function useZpodPolling(fetchFn: () => void) {
+  const streaming = useEventsStore((s) => s.zpodStreamConnected)
+  usePolling(fetchFn, streaming ? 0 : undefined)
+}
@@ -0,0 +1,25 @@
+import { useCallback, useSyncExternalStore } from "react"
+import { getQueryEntry, subscribeQuery } from "@/lib/query-cache"
+
+/**
+ * Subscribes a component to a cached query key.
+ * `fetcher` must be a cache-aware fetch (e.g. `fetchZpods` from useApi)
+ * so that every consumer of the key shares the same response.
+ *
+ * Cached data is returned immediately; call `refetch` (typically on mount
+ * and through usePolling) to revalidate it in the background.
+ */
+export function useQuery<T>(key: string, fetcher: () => Promise<T>) {
+  const subscribe = useCallback(
+    (listener: () => void) => subscribeQuery(key, listener),
+    [key]
+  )
+  const entry = useSyncExternalStore(subscribe, () => getQueryEntry<T>(key))
+
+  return {
+    data: entry?.data,
+    error: entry?.error,
+    isLoading: entry?.data === undefined && entry?.error === undefined,
+    refetch: fetcher,
+  }
+}
@@ -0,0 +1,34 @@
+import { useEffect } from "react"
+import { useVaultStore } from "@/stores/vault-store"
+
+const ACTIVITY_EVENTS = ["pointerdown", "pointermove", "keydown", "wheel", "touchstart"] as const
+
+/**
+ * Locks the token vault after the configured minutes without user input.
+ * Locking logs out, so the auth guard sends the user back to the login
+ * page with the current URL as returnTo.
+ */
+export function useVaultAutoLock() {
+  const enabled = useVaultStore((s) => s.vault != null && s.unlocked)
+  const minutes = useVaultStore((s) => s.autoLockMinutes)
+
+  useEffect(() => {
+    if (!enabled || minutes <= 0) return
+    const timeoutMs = minutes * 60_000
+    let lastActivity = Date.now()
+
+    const onActivity = () => {
+      lastActivity = Date.now()
+    }
+    // A sleeping laptop does not fire timers, so compare timestamps instead of one long timeout
+    const id = setInterval(() => {
+      if (Date.now() - lastActivity >= timeoutMs) useVaultStore.getState().lock()
+    }, 15_000)
+
+    for (const event of ACTIVITY_EVENTS) window.addEventListener(event, onActivity, { passive: true })
+    return () => {
+      clearInterval(id)
+      for (const event of ACTIVITY_EVENTS) window.removeEventListener(event, onActivity)
+    }
+  }, [enabled, minutes])
+}
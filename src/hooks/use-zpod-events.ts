@@ -0,0 +1,75 @@
+import { useEffect } from "react"
+import { useTargetStore } from "@/stores/target-store"
+import { useAuthStore } from "@/stores/auth-store"
+import { usePreferencesStore } from "@/stores/preferences-store"
+import { useEventsStore } from "@/stores/events-store"
+import { queryKey, setQueryData } from "@/lib/query-cache"
+import { applyZpodUpdate, streamZpodEvents } from "@/lib/zpod-events"
+import type { Zpod } from "@/types"
+
+const RETRY_BASE_SECONDS = 5
+const RETRY_MAX_SECONDS = 60
+
+/**
+ * Keeps the cached zPod list of the active target up to date from the
+ * server's event stream. Mounted once in the root layout.
+ *
+ * Once the stream delivers a snapshot, `zpodStreamConnected` is set so zPod
+ * polling pauses; when the stream drops (or the server ends it because the
+ * factory stopped answering) it is retried with backoff and polling resumes.
+ * Auto-refresh set to "Off" disables the stream as well.
+ */
+export function useZpodEvents() {
+  const target = useTargetStore((s) => s.targets.find((t) => t.id === s.activeTargetId))
+  const isAuthenticated = useAuthStore((s) => s.isAuthenticated)
+  const pollingInterval = usePreferencesStore((s) => s.pollingInterval)
+  const setConnected = useEventsStore((s) => s.setZpodStreamConnected)
+
+  const targetId = target?.id
+  const targetUrl = target?.url
+  const token = target?.token
+  const enabled = isAuthenticated && pollingInterval > 0
+
+  useEffect(() => {
+    if (!enabled || !targetId || !targetUrl || !token) return
+
+    const controller = new AbortController()
+    const key = queryKey(targetId, "zpods")
+    let attempt = 0
+    let retryTimer: ReturnType<typeof setTimeout> | undefined
+
+    const connect = async () => {
+      try {
+        await streamZpodEvents(
+          { url: targetUrl, token },
+          {
+            // Only a stream that delivers counts: an open stream to a failing factory would go stale
+            onSnapshot: (zpods) => {
+              attempt = 0
+              setConnected(true)
+              setQueryData<Zpod[]>(key, zpods)
+            },
+            onUpdate: (update) =>
+              setQueryData<Zpod[]>(key, (prev) => applyZpodUpdate(prev, update)),
+          },
+          controller.signal
+        )
+      } catch {
+        // Stream unavailable or dropped, polling takes over below
+      }
+      setConnected(false)
+      if (controller.signal.aborted) return
+
+      const delay = Math.min(RETRY_MAX_SECONDS, RETRY_BASE_SECONDS * 2 ** attempt++)
+      retryTimer = setTimeout(connect, delay * 1000)
+    }
+
+    connect()
+
+    return () => {
+      controller.abort()
+      clearTimeout(retryTimer)
+      setConnected(false)
+    }
+  }, [enabled, targetId, targetUrl, token, setConnected])
+}
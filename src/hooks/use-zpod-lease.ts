@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useMemo } from "react"
+import { toast } from "sonner"
+import { useApi, useSettingsQuery } from "@/hooks/use-api"
+import {
+  extendLeaseFeatures,
+  getLeaseExpiry,
+  leaseDefaults,
+  withLeaseExpiry,
+} from "@/lib/zpod-lease"
+import type { Zpod } from "@/types"
+
+/**
+ * Lease defaults from the factory settings plus the actions changing a
+ * zPod lease. Both actions resolve to the updated zPod, or null when the
+ * API refused the change (already reported with a toast).
+ */
+export function useZpodLease() {
+  const { data: settings, refetch } = useSettingsQuery()
+  const { updateZpod } = useApi()
+  const { defaultDays, extendDays } = useMemo(() => leaseDefaults(settings), [settings])
+
+  useEffect(() => {
+    refetch().catch(() => {})
+  }, [refetch])
+
+  const expiryOf = useCallback(
+    (zpod: Zpod) => getLeaseExpiry(zpod, defaultDays),
+    [defaultDays]
+  )
+
+  const extendLease = useCallback(
+    async (zpod: Zpod): Promise<Zpod | null> => {
+      try {
+        const features = extendLeaseFeatures(zpod, getLeaseExpiry(zpod, defaultDays), extendDays)
+        const updated = await updateZpod(zpod.id, { features })
+        toast.success(`Lease of "${zpod.name}" extended by ${extendDays} day${extendDays !== 1 ? "s" : ""}`)
+        return updated
+      } catch {
+        toast.error(`Failed to extend the lease of "${zpod.name}"`)
+        return null
+      }
+    },
+    [updateZpod, defaultDays, extendDays]
+  )
+
+  const setLeaseExpiry = useCallback(
+    async (zpod: Zpod, expiry: Date): Promise<Zpod | null> => {
+      try {
+        const updated = await updateZpod(zpod.id, { features: withLeaseExpiry(zpod, expiry) })
+        toast.success(`Lease of "${zpod.name}" updated`)
+        return updated
+      } catch {
+        toast.error(`Failed to update the lease of "${zpod.name}"`)
+        return null
+      }
+    },
+    [updateZpod]
+  )
+
+  return { defaultDays, extendDays, expiryOf, extendLease, setLeaseExpiry }
+}
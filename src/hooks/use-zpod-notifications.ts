@@ -0,0 +1,76 @@
+import { useEffect, useRef } from "react"
+import { useNavigate } from "react-router"
+import { toast } from "sonner"
+import { useZpodsQuery } from "@/hooks/use-api"
+import { useAuthStore } from "@/stores/auth-store"
+import { useTargetStore } from "@/stores/target-store"
+import { usePreferencesStore, getNotificationPrefs } from "@/stores/preferences-store"
+import { useNotificationStore } from "@/stores/notification-store"
+import { describeTransition, detectTransitions, shouldNotify } from "@/lib/zpod-transitions"
+
+/**
+ * Watches the cached zPod list (kept fresh by the header stats polling or
+ * the event stream) and records build/destroy outcomes in the notification
+ * center. Desktop notifications are raised when enabled and permitted,
+ * otherwise a toast is shown. Mounted once in the root layout.
+ */
+export function useZpodNotifications() {
+  const navigate = useNavigate()
+  const { data: zpods } = useZpodsQuery()
+  const username = useAuthStore((s) => s.user?.username)
+  const activeTargetId = useTargetStore((s) => s.activeTargetId)
+  const notificationPrefs = usePreferencesStore((s) => s.notifications)
+  const addNotification = useNotificationStore((s) => s.addNotification)
+
+  // Statuses from the previous update, reset when the target changes
+  const seen = useRef<{ targetId: string | null; statuses: Map<number, string> | null }>({
+    targetId: null,
+    statuses: null,
+  })
+
+  useEffect(() => {
+    if (!zpods || !username || !activeTargetId) return
+
+    if (seen.current.targetId !== activeTargetId) {
+      seen.current = { targetId: activeTargetId, statuses: null }
+    }
+    const previous = seen.current.statuses
+    seen.current.statuses = new Map(zpods.map((z) => [z.id, z.status]))
+    if (!previous) return
+
+    const prefs = getNotificationPrefs(notificationPrefs, username)
+    const desktop =
+      prefs.desktop && "Notification" in window && Notification.permission === "granted"
+
+    for (const t of detectTransitions(previous, zpods)) {
+      if (!shouldNotify(t, prefs, username)) continue
+
+      addNotification({
+        targetId: activeTargetId,
+        zpodId: t.zpod.id,
+        zpodName: t.zpod.name,
+        kind: t.kind,
+        from: t.from,
+        to: t.zpod.status,
+      })
+
+      const title = describeTransition(t.kind, t.zpod.name)
+      if (desktop) {
+        // Same tag across tabs so the OS shows a single notification
+        const n = new Notification(title, {
+          body: `${t.from} → ${t.zpod.status}`,
+          icon: "/zpodfactory-logo.png",
+          tag: `zpod-${activeTargetId}-${t.zpod.id}-${t.zpod.status}`,
+        })
+        n.onclick = () => {
+          window.focus()
+          navigate(`/zpods/${t.zpod.id}`)
+        }
+      } else if (t.kind === "active") {
+        toast.success(title)
+      } else {
+        toast.error(title)
+      }
+    }
+  }, [zpods, username, activeTargetId, notificationPrefs, addNotification, navigate])
+}
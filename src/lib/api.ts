@@ -1,6 +1,30 @@
-import axios from "axios"
+import axios, { type InternalAxiosRequestConfig } from "axios"
 import { useTargetStore } from "@/stores/target-store"
 import { useAuthStore } from "@/stores/auth-store"
+import { useReauthStore } from "@/stores/reauth-store"
+import type { TargetProfile } from "@/types"
+
+interface ApiErrorShape {
+  response?: { status?: number; data?: { detail?: unknown } }
+}
+
+// zpodapi answers a missing or unknown token with 403 too, told apart by its detail
+const AUTH_DETAIL = /credential|not authenticated|api.?key|token/i
+
+/** The token was rejected: the user has to authenticate again */
+export function isAuthError(err: unknown): boolean {
+  const response = (err as ApiErrorShape | null)?.response
+  if (response?.status === 401) return true
+  const detail = response?.data?.detail
+  return response?.status === 403 && typeof detail === "string" && AUTH_DETAIL.test(detail)
+}
+
+/** Authenticated, but the user's role does not allow this call */
+export function isForbidden(err: unknown): boolean {
+  return (err as ApiErrorShape | null)?.response?.status === 403 && !isAuthError(err)
+}
+
+type RetryableConfig = InternalAxiosRequestConfig & { _reauthRetry?: boolean }
 
 export function createApiClient() {
   const instance = axios.create({
@@ -20,9 +44,15 @@ export function createApiClient() {
   instance.interceptors.response.use(
     (response) => response,
     (error) => {
-      if (error.response?.status === 403) {
-        useAuthStore.getState().logout()
-        useTargetStore.getState().clearActiveTarget()
+      const config = error.config as RetryableConfig | undefined
+      // Park the request behind the re-authentication dialog, replayed once with the new token
+      if (isAuthError(error) && config && !config._reauthRetry && useAuthStore.getState().isAuthenticated) {
+        return new Promise((resolve, reject) => {
+          useReauthStore.getState().enqueue({
+            retry: () => resolve(instance({ ...config, _reauthRetry: true } as RetryableConfig)),
+            cancel: () => reject(error),
+          })
+        })
       }
       return Promise.reject(error)
     }
@@ -32,3 +62,18 @@ export function createApiClient() {
 }
 
 export const api = createApiClient()
+
+/**
+ * Client bound to one target regardless of the active one, used by the
+ * all-factories views. Auth failures here only fail that request: they
+ * must not prompt for the active target's token.
+ */
+export function createTargetClient(target: Pick<TargetProfile, "url" | "token">) {
+  return axios.create({
+    baseURL: "/api",
+    headers: {
+      access_token: target.token,
+      "X-Target-Url": target.url,
+    },
+  })
+}
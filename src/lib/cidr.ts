@@ -0,0 +1,71 @@
+/** IPv4 / CIDR helpers for zPod networks */
+
+export function cidrToNetworkIp(cidr: string): number {
+  const [ipStr, prefixStr] = cidr.split("/")
+  const prefixLen = parseInt(prefixStr, 10)
+  if (isNaN(prefixLen)) return 0
+  const parts = ipStr.split(".").map(Number)
+  const ip = ((parts[0] << 24) | (parts[1] << 16) | (parts[2] << 8) | parts[3]) >>> 0
+  const mask = prefixLen === 0 ? 0 : (~0 << (32 - prefixLen)) >>> 0
+  return (ip & mask) >>> 0
+}
+
+export function ipToString(ip: number): string {
+  return [
+    (ip >>> 24) & 0xff,
+    (ip >>> 16) & 0xff,
+    (ip >>> 8) & 0xff,
+    ip & 0xff,
+  ].join(".")
+}
+
+export function cidrToGateway(cidr: string): string {
+  return ipToString((cidrToNetworkIp(cidr) | 1) >>> 0)
+}
+
+/** Network address + 2 = zbox IP (DNS server for all networks) */
+export function cidrToZboxIp(cidr: string): string {
+  return ipToString((cidrToNetworkIp(cidr) | 2) >>> 0)
+}
+
+/** VLAN ID: last octet of the network address. 0 = untagged. */
+export function cidrToVlanId(cidr: string): number {
+  return cidrToNetworkIp(cidr) & 0xff
+}
+
+export function cidrPrefix(cidr: string): string {
+  return cidr.split("/")[1] ?? "0"
+}
+
+export type EndpointNetworksCheck =
+  | { valid: true; prefix: number; zpodCapacity: number }
+  | { valid: false; tooSmall: boolean; hostBits: boolean }
+
+/** Validates an endpoint `networks` CIDR: a network address with room for at least 8 zPod /24s */
+export function parseEndpointNetworks(networks: string): EndpointNetworksCheck | null {
+  if (!networks) return null
+  const m = networks.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})\/(\d{1,2})$/)
+  if (!m) return { valid: false, tooSmall: false, hostBits: false }
+  const prefix = parseInt(m[5], 10)
+  if (prefix > 21 || prefix < 1) return { valid: false, tooSmall: prefix > 21, hostBits: false }
+  const octets = [parseInt(m[1]), parseInt(m[2]), parseInt(m[3]), parseInt(m[4])]
+  if (octets.some((o) => o > 255)) return { valid: false, tooSmall: false, hostBits: false }
+  const ip = ((octets[0] << 24) | (octets[1] << 16) | (octets[2] << 8) | octets[3]) >>> 0
+  const mask = (~0 << (32 - prefix)) >>> 0
+  if ((ip & mask) !== ip) return { valid: false, tooSmall: false, hostBits: true }
+  return { valid: true, prefix, zpodCapacity: Math.pow(2, 24 - prefix) }
+}
+
+/** Whether `inner` lies entirely within `outer` */
+export function cidrContains(outer: string, inner: string): boolean {
+  const outerPrefix = parseInt(cidrPrefix(outer), 10)
+  const innerPrefix = parseInt(cidrPrefix(inner), 10)
+  if (isNaN(outerPrefix) || isNaN(innerPrefix) || innerPrefix < outerPrefix) return false
+  const mask = outerPrefix === 0 ? 0 : (~0 << (32 - outerPrefix)) >>> 0
+  return ((cidrToNetworkIp(inner) & mask) >>> 0) === cidrToNetworkIp(outer)
+}
+
+/** Whether two CIDR blocks share any address */
+export function cidrsOverlap(a: string, b: string): boolean {
+  return cidrContains(a, b) || cidrContains(b, a)
+}
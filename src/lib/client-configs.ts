@@ -0,0 +1,210 @@
+import { cidrToZboxIp } from "@/lib/cidr"
+import { extractComponentType } from "@/lib/component-colors"
+import { webAccessUrl } from "@/lib/connection-sheet"
+import { generateId } from "@/lib/utils"
+import type { Zpod, ZpodComponentView, ZpodDnsEntry } from "@/types"
+
+/**
+ * Client-side connection files generated from a zPod's components:
+ * ~/.ssh/config, /etc/hosts, Remote Desktop Manager and mRemoteNG.
+ * Passwords are never written to these files.
+ */
+
+export type ClientConfigFormat = "ssh" | "hosts" | "rdm" | "mremoteng"
+
+interface Connection {
+  name: string
+  host: string // IP when known, FQDN otherwise
+  protocol: "ssh" | "web"
+  username: string
+  url?: string
+}
+
+function zboxIp(zpod: Zpod): string | null {
+  return zpod.networks?.length ? cidrToZboxIp(zpod.networks[0].cidr) : null
+}
+
+function isZbox(comp: ZpodComponentView): boolean {
+  return extractComponentType(comp.component.component_uid) === "zbox"
+}
+
+function componentName(comp: ZpodComponentView): string {
+  return comp.hostname ?? comp.component.component_uid
+}
+
+function connections(zpod: Zpod): Connection[] {
+  const result: Connection[] = []
+  for (const comp of zpod.components ?? []) {
+    const host = comp.ip ?? comp.fqdn
+    if (!host) continue
+    for (const u of comp.usernames ?? []) {
+      if (u.type === "ssh") {
+        result.push({ name: componentName(comp), host, protocol: "ssh", username: u.username })
+      } else {
+        const url = webAccessUrl(u.type, comp.fqdn)
+        if (url) result.push({ name: `${componentName(comp)} (web)`, host, protocol: "web", username: u.username, url })
+      }
+    }
+  }
+  return result
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
+
+/** ~/.ssh/config block — every component is reached through the zbox */
+export function toSshConfig(zpod: Zpod): string {
+  const jump = zboxIp(zpod)
+  const zbox = zpod.components?.find(isZbox)
+  const zboxUser = zbox?.usernames?.find((u) => u.type === "ssh")?.username ?? "root"
+  const jumpAlias = `${zpod.name}-zbox`
+
+  const lines = [`# zPod ${zpod.name} (${zpod.domain})`]
+  if (jump) {
+    lines.push(
+      "",
+      `Host ${jumpAlias}`,
+      `  HostName ${jump}`,
+      `  User ${zboxUser}`,
+      // Lab hosts are rebuilt with the same addresses, keep their keys out of known_hosts
+      "  StrictHostKeyChecking no",
+      "  UserKnownHostsFile /dev/null",
+    )
+  }
+
+  for (const comp of zpod.components ?? []) {
+    if (isZbox(comp)) continue
+    const sshUser = comp.usernames?.find((u) => u.type === "ssh")
+    const host = comp.ip ?? comp.fqdn
+    if (!sshUser || !host) continue
+    const aliases = [`${zpod.name}-${componentName(comp)}`]
+    if (comp.fqdn) aliases.push(comp.fqdn)
+    lines.push(
+      "",
+      `Host ${aliases.join(" ")}`,
+      `  HostName ${host}`,
+      `  User ${sshUser.username}`,
+    )
+    if (jump) lines.push(`  ProxyJump ${jumpAlias}`)
+    lines.push("  StrictHostKeyChecking no", "  UserKnownHostsFile /dev/null")
+  }
+
+  return lines.join("\n") + "\n"
+}
+
+/** /etc/hosts snippet for components and custom DNS entries */
+export function toEtcHosts(zpod: Zpod, dnsEntries: ZpodDnsEntry[]): string {
+  const lines = [`# zPod ${zpod.name} (${zpod.domain})`]
+  const seen = new Set<string>()
+  const add = (ip: string, fqdn: string, short: string | null) => {
+    if (seen.has(fqdn)) return
+    seen.add(fqdn)
+    lines.push([ip, fqdn, short].filter(Boolean).join("\t"))
+  }
+
+  for (const comp of zpod.components ?? []) {
+    if (comp.ip && comp.fqdn) add(comp.ip, comp.fqdn, comp.hostname)
+  }
+  for (const e of dnsEntries) {
+    if (e.hostname === "localhost") continue
+    const isFqdn = e.hostname.includes(".")
+    add(e.ip, isFqdn ? e.hostname : `${e.hostname}.${zpod.domain}`, isFqdn ? null : e.hostname)
+  }
+
+  return lines.join("\n") + "\n"
+}
+
+/** Remote Desktop Manager import file (.rdm) */
+export function toRdm(zpod: Zpod): string {
+  const group = escapeXml(`zPod ${zpod.name}`)
+  const entries = connections(zpod).map((c) => {
+    const common = [
+      `      <ID>${generateId()}</ID>`,
+      `      <Name>${escapeXml(c.name)}</Name>`,
+      `      <Group>${group}</Group>`,
+    ]
+    if (c.protocol === "ssh") {
+      return [
+        "    <Connection>",
+        "      <ConnectionType>SSHShell</ConnectionType>",
+        ...common,
+        "      <Terminal>",
+        `        <Host>${escapeXml(c.host)}</Host>`,
+        `        <Username>${escapeXml(c.username)}</Username>`,
+        "      </Terminal>",
+        "    </Connection>",
+      ].join("\n")
+    }
+    return [
+      "    <Connection>",
+      "      <ConnectionType>WebBrowser</ConnectionType>",
+      ...common,
+      `      <WebBrowserUrl>${escapeXml(c.url ?? "")}</WebBrowserUrl>`,
+      "      <Web>",
+      `        <UserName>${escapeXml(c.username)}</UserName>`,
+      "      </Web>",
+      "    </Connection>",
+    ].join("\n")
+  })
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    "<RDMExport>",
+    "  <Connections>",
+    ...entries,
+    "  </Connections>",
+    "</RDMExport>",
+    "",
+  ].join("\n")
+}
+
+/** mRemoteNG connection file (confCons.xml format) */
+export function toMremoteng(zpod: Zpod): string {
+  const nodes = connections(zpod).map((c) => {
+    const isSsh = c.protocol === "ssh"
+    const url = c.url ? new URL(c.url) : null
+    const attrs: Record<string, string> = {
+      Name: c.name,
+      Type: "Connection",
+      Id: generateId(),
+      Descr: c.url ?? "",
+      Hostname: url ? url.hostname : c.host,
+      Username: c.username,
+      Password: "",
+      Protocol: isSsh ? "SSH2" : "HTTPS",
+      Port: isSsh ? "22" : url?.port || "443",
+      RenderingEngine: "EdgeChromium",
+    }
+    const rendered = Object.entries(attrs)
+      .map(([k, v]) => `${k}="${escapeXml(v)}"`)
+      .join(" ")
+    return `    <Node ${rendered} />`
+  })
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<mrng:Connections xmlns:mrng="http://mremoteng.org" Name="Connections" Export="false" EncryptionEngine="AES" BlockCipherMode="GCM" KdfIterations="1000" FullFileEncryption="false" ConfVersion="2.6">',
+    `  <Node Name="${escapeXml(`zPod ${zpod.name}`)}" Type="Container" Expanded="true" Id="${generateId()}">`,
+    ...nodes,
+    "  </Node>",
+    "</mrng:Connections>",
+    "",
+  ].join("\n")
+}
+
+export const CLIENT_CONFIG_FORMATS: Record<ClientConfigFormat, {
+  label: string
+  filename: (zpod: Zpod) => string
+  mime: string
+  render: (zpod: Zpod, dnsEntries: ZpodDnsEntry[]) => string
+}> = {
+  ssh: { label: "SSH config", filename: (z) => `${z.name}.ssh_config`, mime: "text/plain", render: (z) => toSshConfig(z) },
+  hosts: { label: "/etc/hosts", filename: (z) => `${z.name}.hosts`, mime: "text/plain", render: toEtcHosts },
+  rdm: { label: "Remote Desktop Manager", filename: (z) => `${z.name}.rdm`, mime: "application/xml", render: (z) => toRdm(z) },
+  mremoteng: { label: "mRemoteNG", filename: (z) => `${z.name}-confCons.xml`, mime: "application/xml", render: (z) => toMremoteng(z) },
+}
@@ -0,0 +1,36 @@
+/** Per-user table column visibility, stored in localStorage */
+
+export const COLUMN_PREFS_PREFIX = "zpodweb:columns:"
+
+export function loadColumnPrefs<K extends string>(username: string, defaults: Record<K, boolean>): Record<K, boolean> {
+  try {
+    const raw = localStorage.getItem(COLUMN_PREFS_PREFIX + username)
+    if (raw) {
+      const parsed = JSON.parse(raw) as Record<string, boolean>
+      // Merge with defaults so new columns get their default value
+      const result = { ...defaults }
+      for (const k of Object.keys(result) as K[]) {
+        if (k in parsed) result[k] = parsed[k]
+      }
+      return result
+    }
+  } catch { /* ignore corrupt data */ }
+  return defaults
+}
+
+export function saveColumnPrefs(username: string, prefs: Record<string, boolean>) {
+  localStorage.setItem(COLUMN_PREFS_PREFIX + username, JSON.stringify(prefs))
+}
+
+/** Saved column prefs of every user in this browser, keyed by username */
+export function readAllColumnPrefs(): Record<string, Record<string, boolean>> {
+  const result: Record<string, Record<string, boolean>> = {}
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i)
+    if (!key?.startsWith(COLUMN_PREFS_PREFIX)) continue
+    try {
+      result[key.slice(COLUMN_PREFS_PREFIX.length)] = JSON.parse(localStorage.getItem(key) ?? "{}")
+    } catch { /* ignore corrupt data */ }
+  }
+  return result
+}
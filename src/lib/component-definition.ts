@@ -0,0 +1,60 @@
+import { parseComponentSizing, type ComponentSizing } from "@/lib/footprint"
+
+/** A component's library JSON, sorted into what the detail drawer shows */
+export interface ComponentDefinition {
+  sizing: ComponentSizing
+  downloads: DefinitionField[]
+  checksums: DefinitionField[]
+  fields: DefinitionField[] // every other scalar value
+}
+
+export interface DefinitionField {
+  key: string // e.g. "download_url", "component_" prefixes dropped
+  path: string // original key, "parent.key" one object deep; unique per definition
+  value: string
+}
+
+const SIZING_KEYS = new Set(["vcpu", "vmem", "vnics", "vdisks"])
+const CHECKSUM_KEY = /checksum|sha\d*|md5/i
+const URL_VALUE = /^https?:\/\//i
+
+function displayKey(key: string): string {
+  return key.replace(/^component_/, "")
+}
+
+/** Scalar values at the top level or one object deep, like parseComponentSizing */
+function scalars(json: Record<string, unknown>): DefinitionField[] {
+  const out: DefinitionField[] = []
+  const visit = (obj: Record<string, unknown>, parent: string | null) => {
+    for (const [key, value] of Object.entries(obj)) {
+      if (value == null) continue
+      const path = parent ? `${parent}.${key}` : key
+      if (typeof value === "object" && !Array.isArray(value)) {
+        if (!parent) visit(value as Record<string, unknown>, key)
+        continue
+      }
+      const text = Array.isArray(value) ? value.map(String).join(", ") : String(value)
+      out.push({ key: displayKey(key), path, value: text })
+    }
+  }
+  visit(json, null)
+  return out
+}
+
+export function parseComponentDefinition(json: unknown): ComponentDefinition {
+  const definition: ComponentDefinition = {
+    sizing: parseComponentSizing(json),
+    downloads: [],
+    checksums: [],
+    fields: [],
+  }
+  if (!json || typeof json !== "object" || Array.isArray(json)) return definition
+
+  for (const field of scalars(json as Record<string, unknown>)) {
+    if (SIZING_KEYS.has(field.key)) continue
+    if (CHECKSUM_KEY.test(field.key)) definition.checksums.push(field)
+    else if (URL_VALUE.test(field.value)) definition.downloads.push(field)
+    else definition.fields.push(field)
+  }
+  return definition
+}
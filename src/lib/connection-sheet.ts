@@ -0,0 +1,231 @@
+import { cidrToGateway, cidrToVlanId, cidrToZboxIp } from "@/lib/cidr"
+import type { Zpod, ZpodDnsEntry } from "@/types"
+
+/**
+ * Connection sheet: everything needed to hand a zPod over — components with
+ * their access details, networks and DNS entries — rendered as Markdown,
+ * JSON or CSV.
+ */
+
+export type SheetFormat = "markdown" | "json" | "csv"
+
+export interface SheetCredential {
+  username: string
+  type: string // "ssh", "ui", "ui-proxmox", …
+  url: string | null // web UI URL or ssh command target
+  password?: string | null
+}
+
+export interface SheetComponent {
+  hostname: string | null
+  fqdn: string | null
+  ip: string | null
+  component: string // component_uid
+  status: string
+  credentials: SheetCredential[]
+}
+
+export interface SheetNetwork {
+  cidr: string
+  gateway: string
+  router: "NSX-T1" | "zbox"
+  vlan: number | null // null = untagged
+}
+
+export interface ConnectionSheet {
+  name: string
+  domain: string
+  profile: string
+  endpoint: string | null
+  dns_server: string | null
+  password?: string | null
+  networks: SheetNetwork[]
+  components: SheetComponent[]
+  dns: { hostname: string; ip: string; fqdn: string }[]
+}
+
+/** Web UI URL for a credential type, null for ssh and unknown hosts */
+export function webAccessUrl(type: string, fqdn: string | null): string | null {
+  if (!fqdn || type === "ssh") return null
+  const port =
+    type === "ui-proxmox" ? ":8006" :
+    type === "ui-proxmox-dm" ? ":8443" :
+    type === "ui-proxmox-bs" ? ":8007" : ""
+  return `https://${fqdn}${port}`
+}
+
+function sortByIp<T extends { ip: string | null }>(items: T[]): T[] {
+  const ipToNum = (ip: string | null) => {
+    if (!ip) return Number.MAX_SAFE_INTEGER
+    const parts = ip.split(".").map(Number)
+    return ((parts[0] << 24) | (parts[1] << 16) | (parts[2] << 8) | parts[3]) >>> 0
+  }
+  return [...items].sort((a, b) => ipToNum(a.ip) - ipToNum(b.ip))
+}
+
+export function buildConnectionSheet(
+  zpod: Zpod,
+  dnsEntries: ZpodDnsEntry[],
+  includePasswords: boolean
+): ConnectionSheet {
+  const networks = zpod.networks ?? []
+  const password = includePasswords ? zpod.password : undefined
+
+  return {
+    name: zpod.name,
+    domain: zpod.domain,
+    profile: zpod.profile,
+    endpoint: zpod.endpoint?.name ?? null,
+    dns_server: networks.length > 0 ? cidrToZboxIp(networks[0].cidr) : null,
+    ...(includePasswords ? { password: zpod.password } : {}),
+    networks: networks.map((net, idx) => ({
+      cidr: net.cidr,
+      gateway: cidrToGateway(net.cidr),
+      router: idx === 0 ? "NSX-T1" : "zbox",
+      vlan: idx === 0 ? null : cidrToVlanId(net.cidr),
+    })),
+    components: sortByIp(zpod.components ?? []).map((c) => ({
+      hostname: c.hostname,
+      fqdn: c.fqdn,
+      ip: c.ip,
+      component: c.component.component_uid,
+      status: c.status,
+      credentials: (c.usernames ?? []).map((u) => ({
+        username: u.username,
+        type: u.type,
+        url: u.type === "ssh" ? (c.fqdn ? `ssh ${u.username}@${c.fqdn}` : null) : webAccessUrl(u.type, c.fqdn),
+        ...(includePasswords ? { password: c.password ?? password ?? null } : {}),
+      })),
+    })),
+    dns: sortByIp(
+      dnsEntries.filter(
+        (e) => e.hostname !== "localhost" && !(e.hostname.includes(".") && e.hostname.startsWith("zbox"))
+      )
+    ).map((e) => ({
+      hostname: e.hostname,
+      ip: e.ip,
+      fqdn: e.hostname.includes(".") ? e.hostname : `${e.hostname}.${zpod.domain}`,
+    })),
+  }
+}
+
+// --- Renderers ---
+
+function mdCell(value: string | number | null | undefined): string {
+  if (value == null || value === "") return "—"
+  return String(value).replace(/\|/g, "\\|")
+}
+
+function mdTable(headers: string[], rows: (string | number | null | undefined)[][]): string {
+  return [
+    `| ${headers.join(" | ")} |`,
+    `| ${headers.map(() => "---").join(" | ")} |`,
+    ...rows.map((r) => `| ${r.map(mdCell).join(" | ")} |`),
+  ].join("\n")
+}
+
+export function sheetToMarkdown(sheet: ConnectionSheet): string {
+  const withPasswords = sheet.password !== undefined
+  const lines: string[] = [
+    `# zPod ${sheet.name}`,
+    "",
+    `- **Domain:** ${sheet.domain}`,
+    `- **DNS server:** ${sheet.dns_server ?? "—"} (zbox)`,
+    `- **Profile:** ${sheet.profile}`,
+    `- **Endpoint:** ${sheet.endpoint ?? "—"}`,
+  ]
+  if (withPasswords) lines.push(`- **Password:** \`${sheet.password ?? "—"}\``)
+
+  lines.push("", "## Components", "")
+  const accessHeaders = ["Hostname", "FQDN", "IP", "Component", "Username", "Access"]
+  if (withPasswords) accessHeaders.push("Password")
+  lines.push(
+    mdTable(
+      accessHeaders,
+      sheet.components.flatMap((c) => {
+        const creds: (SheetCredential | null)[] = c.credentials.length > 0 ? c.credentials : [null]
+        return creds.map((cred) => {
+          const row = [c.hostname, c.fqdn, c.ip, c.component, cred?.username, cred?.url]
+          if (withPasswords) row.push(cred?.password)
+          return row
+        })
+      })
+    )
+  )
+
+  lines.push("", "## Networks", "")
+  lines.push(
+    mdTable(
+      ["CIDR", "Gateway", "Router", "VLAN"],
+      sheet.networks.map((n) => [n.cidr, n.gateway, n.router, n.vlan ?? "Untagged"])
+    )
+  )
+
+  if (sheet.dns.length > 0) {
+    lines.push("", "## DNS Entries", "")
+    lines.push(mdTable(["Hostname", "IP", "FQDN"], sheet.dns.map((d) => [d.hostname, d.ip, d.fqdn])))
+  }
+
+  return lines.join("\n") + "\n"
+}
+
+export function sheetToJson(sheet: ConnectionSheet): string {
+  return JSON.stringify(sheet, null, 2) + "\n"
+}
+
+function csvCell(value: string | number | null | undefined): string {
+  const s = value == null ? "" : String(value)
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s
+}
+
+/** One row per record, the `section` column tells components, networks and DNS apart */
+export function sheetToCsv(sheet: ConnectionSheet): string {
+  const withPasswords = sheet.password !== undefined
+  const headers = ["section", "hostname", "fqdn", "ip", "component", "username", "access", "gateway", "vlan"]
+  if (withPasswords) headers.push("password")
+
+  const rows: (string | number | null | undefined)[][] = []
+  for (const c of sheet.components) {
+    const creds: (SheetCredential | null)[] = c.credentials.length > 0 ? c.credentials : [null]
+    for (const cred of creds) {
+      const row = ["component", c.hostname, c.fqdn, c.ip, c.component, cred?.username, cred?.url, null, null]
+      if (withPasswords) row.push(cred?.password)
+      rows.push(row)
+    }
+  }
+  for (const n of sheet.networks) {
+    rows.push(["network", n.router, null, n.cidr, null, null, null, n.gateway, n.vlan ?? "untagged"])
+  }
+  for (const d of sheet.dns) {
+    rows.push(["dns", d.hostname, d.fqdn, d.ip, null, null, null, null, null])
+  }
+
+  return [headers, ...rows].map((r) => r.map(csvCell).join(",")).join("\n") + "\n"
+}
+
+export const SHEET_FORMATS: Record<SheetFormat, { label: string; extension: string; mime: string; render: (s: ConnectionSheet) => string }> = {
+  markdown: { label: "Markdown", extension: "md", mime: "text/markdown", render: sheetToMarkdown },
+  json: { label: "JSON", extension: "json", mime: "application/json", render: sheetToJson },
+  csv: { label: "CSV", extension: "csv", mime: "text/csv", render: sheetToCsv },
+}
+
+/** Render several sheets into one file (bulk export from the zPods table) */
+export function renderSheets(format: SheetFormat, sheets: ConnectionSheet[]): string {
+  switch (format) {
+    case "markdown":
+      return sheets.map(sheetToMarkdown).join("\n---\n\n")
+    case "json":
+      return JSON.stringify(sheets, null, 2) + "\n"
+    case "csv": {
+      // Same columns as a single sheet, prefixed with the zPod name
+      const lines = sheets.flatMap((sheet, i) =>
+        sheetToCsv(sheet)
+          .trimEnd()
+          .split("\n")
+          .map((line, j) => (j === 0 ? (i === 0 ? `zpod,${line}` : null) : `${csvCell(sheet.name)},${line}`))
+          .filter((line): line is string => line != null)
+      )
+      return lines.join("\n") + "\n"
+    }
+  }
+}
@@ -0,0 +1,106 @@
+import { cidrToNetworkIp } from "@/lib/cidr"
+import { addFootprints, EMPTY_FOOTPRINT, profileFootprint, type ComponentDefaults, type Footprint } from "@/lib/footprint"
+import type { Profile, Zpod } from "@/types"
+
+/**
+ * Capacity planning for an endpoint: zPod network slots left in its
+ * `networks` CIDR, datastore free space, and what the deployed zPods'
+ * profiles consume. Every zPod takes a /24, split into 4 x /26 segments.
+ */
+
+export interface NetworkCapacity {
+  /** /24 zPod slots in the endpoint CIDR */
+  totalSlots: number
+  usedSlots: number
+  freeSlots: number
+  /** /26 segments in the endpoint CIDR */
+  totalSegments: number
+  freeSegments: number
+}
+
+export interface DatastoreCapacity {
+  capacityGB: number
+  usedGB: number
+}
+
+export interface CapacityEstimate {
+  byNetwork: number
+  /** null until the datastore was queried or when the profile has no disk sizing */
+  byDatastore: number | null
+  fits: number
+}
+
+function parseCidr(cidr: string): { network: number; prefix: number } | null {
+  const m = cidr.trim().match(/^(\d+\.\d+\.\d+\.\d+)\/(\d+)$/)
+  if (!m) return null
+  const prefix = parseInt(m[2], 10)
+  if (prefix < 1 || prefix > 32) return null
+  return { network: cidrToNetworkIp(cidr.trim()), prefix }
+}
+
+function inRange(ip: number, network: number, prefix: number): boolean {
+  const mask = (~0 << (32 - prefix)) >>> 0
+  return ((ip & mask) >>> 0) === network
+}
+
+/** Slots used by zPods whose networks fall inside the endpoint CIDR, null when it is not a /24 or larger */
+export function networkCapacity(endpointCidr: string, zpods: Zpod[]): NetworkCapacity | null {
+  const range = parseCidr(endpointCidr)
+  if (!range || range.prefix > 24) return null
+
+  const usedBlocks = new Set<number>()
+  const usedSegments = new Set<number>()
+  for (const zpod of zpods) {
+    if (zpod.status === "DELETED") continue
+    for (const net of zpod.networks ?? []) {
+      const ip = cidrToNetworkIp(net.cidr)
+      if (!inRange(ip, range.network, range.prefix)) continue
+      usedBlocks.add((ip & 0xffffff00) >>> 0)
+      usedSegments.add((ip & 0xffffffc0) >>> 0)
+    }
+  }
+
+  const totalSlots = Math.pow(2, 24 - range.prefix)
+  const totalSegments = totalSlots * 4
+  return {
+    totalSlots,
+    usedSlots: usedBlocks.size,
+    freeSlots: Math.max(totalSlots - usedBlocks.size, 0),
+    totalSegments,
+    freeSegments: Math.max(totalSegments - usedSegments.size, 0),
+  }
+}
+
+/** Summed profile footprint of the given zPods, with the zPods whose profile is unknown */
+export function deployedFootprint(
+  zpods: Zpod[],
+  profiles: Profile[],
+  defaults?: ComponentDefaults
+): { footprint: Footprint; unknownProfiles: number } {
+  const byName = new Map(profiles.map((p) => [p.name, profileFootprint(p, defaults)]))
+  let footprint = EMPTY_FOOTPRINT
+  let unknownProfiles = 0
+  for (const zpod of zpods) {
+    if (zpod.status === "DELETED") continue
+    const f = byName.get(zpod.profile)
+    if (f) footprint = addFootprints(footprint, f)
+    else unknownProfiles++
+  }
+  return { footprint, unknownProfiles }
+}
+
+/** How many more zPods with the `perZpod` footprint the endpoint can take */
+export function estimateFit(
+  network: NetworkCapacity | null,
+  datastore: DatastoreCapacity | null,
+  perZpod: Footprint
+): CapacityEstimate {
+  const byNetwork = network?.freeSlots ?? 0
+  const freeGB = datastore ? Math.max(datastore.capacityGB - datastore.usedGB, 0) : null
+  const byDatastore = freeGB != null && perZpod.disk > 0 ? Math.floor(freeGB / perZpod.disk) : null
+  return {
+    byNetwork,
+    byDatastore,
+    fits: byDatastore != null ? Math.min(byNetwork, byDatastore) : byNetwork,
+  }
+}
@@ -0,0 +1,250 @@
+import { cidrContains, cidrPrefix, cidrsOverlap, cidrToNetworkIp, ipToString, parseEndpointNetworks } from "@/lib/cidr"
+import type { EndpointFull, EndpointUpdate, NsxInventory, VmFolderTreeItem, VsphereInventory, Zpod } from "@/types"
+
+/** The compute fields picked from the vCenter inventory */
+export interface VsphereSelection {
+  datacenter: string
+  resource_pool: string
+  storage_datastore: string
+  vmfolder: string
+  storage_policy: string
+  contentlibrary: string
+}
+
+/** The network fields picked from the NSX inventory */
+export interface NsxSelection {
+  transportzone: string
+  edgecluster: string
+  t0: string
+}
+
+export const EMPTY_VSPHERE_SELECTION: VsphereSelection = {
+  datacenter: "",
+  resource_pool: "",
+  storage_datastore: "",
+  vmfolder: "",
+  storage_policy: "",
+  contentlibrary: "",
+}
+
+export const EMPTY_NSX_SELECTION: NsxSelection = {
+  transportzone: "",
+  edgecluster: "",
+  t0: "",
+}
+
+export function findInFolderTree(folders: VmFolderTreeItem[], target: string): boolean {
+  for (const f of folders) {
+    if (f.name === target) return true
+    if (f.children && findInFolderTree(f.children, target)) return true
+  }
+  return false
+}
+
+/**
+ * Checks a selection against a freshly fetched inventory: values the
+ * vCenter still has (or that could not be looked up) are kept, others are
+ * cleared, and empty fields with a single candidate are picked.
+ */
+export function reconcileVsphereSelection(selection: VsphereSelection, inventory: VsphereInventory): VsphereSelection {
+  const keep = (value: string, found: boolean, only?: string) => (value && found ? value : only ?? "")
+  const single = <T>(items: T[], name: (item: T) => string) => (items.length === 1 ? name(items[0]) : undefined)
+  const singleFolder = inventory.vmFolders.length === 1 && inventory.vmFolders[0].children.length === 0
+    ? inventory.vmFolders[0].name
+    : undefined
+  return {
+    datacenter: keep(selection.datacenter, inventory.datacenters.includes(selection.datacenter), single(inventory.datacenters, (d) => d)),
+    resource_pool: keep(
+      selection.resource_pool,
+      inventory.resourcePools.some((r) => r.name === selection.resource_pool),
+      single(inventory.resourcePools, (r) => r.name)
+    ),
+    storage_datastore: keep(
+      selection.storage_datastore,
+      inventory.datastores.some((d) => d.name === selection.storage_datastore),
+      single(inventory.datastores, (d) => d.name)
+    ),
+    vmfolder: keep(selection.vmfolder, findInFolderTree(inventory.vmFolders, selection.vmfolder), singleFolder),
+    // A failed lookup proves nothing, keep the value
+    storage_policy: keep(
+      selection.storage_policy,
+      !!inventory.errors?.storagePolicies || inventory.storagePolicies.includes(selection.storage_policy)
+    ),
+    contentlibrary: keep(
+      selection.contentlibrary,
+      !!inventory.errors?.contentLibraries || inventory.contentLibraries.some((l) => l.name === selection.contentlibrary)
+    ),
+  }
+}
+
+/** Same as {@link reconcileVsphereSelection}, against an NSX inventory */
+export function reconcileNsxSelection(selection: NsxSelection, inventory: NsxInventory): NsxSelection {
+  const keep = (value: string, items: string[]) =>
+    value && items.includes(value) ? value : items.length === 1 ? items[0] : ""
+  return {
+    transportzone: keep(selection.transportzone, inventory.transportZones),
+    edgecluster: keep(selection.edgecluster, inventory.edgeClusters),
+    t0: keep(selection.t0, inventory.t0Gateways),
+  }
+}
+
+/** First free "<name>-N" among the existing endpoint names */
+export function cloneName(name: string, endpoints: EndpointFull[]): string {
+  const taken = new Set(endpoints.map((e) => e.name))
+  const base = name.replace(/-\d+$/, "")
+  for (let n = 2; ; n++) {
+    if (!taken.has(`${base}-${n}`)) return `${base}-${n}`
+  }
+}
+
+/** Endpoints whose `networks` share addresses with `networks` */
+export function overlappingEndpoints(networks: string, endpoints: EndpointFull[]): EndpointFull[] {
+  if (parseEndpointNetworks(networks)?.valid !== true) return []
+  return endpoints.filter(
+    (e) => parseEndpointNetworks(e.endpoints.network.networks)?.valid === true && cidrsOverlap(networks, e.endpoints.network.networks)
+  )
+}
+
+/**
+ * Next block of the same size as `networks`, after it and within the same
+ * first octet, that no endpoint uses yet. Null when the octet is exhausted.
+ */
+export function proposeCloneNetworks(networks: string, endpoints: EndpointFull[]): string | null {
+  if (parseEndpointNetworks(networks)?.valid !== true) return null
+  const prefix = parseInt(cidrPrefix(networks), 10)
+  const size = Math.pow(2, 32 - prefix)
+  const start = cidrToNetworkIp(networks)
+  const octetEnd = ((start >>> 24) + 1) * 0x1000000
+
+  for (let ip = start + size; ip + size <= octetEnd; ip += size) {
+    const candidate = `${ipToString(ip)}/${prefix}`
+    if (overlappingEndpoints(candidate, endpoints).length === 0) return candidate
+  }
+  return null
+}
+
+/** Everything the edit dialog can change on an endpoint; empty passwords are left as is */
+export interface EndpointDraft {
+  description: string
+  compute: VsphereSelection & { password: string }
+  network: NsxSelection & { networks: string; password: string }
+}
+
+export function draftFromEndpoint(endpoint: EndpointFull): EndpointDraft {
+  const { compute, network } = endpoint.endpoints
+  return {
+    description: endpoint.description ?? "",
+    compute: {
+      datacenter: compute.datacenter,
+      resource_pool: compute.resource_pool,
+      storage_datastore: compute.storage_datastore,
+      vmfolder: compute.vmfolder,
+      storage_policy: compute.storage_policy ?? "",
+      contentlibrary: compute.contentlibrary ?? "",
+      password: "",
+    },
+    network: {
+      networks: network.networks,
+      transportzone: network.transportzone,
+      edgecluster: network.edgecluster,
+      t0: network.t0,
+      password: "",
+    },
+  }
+}
+
+export interface EndpointChange {
+  section: "endpoint" | "compute" | "network"
+  field: string
+  label: string
+  before: string
+  after: string
+  /** Passwords: only the fact that they change is shown */
+  secret?: boolean
+}
+
+const COMPUTE_LABELS: Record<keyof EndpointDraft["compute"], string> = {
+  datacenter: "Datacenter",
+  resource_pool: "Resource Pool",
+  storage_datastore: "Datastore",
+  vmfolder: "VM Folder",
+  storage_policy: "Storage Policy",
+  contentlibrary: "Content Library",
+  password: "Password",
+}
+
+const NETWORK_LABELS: Record<keyof EndpointDraft["network"], string> = {
+  networks: "Networks",
+  transportzone: "Transport Zone",
+  edgecluster: "Edge Cluster",
+  t0: "T0 Gateway",
+  password: "Password",
+}
+
+function sectionChanges<T extends { [K in keyof T]: string }>(
+  section: EndpointChange["section"],
+  labels: Record<keyof T, string>,
+  before: T,
+  after: T
+): EndpointChange[] {
+  const changes: EndpointChange[] = []
+  for (const field of Object.keys(labels) as (keyof T & string)[]) {
+    if (field === "password") {
+      if (after[field]) changes.push({ section, field, label: labels[field], before: "", after: "", secret: true })
+    } else if (before[field] !== after[field]) {
+      changes.push({ section, field, label: labels[field], before: before[field], after: after[field] })
+    }
+  }
+  return changes
+}
+
+/** Fields of the draft that differ from the endpoint, in display order */
+export function diffEndpoint(endpoint: EndpointFull, draft: EndpointDraft): EndpointChange[] {
+  const original = draftFromEndpoint(endpoint)
+  const changes: EndpointChange[] = []
+  if (original.description !== draft.description) {
+    changes.push({
+      section: "endpoint",
+      field: "description",
+      label: "Description",
+      before: original.description,
+      after: draft.description,
+    })
+  }
+  return [
+    ...changes,
+    ...sectionChanges("compute", COMPUTE_LABELS, original.compute, draft.compute),
+    ...sectionChanges("network", NETWORK_LABELS, original.network, draft.network),
+  ]
+}
+
+/** PATCH payload carrying only the changed fields */
+export function toEndpointUpdate(draft: EndpointDraft, changes: EndpointChange[]): EndpointUpdate {
+  const update: EndpointUpdate = {}
+  for (const c of changes) {
+    if (c.section === "endpoint") {
+      update.description = draft.description
+      continue
+    }
+    const endpoints = (update.endpoints ??= {})
+    if (c.section === "compute") {
+      const field = c.field as keyof EndpointDraft["compute"]
+      endpoints.compute = { ...endpoints.compute, [field]: draft.compute[field] }
+    } else {
+      const field = c.field as keyof EndpointDraft["network"]
+      endpoints.network = { ...endpoints.network, [field]: draft.network[field] }
+    }
+  }
+  return update
+}
+
+/** zPods with a subnet outside `networks`: changing the endpoint CIDR would strand them */
+export function strandedZpods(networks: string, zpods: Zpod[]): { zpod: Zpod; cidrs: string[] }[] {
+  return zpods
+    .filter((z) => z.status !== "DELETED")
+    .map((zpod) => ({
+      zpod,
+      cidrs: (zpod.networks ?? []).map((n) => n.cidr).filter((cidr) => !cidrContains(networks, cidr)),
+    }))
+    .filter((s) => s.cidrs.length > 0)
+}
@@ -0,0 +1,45 @@
+import type { EndpointFull, EndpointHealthHistory, EndpointHealthReport, EndpointHealthSample } from "@/types"
+
+/**
+ * Reading the server's endpoint health history: which entry belongs to an
+ * endpoint, the status of a sample and the series drawn as sparklines.
+ */
+
+export type EndpointHealthStatus = "healthy" | "degraded" | "down" | "pending"
+
+/** Datastore usage from which an endpoint is reported degraded */
+export const DATASTORE_FULL_PERCENT = 90
+
+/** Monitor entries are matched by endpoint name, the report carries no hostnames */
+export function healthForEndpoint(
+  report: EndpointHealthReport | undefined,
+  endpoint: EndpointFull
+): EndpointHealthHistory | undefined {
+  return report?.endpoints.find((h) => h.name === endpoint.name)
+}
+
+export function datastoreUsagePercent(sample: EndpointHealthSample): number | null {
+  const ds = sample.vsphere.datastore
+  if (!ds?.ok || !ds.capacityGB) return null
+  return Math.round(((ds.usedGB ?? 0) / ds.capacityGB) * 100)
+}
+
+/** Down when a host is unreachable, degraded when a configured object is missing or the datastore is nearly full */
+export function sampleStatus(sample: EndpointHealthSample | undefined): EndpointHealthStatus {
+  if (!sample) return "pending"
+  if (!sample.vsphere.ok || !sample.nsx.ok) return "down"
+  const checks = [sample.vsphere.datastore, sample.nsx.edgecluster, sample.nsx.t0]
+  if (checks.some((c) => c && !c.ok)) return "degraded"
+  const usage = datastoreUsagePercent(sample)
+  if (usage != null && usage >= DATASTORE_FULL_PERCENT) return "degraded"
+  return "healthy"
+}
+
+/** Per-sample values, null where the check failed so the sparkline shows a gap */
+export function healthSeries(samples: EndpointHealthSample[]) {
+  return {
+    vsphereLatency: samples.map((s) => s.vsphere.latencyMs),
+    nsxLatency: samples.map((s) => s.nsx.latencyMs),
+    datastoreUsage: samples.map(datastoreUsagePercent),
+  }
+}
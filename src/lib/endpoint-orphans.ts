@@ -0,0 +1,129 @@
+import { ensureUtc } from "@/lib/utils"
+import type { NsxZpodObjects, VsphereZpodObjects, Zpod } from "@/types"
+
+/**
+ * Orphaned endpoint objects: Tier-1 gateways, segments, VM folders and VMs
+ * named after a zPod (`zPod-<name>-tier1`, `zPod-<name>-segment`,
+ * `zPod-<name>`, `zPod-<name>-<host>`) that the factory no longer lists, or
+ * lists as DESTROY_FAILED.
+ */
+
+export type OrphanKind = "tier1" | "segment" | "folder" | "vm"
+
+export const ORPHAN_KIND_LABELS: Record<OrphanKind, string> = {
+  tier1: "Tier-1",
+  segment: "Segment",
+  folder: "VM Folder",
+  vm: "VM",
+}
+
+const KIND_ORDER: OrphanKind[] = ["tier1", "segment", "folder", "vm"]
+
+export interface OrphanedObject<Z extends Zpod = Zpod> {
+  kind: OrphanKind
+  name: string
+  /** NSX policy path, or the vCenter folder path */
+  location: string
+  /** zPod the object is named after */
+  zpodName: string
+  /** The zPod when the factory still lists it (destroy failed), null when it is gone */
+  zpod: Z | null
+  createdAt: string | null
+  /** VMs left inside an orphaned folder */
+  vmCount?: number
+}
+
+const ZPOD_PREFIX = "zPod-"
+const TIER1_RE = /^zPod-(.+)-tier1$/
+const SEGMENT_RE = /^zPod-(.+)-segment$/
+const FOLDER_RE = /^zPod-(.+)$/
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * The zPod a VM belongs to: its `zPod-<name>` folder, else the longest
+ * known zPod name prefixing it, else everything before the last dash.
+ */
+function vmZpodName(name: string, folder: string, knownNames: string[]): string {
+  const folderMatch = folder.split("/").at(-1)?.match(FOLDER_RE)
+  if (folderMatch) return folderMatch[1]
+  const known = knownNames
+    .filter((n) => name.startsWith(`${ZPOD_PREFIX}${n}-`))
+    .sort((a, b) => b.length - a.length)[0]
+  if (known) return known
+  return name.slice(ZPOD_PREFIX.length).replace(/-[^-]*$/, "")
+}
+
+/**
+ * `zpods` may span several factories (all-factories mode): a name is live
+ * when any of them has a live zPod by that name.
+ */
+export function findOrphans<Z extends Zpod>(
+  zpods: Z[],
+  nsxObjects: NsxZpodObjects | null,
+  vsphereObjects: VsphereZpodObjects | null
+): OrphanedObject<Z>[] {
+  const listed = zpods.filter((z) => z.status !== "DELETED")
+  const liveNames = new Set(listed.filter((z) => z.status !== "DESTROY_FAILED").map((z) => z.name))
+  const byName = new Map(listed.filter((z) => !liveNames.has(z.name)).map((z) => [z.name, z]))
+  const isLive = (name: string) => liveNames.has(name)
+
+  const orphans: OrphanedObject<Z>[] = []
+  const add = (o: Omit<OrphanedObject<Z>, "zpod">) => {
+    if (!isLive(o.zpodName)) orphans.push({ ...o, zpod: byName.get(o.zpodName) ?? null })
+  }
+
+  for (const t1 of nsxObjects?.tier1s ?? []) {
+    const m = t1.name.match(TIER1_RE)
+    if (m) add({ kind: "tier1", name: t1.name, location: t1.path, zpodName: m[1], createdAt: t1.createdAt })
+  }
+  for (const seg of nsxObjects?.segments ?? []) {
+    const m = seg.name.match(SEGMENT_RE)
+    if (m) add({ kind: "segment", name: seg.name, location: seg.path, zpodName: m[1], createdAt: seg.createdAt })
+  }
+
+  const orphanedFolders = new Set<string>()
+  for (const folder of vsphereObjects?.folders ?? []) {
+    const m = folder.name.match(FOLDER_RE)
+    if (!m || isLive(m[1])) continue
+    orphanedFolders.add(folder.path)
+    add({
+      kind: "folder",
+      name: folder.name,
+      location: folder.path,
+      zpodName: m[1],
+      createdAt: folder.createdAt,
+      vmCount: folder.vmCount,
+    })
+  }
+
+  const knownNames = [...liveNames, ...byName.keys()]
+  for (const vm of vsphereObjects?.vms ?? []) {
+    // Already counted with their orphaned folder
+    if ([...orphanedFolders].some((p) => vm.folder === p || vm.folder.startsWith(`${p}/`))) continue
+    add({
+      kind: "vm",
+      name: vm.name,
+      location: vm.folder,
+      zpodName: vmZpodName(vm.name, vm.folder, knownNames),
+      createdAt: vm.createdAt,
+    })
+  }
+
+  return orphans.sort(
+    (a, b) =>
+      a.zpodName.localeCompare(b.zpodName) ||
+      KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) ||
+      a.name.localeCompare(b.name)
+  )
+}
+
+/** "12d", "5h", "40m" since the object was created */
+export function formatAge(createdAt: string, now = Date.now()): string {
+  const diff = Math.max(now - ensureUtc(createdAt).getTime(), 0)
+  const d = Math.floor(diff / DAY_MS)
+  if (d > 0) return `${d}d`
+  const h = Math.floor(diff / 3600000)
+  if (h > 0) return `${h}h`
+  return `${Math.floor(diff / 60000)}m`
+}
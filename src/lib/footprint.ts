@@ -0,0 +1,131 @@
+import { flattenProfileItems } from "@/lib/profile-utils"
+import type { Profile } from "@/types"
+
+/** Resources a profile item or a set of them asks for (memory and disk in GB) */
+export interface Footprint {
+  vcpu: number
+  vmem: number
+  disk: number
+  nics: number
+  /** Items with neither explicit nor default sizing, not counted in the totals */
+  unsized: number
+}
+
+/** Default sizing of a component, read from its library JSON */
+export interface ComponentSizing {
+  vcpu?: number
+  vmem?: number
+  vnics?: number
+  vdisks?: number[]
+}
+
+/** Sizing fields shared by ProfileItem, ProfileItemCreate and the profile editor */
+export interface SizedItem {
+  component_uid: string
+  vcpu?: number | null
+  vmem?: number | null
+  vnics?: number | null
+  vdisks?: number[] | null
+}
+
+export type ComponentDefaults = Map<string, ComponentSizing>
+
+export const EMPTY_FOOTPRINT: Footprint = { vcpu: 0, vmem: 0, disk: 0, nics: 0, unsized: 0 }
+
+/** Explicit values win, null ones fall back to the component defaults */
+export function itemFootprint(item: SizedItem, defaults?: ComponentDefaults): Footprint {
+  const d = defaults?.get(item.component_uid)
+  const vcpu = item.vcpu ?? d?.vcpu
+  const vmem = item.vmem ?? d?.vmem
+  const vdisks = item.vdisks ?? d?.vdisks
+  const sized = vcpu != null || vmem != null || vdisks != null
+  return {
+    vcpu: vcpu ?? 0,
+    vmem: vmem ?? 0,
+    disk: (vdisks ?? []).reduce((sum, size) => sum + size, 0),
+    nics: item.vnics ?? d?.vnics ?? 0,
+    unsized: sized ? 0 : 1,
+  }
+}
+
+export function addFootprints(a: Footprint, b: Footprint): Footprint {
+  return {
+    vcpu: a.vcpu + b.vcpu,
+    vmem: a.vmem + b.vmem,
+    disk: a.disk + b.disk,
+    nics: a.nics + b.nics,
+    unsized: a.unsized + b.unsized,
+  }
+}
+
+export function scaleFootprint(f: Footprint, n: number): Footprint {
+  return { vcpu: f.vcpu * n, vmem: f.vmem * n, disk: f.disk * n, nics: f.nics * n, unsized: f.unsized * n }
+}
+
+export function sumFootprints(items: SizedItem[], defaults?: ComponentDefaults): Footprint {
+  return items.map((item) => itemFootprint(item, defaults)).reduce(addFootprints, EMPTY_FOOTPRINT)
+}
+
+export function profileFootprint(profile: Profile, defaults?: ComponentDefaults): Footprint {
+  return sumFootprints(flattenProfileItems(profile.profile), defaults)
+}
+
+// --- Library JSON defaults ---
+
+function toNumber(value: unknown): number | undefined {
+  const n = typeof value === "string" ? parseFloat(value) : value
+  return typeof n === "number" && Number.isFinite(n) && n >= 0 ? n : undefined
+}
+
+/** `vcpu`, `component_vcpu`, … at the top level or one object deep */
+function findKey(json: Record<string, unknown>, name: string): unknown {
+  for (const key of [name, `component_${name}`]) {
+    if (key in json) return json[key]
+  }
+  for (const value of Object.values(json)) {
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+      const nested = value as Record<string, unknown>
+      for (const key of [name, `component_${name}`]) {
+        if (key in nested) return nested[key]
+      }
+    }
+  }
+  return undefined
+}
+
+/** Sizing defaults found in a component's library JSON, empty when it has none */
+export function parseComponentSizing(json: unknown): ComponentSizing {
+  if (!json || typeof json !== "object" || Array.isArray(json)) return {}
+  const obj = json as Record<string, unknown>
+  const sizing: ComponentSizing = {}
+  const vcpu = toNumber(findKey(obj, "vcpu"))
+  const vmem = toNumber(findKey(obj, "vmem"))
+  const vnics = toNumber(findKey(obj, "vnics"))
+  const rawDisks = findKey(obj, "vdisks")
+  if (vcpu != null) sizing.vcpu = vcpu
+  if (vmem != null) sizing.vmem = vmem
+  if (vnics != null) sizing.vnics = vnics
+  if (Array.isArray(rawDisks)) {
+    const disks = rawDisks.map(toNumber).filter((n): n is number => n != null)
+    if (disks.length > 0) sizing.vdisks = disks
+  }
+  return sizing
+}
+
+/**
+ * Raw URL of a component JSON in its library repository. `jsonfile` is the
+ * path on the factory, where libraries are cloned under their name.
+ * Only GitHub and GitLab style hosts are supported.
+ */
+export function componentJsonUrl(jsonfile: string, libraryName: string, gitUrl: string): string | null {
+  const marker = `/${libraryName}/`
+  const idx = jsonfile.indexOf(marker)
+  if (idx === -1) return null
+  const path = jsonfile.slice(idx + marker.length)
+
+  const repo = gitUrl.trim().replace(/\.git$/, "").replace(/\/$/, "")
+  const github = repo.match(/^https?:\/\/github\.com\/([^/]+\/[^/]+)$/)
+  if (github) return `https://raw.githubusercontent.com/${github[1]}/HEAD/${path}`
+  if (/^https?:\/\/[^/]*gitlab[^/]*\//.test(repo)) return `${repo}/-/raw/HEAD/${path}`
+  return null
+}
@@ -0,0 +1,77 @@
+import type { ComponentFull } from "@/types"
+
+/** The fields of a component a library sync can change */
+export interface ComponentSnapshot {
+  component_uid: string
+  component_name: string
+  component_version: string
+  file_checksum: string
+  status: string
+}
+
+export interface ComponentChange {
+  before: ComponentSnapshot
+  after: ComponentSnapshot
+  fields: ("version" | "checksum")[]
+}
+
+export interface LibrarySyncReport {
+  added: ComponentSnapshot[]
+  removed: ComponentSnapshot[]
+  changed: ComponentChange[]
+  unchanged: number
+}
+
+/** Components of one library, reduced to what the report compares */
+export function snapshotComponents(components: ComponentFull[], libraryName: string): ComponentSnapshot[] {
+  return components
+    .filter((c) => c.library_name === libraryName)
+    .map(({ component_uid, component_name, component_version, file_checksum, status }) => ({
+      component_uid,
+      component_name,
+      component_version,
+      file_checksum,
+      status,
+    }))
+}
+
+const byUid = (a: ComponentSnapshot, b: ComponentSnapshot) =>
+  a.component_uid.localeCompare(b.component_uid, undefined, { numeric: true })
+
+/** Components are matched by uid, their identity on the factory */
+export function diffLibrarySync(before: ComponentSnapshot[], after: ComponentSnapshot[]): LibrarySyncReport {
+  const previous = new Map(before.map((c) => [c.component_uid, c]))
+  const current = new Map(after.map((c) => [c.component_uid, c]))
+  const report: LibrarySyncReport = { added: [], removed: [], changed: [], unchanged: 0 }
+
+  for (const c of after) {
+    const old = previous.get(c.component_uid)
+    if (!old) {
+      report.added.push(c)
+      continue
+    }
+    const fields: ComponentChange["fields"] = []
+    if (old.component_version !== c.component_version) fields.push("version")
+    if (old.file_checksum !== c.file_checksum) fields.push("checksum")
+    if (fields.length > 0) report.changed.push({ before: old, after: c, fields })
+    else report.unchanged++
+  }
+  for (const c of before) {
+    if (!current.has(c.component_uid)) report.removed.push(c)
+  }
+
+  report.added.sort(byUid)
+  report.removed.sort(byUid)
+  report.changed.sort((a, b) => byUid(a.after, b.after))
+  return report
+}
+
+/** One-line summary for toasts, e.g. "2 added, 1 changed" */
+export function summarizeSyncReport(report: LibrarySyncReport): string {
+  const parts = [
+    report.added.length > 0 && `${report.added.length} added`,
+    report.removed.length > 0 && `${report.removed.length} removed`,
+    report.changed.length > 0 && `${report.changed.length} changed`,
+  ].filter(Boolean)
+  return parts.length > 0 ? parts.join(", ") : "no component changes"
+}
@@ -0,0 +1,36 @@
+import type { Library } from "@/types"
+
+/** Library names become directories on the factory, keep them path-safe */
+const NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.-]*$/
+
+const HTTP_REPO = /^https?:\/\/[^/\s]+(\/[^/\s]+){2,}\/?$/
+const SSH_REPO = /^[\w.-]+@[\w.-]+:[^\s]+\/[^\s]+$/
+
+/** Comparable form of a repository URL (no scheme case, trailing slash or .git) */
+export function normalizeGitUrl(url: string): string {
+  return url.trim().replace(/\/+$/, "").replace(/\.git$/, "").toLowerCase()
+}
+
+/** Why a library name is invalid, null when it is fine */
+export function validateLibraryName(name: string, libraries: Library[], editing: Library | null): string | null {
+  const value = name.trim()
+  if (!value) return "Name is required"
+  if (!NAME_PATTERN.test(value)) return "Use letters, digits, '.', '-' and '_' only"
+  if (libraries.some((l) => l.id !== editing?.id && l.name.toLowerCase() === value.toLowerCase())) {
+    return `A library named "${value}" already exists`
+  }
+  return null
+}
+
+/** Why a git URL is invalid, null when it is fine */
+export function validateGitUrl(url: string, libraries: Library[], editing: Library | null): string | null {
+  const value = url.trim()
+  if (!value) return "Git URL is required"
+  if (!HTTP_REPO.test(value) && !SSH_REPO.test(value)) {
+    return "Expected https://host/owner/repo(.git) or git@host:owner/repo.git"
+  }
+  const normalized = normalizeGitUrl(value)
+  const duplicate = libraries.find((l) => l.id !== editing?.id && normalizeGitUrl(l.git_url) === normalized)
+  if (duplicate) return `Already registered as "${duplicate.name}"`
+  return null
+}
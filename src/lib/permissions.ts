@@ -0,0 +1,95 @@
+import type { User, Zpod, ZpodPermission } from "@/types"
+
+/**
+ * What the current user may do, derived from `User.superadmin` and the
+ * zPod's permission list. The API stays the authority: this only decides
+ * which actions the UI offers and explains why the others are unavailable.
+ */
+
+/** Factory-wide actions, reserved to superadmins */
+export type GlobalAction =
+  | "endpoint:manage"
+  | "setting:manage"
+  | "component:manage"
+  | "library:manage"
+  | "profile:manage"
+  | "user:manage"
+
+/** Actions on one zPod, also granted by its permissions */
+export type ZpodAction =
+  | "zpod:modify" // components, DNS entries, lease
+  | "zpod:destroy"
+  | "zpod:permissions"
+
+export type ZpodRole = ZpodPermission
+
+export interface PermissionCheck {
+  allowed: boolean
+  reason?: string // why the action is unavailable, for tooltips
+}
+
+const ALLOWED: PermissionCheck = { allowed: true }
+
+const GLOBAL_REASONS: Record<GlobalAction, string> = {
+  "endpoint:manage": "Only superadmins can manage endpoints",
+  "setting:manage": "Only superadmins can change factory settings",
+  "component:manage": "Only superadmins can manage components",
+  "library:manage": "Only superadmins can manage libraries",
+  "profile:manage": "Only superadmins can manage profiles",
+  "user:manage": "Only superadmins can manage users",
+}
+
+/** Roles allowed per zPod action, superadmins can always act */
+const ZPOD_ROLES: Record<ZpodAction, { roles: ZpodRole[]; reason: string }> = {
+  "zpod:modify": { roles: ["OWNER", "ADMIN"], reason: "Only owners and admins of this zPod can change it" },
+  "zpod:destroy": { roles: ["OWNER"], reason: "Only owners of this zPod can destroy it" },
+  "zpod:permissions": { roles: ["OWNER"], reason: "Only owners of this zPod can manage its permissions" },
+}
+
+const ROLE_RANK: Record<ZpodRole, number> = { OWNER: 3, ADMIN: 2, USER: 1 }
+
+/** Highest role the user holds on a zPod, null when not listed */
+export function zpodRole(zpod: Pick<Zpod, "permissions">, user: Pick<User, "id"> | null): ZpodRole | null {
+  if (!user) return null
+  let best: ZpodRole | null = null
+  for (const p of zpod.permissions ?? []) {
+    const role = p.permission as ZpodRole
+    if (!(role in ROLE_RANK) || !p.users.some((u) => u.id === user.id)) continue
+    if (!best || ROLE_RANK[role] > ROLE_RANK[best]) best = role
+  }
+  return best
+}
+
+export function checkPermission(user: User | null, action: GlobalAction): PermissionCheck
+export function checkPermission(user: User | null, action: ZpodAction, zpod: Pick<Zpod, "permissions">): PermissionCheck
+export function checkPermission(
+  user: User | null,
+  action: GlobalAction | ZpodAction,
+  zpod?: Pick<Zpod, "permissions">
+): PermissionCheck {
+  if (user?.superadmin) return ALLOWED
+  if (action in GLOBAL_REASONS) return { allowed: false, reason: GLOBAL_REASONS[action as GlobalAction] }
+
+  const rule = ZPOD_ROLES[action as ZpodAction]
+  const role = zpod ? zpodRole(zpod, user) : null
+  return role && rule.roles.includes(role) ? ALLOWED : { allowed: false, reason: rule.reason }
+}
+
+/** Users holding a permission on a zPod, deduplicated by id */
+export function permissionUsers(zpod: Pick<Zpod, "permissions">, permission: ZpodPermission): User[] {
+  const users = new Map<number, User>()
+  for (const p of zpod.permissions ?? []) {
+    if (p.permission !== permission) continue
+    for (const u of p.users) users.set(u.id, u)
+  }
+  return [...users.values()]
+}
+
+/** Revoking must never leave a zPod without an owner */
+export function checkRevoke(zpod: Pick<Zpod, "permissions">, permission: ZpodPermission, userId: number): PermissionCheck {
+  if (permission !== "OWNER") return ALLOWED
+  const others = permissionUsers(zpod, "OWNER").filter((u) => u.id !== userId)
+  return others.length > 0
+    ? ALLOWED
+    : { allowed: false, reason: "A zPod needs at least one owner, grant OWNER to someone else first" }
+}
@@ -0,0 +1,150 @@
+import { useAuthStore } from "@/stores/auth-store"
+
+/**
+ * Keyed response cache shared by every page and hook.
+ *
+ * - Concurrent fetches of the same key share one in-flight request.
+ * - A response younger than `staleTime` is served without a new request,
+ *   so components polling on the same tick only hit the API once.
+ * - Older data stays readable while a revalidation runs (stale-while-revalidate).
+ */
+
+export interface QueryEntry<T = unknown> {
+  data: T | undefined
+  error: unknown
+  updatedAt: number // ms epoch of the last successful response, 0 = stale
+  fetcher?: () => Promise<T>
+}
+
+/** Responses younger than this are shared instead of re-fetched */
+export const DEFAULT_STALE_TIME = 1000
+
+const entries = new Map<string, QueryEntry>()
+const inflight = new Map<string, Promise<unknown>>()
+const listeners = new Map<string, Set<() => void>>()
+let generation = 0 // bumped on clear so late responses are dropped
+// Per-key request counter: only the latest request of a key may write its response
+const requestIds = new Map<string, number>()
+
+function nextRequestId(key: string): number {
+  const id = (requestIds.get(key) ?? 0) + 1
+  requestIds.set(key, id)
+  return id
+}
+
+/** Build a cache key scoped to a target, e.g. queryKey(targetId, "zpods", 12) */
+export function queryKey(targetId: string | null, ...parts: (string | number)[]): string {
+  return [targetId ?? "none", ...parts].join(":")
+}
+
+function notify(key: string) {
+  listeners.get(key)?.forEach((fn) => fn())
+}
+
+function setEntry<T>(key: string, patch: Partial<QueryEntry<T>>) {
+  const prev = entries.get(key) as QueryEntry<T> | undefined
+  entries.set(key, {
+    data: prev?.data,
+    error: prev?.error,
+    updatedAt: prev?.updatedAt ?? 0,
+    fetcher: prev?.fetcher,
+    ...patch,
+  })
+  notify(key)
+}
+
+export function getQueryEntry<T>(key: string): QueryEntry<T> | undefined {
+  return entries.get(key) as QueryEntry<T> | undefined
+}
+
+export function subscribeQuery(key: string, listener: () => void): () => void {
+  let set = listeners.get(key)
+  if (!set) {
+    set = new Set()
+    listeners.set(key, set)
+  }
+  set.add(listener)
+  return () => {
+    set.delete(listener)
+    if (set.size === 0) listeners.delete(key)
+  }
+}
+
+export function fetchQuery<T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  staleTime = DEFAULT_STALE_TIME
+): Promise<T> {
+  const pending = inflight.get(key) as Promise<T> | undefined
+  if (pending) return pending
+
+  const entry = entries.get(key) as QueryEntry<T> | undefined
+  if (entry && entry.data !== undefined && Date.now() - entry.updatedAt < staleTime) {
+    return Promise.resolve(entry.data)
+  }
+
+  const gen = generation
+  const id = nextRequestId(key)
+  // A request superseded by a newer one or an invalidation holds older data
+  const isLatest = () => gen === generation && requestIds.get(key) === id
+  const promise = fetcher()
+    .then((data) => {
+      if (isLatest()) {
+        setEntry<T>(key, { data, error: undefined, updatedAt: Date.now(), fetcher })
+      }
+      return data
+    })
+    .catch((error: unknown) => {
+      // Keep the last good data so consumers can keep rendering it
+      if (isLatest()) setEntry<T>(key, { error, fetcher })
+      throw error
+    })
+    .finally(() => {
+      if (inflight.get(key) === promise) inflight.delete(key)
+    })
+
+  inflight.set(key, promise)
+  return promise
+}
+
+/** Replace or transform cached data locally without a request */
+export function setQueryData<T>(key: string, updater: T | ((prev: T | undefined) => T)) {
+  const prev = getQueryEntry<T>(key)?.data
+  const data = typeof updater === "function"
+    ? (updater as (prev: T | undefined) => T)(prev)
+    : updater
+  // A request already in flight started before this data and must not overwrite it
+  if (inflight.has(key)) nextRequestId(key)
+  setEntry<T>(key, { data, error: undefined, updatedAt: Date.now() })
+}
+
+/**
+ * Mark every key starting with `prefix` as stale.
+ * Keys with mounted subscribers are revalidated immediately.
+ */
+export function invalidateQueries(prefix: string) {
+  for (const [key, entry] of entries) {
+    if (!key.startsWith(prefix)) continue
+    // A request started before the mutation may carry outdated data
+    inflight.delete(key)
+    nextRequestId(key)
+    entries.set(key, { ...entry, updatedAt: 0 })
+    if (entry.fetcher && listeners.has(key)) {
+      fetchQuery(key, entry.fetcher).catch(() => {})
+    }
+  }
+}
+
+export function clearQueryCache() {
+  const keys = [...entries.keys()]
+  generation++
+  entries.clear()
+  inflight.clear()
+  requestIds.clear()
+  keys.forEach(notify)
+}
+
+// Never show one user's data to the next one
+useAuthStore.subscribe((state, prev) => {
+  if (prev.isAuthenticated && !state.isAuthenticated) clearQueryCache()
+})
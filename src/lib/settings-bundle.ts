@@ -0,0 +1,152 @@
+import { createVaultKey, openVault, sealTokens, type TokenMap, type VaultBlob } from "@/lib/token-vault"
+import type { NotificationPrefs } from "@/stores/preferences-store"
+import type { TargetProfile } from "@/types"
+
+/**
+ * Portable JSON bundle of saved targets, UI preferences and per-user column
+ * prefs, to move a zpodweb setup to another browser. Tokens are optional and
+ * always encrypted with an export passphrase (same scheme as the token vault).
+ */
+
+export const BUNDLE_FORMAT = "zpodweb-settings"
+
+export interface BundleTarget {
+  id: string
+  name: string
+  url: string
+  lastConnected?: string
+}
+
+export interface BundlePreferences {
+  pollingInterval?: number // absent when the export held no usable value
+  notifications: Record<string, Partial<NotificationPrefs>>
+}
+
+export interface SettingsBundle {
+  format: typeof BUNDLE_FORMAT
+  version: 1
+  exportedAt: string
+  targets: BundleTarget[]
+  tokens?: VaultBlob // encrypted map of bundle target id -> token
+  preferences: BundlePreferences
+  columns: Record<string, Record<string, boolean>> // username -> column -> visible
+}
+
+export async function buildBundle(
+  targets: TargetProfile[],
+  preferences: BundlePreferences,
+  columns: SettingsBundle["columns"],
+  tokenPassphrase: string | null
+): Promise<SettingsBundle> {
+  const bundle: SettingsBundle = {
+    format: BUNDLE_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    targets: targets.map(({ id, name, url, lastConnected }) => ({ id, name, url, lastConnected })),
+    preferences,
+    columns,
+  }
+  if (tokenPassphrase) {
+    const tokens = Object.fromEntries(targets.filter((t) => t.token).map((t) => [t.id, t.token]))
+    bundle.tokens = await sealTokens(await createVaultKey(tokenPassphrase), tokens)
+  }
+  return bundle
+}
+
+/** Parse and validate an exported bundle, throws with a readable message */
+export function parseBundle(json: string): SettingsBundle {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(json)
+  } catch {
+    throw new Error("Invalid JSON syntax")
+  }
+  const obj = parsed as Partial<SettingsBundle> | null
+  if (!obj || typeof obj !== "object" || obj.format !== BUNDLE_FORMAT) {
+    throw new Error("Not a zpodweb settings export")
+  }
+  if (obj.version !== 1) throw new Error(`Unsupported export version ${String(obj.version)}`)
+  if (!Array.isArray(obj.targets) || obj.targets.some((t) => typeof t?.url !== "string" || typeof t?.name !== "string")) {
+    throw new Error("Missing or invalid \"targets\" list")
+  }
+  return {
+    ...obj,
+    preferences: readPreferences(obj.preferences),
+    columns: readColumns(obj.columns),
+  } as SettingsBundle
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value)
+}
+
+const NOTIFICATION_FLAGS = ["onActive", "onDeployFailed", "onDestroyFailed", "desktop"] as const
+
+// Imported preferences land straight in the store: keep only well-typed
+// values, anything else leaves the current setting alone
+function readPreferences(value: unknown): BundlePreferences {
+  const prefs = isRecord(value) ? value : {}
+  const interval = prefs.pollingInterval
+  const notifications: BundlePreferences["notifications"] = {}
+  if (isRecord(prefs.notifications)) {
+    for (const [username, entry] of Object.entries(prefs.notifications)) {
+      if (!isRecord(entry)) continue
+      const valid: Partial<NotificationPrefs> = {}
+      for (const flag of NOTIFICATION_FLAGS) {
+        if (typeof entry[flag] === "boolean") valid[flag] = entry[flag]
+      }
+      if (entry.scope === "own" || entry.scope === "all") valid.scope = entry.scope
+      notifications[username] = valid
+    }
+  }
+  return {
+    pollingInterval: typeof interval === "number" && Number.isFinite(interval) && interval >= 0 ? interval : undefined,
+    notifications,
+  }
+}
+
+function readColumns(value: unknown): SettingsBundle["columns"] {
+  const columns: SettingsBundle["columns"] = {}
+  if (!isRecord(value)) return columns
+  for (const [username, prefs] of Object.entries(value)) {
+    if (isRecord(prefs) && Object.values(prefs).every((v) => typeof v === "boolean")) {
+      columns[username] = prefs as Record<string, boolean>
+    }
+  }
+  return columns
+}
+
+/** Decrypt the bundle tokens, throws on a wrong passphrase */
+export async function openBundleTokens(bundle: SettingsBundle, passphrase: string): Promise<TokenMap> {
+  if (!bundle.tokens) return {}
+  const { tokens } = await openVault(passphrase, bundle.tokens)
+  return tokens
+}
+
+// --- Merge preview ---
+
+export type ImportAction = "add" | "replace" | "skip"
+
+export interface ImportRow {
+  target: BundleTarget
+  existing: TargetProfile | null // saved target with the same URL
+  action: ImportAction
+}
+
+function normalizeUrl(url: string): string {
+  return url.trim().replace(/\/+$/, "").toLowerCase()
+}
+
+/** One row per bundle target; duplicates by URL default to skip */
+export function planImport(bundle: SettingsBundle, saved: TargetProfile[]): ImportRow[] {
+  const byUrl = new Map(saved.map((t) => [normalizeUrl(t.url), t]))
+  const seen = new Set<string>()
+  return bundle.targets.map((target) => {
+    const url = normalizeUrl(target.url)
+    const existing = byUrl.get(url) ?? null
+    // Same URL twice in one bundle: keep the first
+    const action: ImportAction = existing || seen.has(url) ? "skip" : "add"
+    seen.add(url)
+    return { target, existing, action }
+  })
+}
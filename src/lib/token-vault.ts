@@ -0,0 +1,108 @@
+/**
+ * Passphrase-protected storage for target API tokens.
+ * The passphrase is stretched with PBKDF2 (SHA-256) into a non-extractable
+ * AES-GCM key; only the salt, IV and ciphertext are ever persisted.
+ */
+
+export interface VaultBlob {
+  version: 1
+  iterations: number
+  salt: string // base64
+  iv: string // base64
+  ciphertext: string // base64, JSON map of target id -> token
+}
+
+/** Target id -> API token */
+export type TokenMap = Record<string, string>
+
+export interface VaultKey {
+  key: CryptoKey
+  salt: Uint8Array<ArrayBuffer>
+  iterations: number
+}
+
+export const PBKDF2_ITERATIONS = 600_000
+export const MIN_PASSPHRASE_LENGTH = 8
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ""
+  for (const b of bytes) binary += String.fromCharCode(b)
+  return btoa(binary)
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+async function deriveKey(
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  )
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  )
+}
+
+/** WebCrypto is only exposed on secure origins (https or localhost) */
+export function isVaultSupported(): boolean {
+  return typeof crypto !== "undefined" && crypto.subtle != null
+}
+
+/** Fresh key for a new vault or a passphrase change */
+export async function createVaultKey(passphrase: string): Promise<VaultKey> {
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  return { key: await deriveKey(passphrase, salt, PBKDF2_ITERATIONS), salt, iterations: PBKDF2_ITERATIONS }
+}
+
+/** Encrypt the tokens, a new IV is drawn for every write */
+export async function sealTokens(vaultKey: VaultKey, tokens: TokenMap): Promise<VaultBlob> {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    vaultKey.key,
+    new TextEncoder().encode(JSON.stringify(tokens))
+  )
+  return {
+    version: 1,
+    iterations: vaultKey.iterations,
+    salt: toBase64(vaultKey.salt),
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  }
+}
+
+/**
+ * Decrypt a vault with its passphrase. AES-GCM authenticates the
+ * ciphertext, so a wrong passphrase throws instead of returning garbage.
+ */
+export async function openVault(
+  passphrase: string,
+  blob: VaultBlob
+): Promise<{ vaultKey: VaultKey; tokens: TokenMap }> {
+  const salt = fromBase64(blob.salt)
+  const key = await deriveKey(passphrase, salt, blob.iterations)
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(blob.iv) },
+    key,
+    fromBase64(blob.ciphertext)
+  )
+  return {
+    vaultKey: { key, salt, iterations: blob.iterations },
+    tokens: JSON.parse(new TextDecoder().decode(plaintext)) as TokenMap,
+  }
+}
@@ -36,7 +36,7 @@ export async function copyToClipboard(text: string): Promise<boolean> {
 /** Parse an API date string (naive UTC) into a proper Date.
  *  The API returns ISO timestamps without a timezone suffix,
  *  so we append "Z" to ensure correct UTC interpretation. */
-function ensureUtc(date: string): Date {
+export function ensureUtc(date: string): Date {
   const s = date.endsWith("Z") || /[+-]\d{2}:?\d{2}$/.test(date) ? date : date + "Z"
   return new Date(s)
 }
@@ -94,6 +94,18 @@ export function formatEta(seconds: number): string {
   return `${h}h ${m}m`
 }
 
+/** Save text content as a file through a temporary object URL */
+export function downloadFile(filename: string, content: string, mime: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mime};charset=utf-8` }))
+  const a = document.createElement("a")
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
+
 export function generateId(): string {
   if (typeof crypto !== "undefined" && crypto.randomUUID) {
     return crypto.randomUUID()
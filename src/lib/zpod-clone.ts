@@ -0,0 +1,100 @@
+import { extractComponentType } from "@/lib/component-colors"
+import { flattenProfileItems } from "@/lib/profile-utils"
+import type { Profile, ProfileItem, ProfileItemCreate, Zpod, ZpodComponentView, ZpodDnsEntry } from "@/types"
+
+// --- IP helpers ---
+
+function ipToNumber(ip: string): number {
+  const parts = ip.split(".").map(Number)
+  return ((parts[0] << 24) | (parts[1] << 16) | (parts[2] << 8) | parts[3]) >>> 0
+}
+
+function numberToIp(n: number): string {
+  return [(n >>> 24) & 0xff, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff].join(".")
+}
+
+/** Offset of `ip` inside `cidr`, or null when it is outside the network */
+function hostOffset(ip: string, cidr: string): number | null {
+  const [base, prefixStr] = cidr.split("/")
+  const prefix = parseInt(prefixStr, 10)
+  if (isNaN(prefix) || !/^\d+\.\d+\.\d+\.\d+$/.test(ip)) return null
+  const mask = prefix === 0 ? 0 : (~0 << (32 - prefix)) >>> 0
+  const network = (ipToNumber(base) & mask) >>> 0
+  const addr = ipToNumber(ip)
+  return ((addr & mask) >>> 0) === network ? addr - network : null
+}
+
+/**
+ * Move an IP from the source zPod networks to the same offset in the
+ * clone's networks (matched by position). IPs outside the source
+ * networks are returned unchanged.
+ */
+export function remapIp(ip: string, fromCidrs: string[], toCidrs: string[]): string {
+  for (let i = 0; i < fromCidrs.length; i++) {
+    const offset = hostOffset(ip, fromCidrs[i])
+    if (offset == null) continue
+    const target = toCidrs[i]
+    if (!target) return ip
+    return numberToIp(ipToNumber(target.split("/")[0]) + offset)
+  }
+  return ip
+}
+
+// --- Clone source analysis ---
+
+/**
+ * Components deployed on the zPod that its profile does not account for,
+ * i.e. added afterwards through addZpodComponent.
+ * Profile items with a fixed hostname are matched first, then the
+ * remaining ones by component_uid.
+ */
+export function findExtraComponents(zpod: Zpod, profile: Profile | undefined): ProfileItemCreate[] {
+  const unmatched = profile ? flattenProfileItems(profile.profile) : []
+  const deployed = [...(zpod.components ?? [])]
+
+  const take = (matches: (pi: ProfileItem, comp: ZpodComponentView) => boolean) => {
+    for (let d = deployed.length - 1; d >= 0; d--) {
+      const comp = deployed[d]
+      const idx = unmatched.findIndex(
+        (pi) => pi.component_uid === comp.component.component_uid && matches(pi, comp)
+      )
+      if (idx === -1) continue
+      unmatched.splice(idx, 1)
+      deployed.splice(d, 1)
+    }
+  }
+  take((pi, comp) => pi.hostname != null && pi.hostname === comp.hostname)
+  take((pi) => pi.hostname == null)
+
+  const mgmtCidr = zpod.networks?.[0]?.cidr
+  return deployed
+    .filter((c) => extractComponentType(c.component.component_uid) !== "zbox")
+    .map((c) => {
+      const item: ProfileItemCreate = { component_uid: c.component.component_uid }
+      if (c.hostname) item.hostname = c.hostname
+      const hostId = c.ip && mgmtCidr ? hostOffset(c.ip, mgmtCidr) : null
+      if (hostId) item.host_id = hostId
+      return item
+    })
+}
+
+/** DNS entries added by hand (component and zbox records are recreated by the build) */
+export function findCustomDnsEntries(zpod: Zpod, entries: ZpodDnsEntry[]): ZpodDnsEntry[] {
+  const managed = new Set<string>(["zbox", `zbox.${zpod.domain}`, "localhost"])
+  for (const c of zpod.components ?? []) {
+    if (c.hostname) {
+      managed.add(c.hostname)
+      managed.add(`${c.hostname}.${zpod.domain}`)
+    }
+    if (c.fqdn) managed.add(c.fqdn)
+  }
+  return entries.filter((e) => !managed.has(e.hostname))
+}
+
+/** `<name>-clone`, `<name>-clone2`, … — the first one not already taken */
+export function suggestCloneName(name: string, existingNames: string[]): string {
+  const taken = new Set(existingNames)
+  let candidate = `${name}-clone`
+  for (let n = 2; taken.has(candidate); n++) candidate = `${name}-clone${n}`
+  return candidate
+}
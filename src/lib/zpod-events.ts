@@ -0,0 +1,81 @@
+import type { TargetProfile, Zpod } from "@/types"
+
+/**
+ * Client for the server's /events/zpods stream.
+ *
+ * EventSource cannot send the target headers, so the stream is read with
+ * fetch and parsed here. Resolves when the server closes the stream (after
+ * an `error` event when the factory stops answering) and rejects when it
+ * cannot be opened (e.g. served without the Node server).
+ */
+
+export interface ZpodUpdate {
+  upserted: Zpod[]
+  removed: number[]
+}
+
+export interface ZpodEventHandlers {
+  onSnapshot: (zpods: Zpod[]) => void
+  onUpdate: (update: ZpodUpdate) => void
+}
+
+export async function streamZpodEvents(
+  target: Pick<TargetProfile, "url" | "token">,
+  handlers: ZpodEventHandlers,
+  signal: AbortSignal
+): Promise<void> {
+  const res = await fetch("/events/zpods", {
+    headers: {
+      access_token: target.token,
+      "X-Target-Url": target.url,
+      Accept: "text/event-stream",
+    },
+    signal,
+  })
+  if (!res.ok || !res.body || !res.headers.get("content-type")?.includes("text/event-stream")) {
+    throw new Error(`Event stream unavailable (HTTP ${res.status})`)
+  }
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ""
+  for (;;) {
+    const { value, done } = await reader.read()
+    if (done) return
+    buffer += value
+
+    let end: number
+    while ((end = buffer.indexOf("\n\n")) !== -1) {
+      dispatch(buffer.slice(0, end), handlers)
+      buffer = buffer.slice(end + 2)
+    }
+  }
+}
+
+function dispatch(frame: string, handlers: ZpodEventHandlers) {
+  let event = "message"
+  const data: string[] = []
+  for (const line of frame.split("\n")) {
+    if (line.startsWith(":")) continue // heartbeat / comment
+    if (line.startsWith("event:")) event = line.slice(6).trim()
+    else if (line.startsWith("data:")) data.push(line.slice(5).trimStart())
+  }
+  if (data.length === 0) return
+
+  const payload = JSON.parse(data.join("\n"))
+  if (event === "snapshot") handlers.onSnapshot(payload as Zpod[])
+  else if (event === "update") handlers.onUpdate(payload as ZpodUpdate)
+}
+
+/** Apply a stream update to a cached zPod list, keeping its order */
+export function applyZpodUpdate(prev: Zpod[] | undefined, update: ZpodUpdate): Zpod[] {
+  const removed = new Set(update.removed)
+  const byId = new Map(update.upserted.map((z) => [z.id, z]))
+  const next = (prev ?? [])
+    .filter((z) => !removed.has(z.id))
+    .map((z) => {
+      const changed = byId.get(z.id)
+      if (changed) byId.delete(z.id)
+      return changed ?? z
+    })
+  return [...next, ...byId.values()]
+}
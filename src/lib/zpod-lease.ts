@@ -0,0 +1,94 @@
+import { ensureUtc } from "@/lib/utils"
+import type { Setting, Zpod } from "@/types"
+
+/**
+ * zPod leases: an expiry date kept in the zPod features under
+ * `lease_expiry` (set by the owner), or derived from the creation date and
+ * the `zpodweb_lease_days` setting when the owner never set one.
+ */
+
+export const LEASE_FEATURE_KEY = "lease_expiry"
+export const LEASE_DAYS_SETTING = "zpodweb_lease_days"
+
+/** Extension length when the factory has no default lease */
+const FALLBACK_EXTEND_DAYS = 7
+/** Leases ending within this window are reported as expiring soon */
+export const EXPIRING_SOON_MS = 3 * 24 * 60 * 60 * 1000
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type LeaseState = "none" | "ok" | "expiring" | "expired"
+
+export interface LeaseDefaults {
+  /** Default lease length from the settings, null when leases are opt-in */
+  defaultDays: number | null
+  /** Days added by one click on "Extend" */
+  extendDays: number
+}
+
+export function leaseDefaults(settings: Setting[] | undefined): LeaseDefaults {
+  const raw = settings?.find((s) => s.name === LEASE_DAYS_SETTING)?.value
+  const days = raw != null ? parseInt(raw, 10) : NaN
+  const defaultDays = Number.isFinite(days) && days > 0 ? days : null
+  return { defaultDays, extendDays: defaultDays ?? FALLBACK_EXTEND_DAYS }
+}
+
+/** Effective lease end of a zPod, null when it has none */
+export function getLeaseExpiry(zpod: Zpod, defaultDays: number | null): Date | null {
+  const explicit = zpod.features?.[LEASE_FEATURE_KEY]
+  if (typeof explicit === "string") {
+    const date = ensureUtc(explicit)
+    if (!isNaN(date.getTime())) return date
+  }
+  if (defaultDays == null) return null
+  return new Date(ensureUtc(zpod.creation_date).getTime() + defaultDays * DAY_MS)
+}
+
+export function leaseState(expiry: Date | null, now = Date.now()): LeaseState {
+  if (!expiry) return "none"
+  const remaining = expiry.getTime() - now
+  if (remaining <= 0) return "expired"
+  return remaining <= EXPIRING_SOON_MS ? "expiring" : "ok"
+}
+
+/** "3d 4h", "5h 12m", "expired 2d ago" */
+export function formatLeaseRemaining(expiry: Date, now = Date.now()): string {
+  const diff = expiry.getTime() - now
+  const abs = Math.abs(diff)
+  const d = Math.floor(abs / DAY_MS)
+  const h = Math.floor((abs % DAY_MS) / 3600000)
+  const m = Math.floor((abs % 3600000) / 60000)
+  const span = d > 0 ? `${d}d ${h}h` : h > 0 ? `${h}h ${m}m` : `${m}m`
+  return diff <= 0 ? `expired ${span} ago` : span
+}
+
+/**
+ * Features payload pushing the lease `days` further, counted from now
+ * when it already expired so an extension always leaves `days` to go.
+ */
+export function extendLeaseFeatures(zpod: Zpod, expiry: Date | null, days: number): Record<string, unknown> {
+  const base = Math.max(expiry?.getTime() ?? 0, Date.now())
+  return withLeaseExpiry(zpod, new Date(base + days * DAY_MS))
+}
+
+/** Features payload setting the lease to an explicit date */
+export function withLeaseExpiry(zpod: Zpod, expiry: Date): Record<string, unknown> {
+  // Stored as naive UTC like every other API datetime
+  return { ...(zpod.features ?? {}), [LEASE_FEATURE_KEY]: expiry.toISOString().replace("Z", "") }
+}
+
+/** zPods whose lease is expired or about to, soonest first */
+export function findEndingLeases(
+  zpods: Zpod[],
+  defaultDays: number | null
+): { zpod: Zpod; expiry: Date; state: LeaseState }[] {
+  return zpods
+    .map((zpod) => {
+      const expiry = getLeaseExpiry(zpod, defaultDays)
+      return { zpod, expiry, state: leaseState(expiry) }
+    })
+    .filter((l): l is { zpod: Zpod; expiry: Date; state: LeaseState } =>
+      l.expiry != null && (l.state === "expired" || l.state === "expiring")
+    )
+    .sort((a, b) => a.expiry.getTime() - b.expiry.getTime())
+}
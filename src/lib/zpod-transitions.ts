@@ -0,0 +1,67 @@
+import type { NotificationPrefs } from "@/stores/preferences-store"
+import type { ZpodTransitionKind } from "@/stores/notification-store"
+import type { Zpod } from "@/types"
+
+/** Statuses a zPod passes through while it is being built */
+const BUILD_STATUSES = new Set(["PENDING", "BUILDING", "CONFIG_SCRIPTS", "POST_SCRIPTS"])
+
+export interface ZpodTransition {
+  zpod: Zpod
+  from: string
+  kind: ZpodTransitionKind
+}
+
+/**
+ * Compare a zPod list against the statuses seen on the previous poll.
+ * zPods that were not known before (first load, new zPod) never notify.
+ */
+export function detectTransitions(previous: Map<number, string>, zpods: Zpod[]): ZpodTransition[] {
+  const transitions: ZpodTransition[] = []
+  for (const zpod of zpods) {
+    const from = previous.get(zpod.id)
+    if (from === undefined || from === zpod.status) continue
+
+    if (zpod.status === "ACTIVE" && BUILD_STATUSES.has(from)) {
+      transitions.push({ zpod, from, kind: "active" })
+    } else if (zpod.status === "DEPLOY_FAILED") {
+      transitions.push({ zpod, from, kind: "deploy_failed" })
+    } else if (zpod.status === "DESTROY_FAILED") {
+      transitions.push({ zpod, from, kind: "destroy_failed" })
+    }
+  }
+  return transitions
+}
+
+export function isZpodOwner(zpod: Zpod, username: string): boolean {
+  return (zpod.permissions ?? []).some(
+    (p) => p.permission === "OWNER" && p.users.some((u) => u.username === username)
+  )
+}
+
+/** Whether the user's preferences ask for this transition */
+export function shouldNotify(
+  transition: ZpodTransition,
+  prefs: NotificationPrefs,
+  username: string
+): boolean {
+  if (prefs.scope === "own" && !isZpodOwner(transition.zpod, username)) return false
+  switch (transition.kind) {
+    case "active":
+      return prefs.onActive
+    case "deploy_failed":
+      return prefs.onDeployFailed
+    case "destroy_failed":
+      return prefs.onDestroyFailed
+  }
+}
+
+export function describeTransition(kind: ZpodTransitionKind, zpodName: string): string {
+  switch (kind) {
+    case "active":
+      return `zPod "${zpodName}" is ready`
+    case "deploy_failed":
+      return `zPod "${zpodName}" failed to deploy`
+    case "destroy_failed":
+      return `zPod "${zpodName}" failed to destroy`
+  }
+}
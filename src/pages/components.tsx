@@ -1,7 +1,8 @@
 import { useCallback, useEffect, useMemo, useState } from "react"
-import { Link } from "react-router"
-import { useApi } from "@/hooks/use-api"
+import { Link, useSearchParams } from "react-router"
+import { useApi, useComponentsQuery, useProfilesQuery, useZpodsQuery } from "@/hooks/use-api"
 import { usePolling } from "@/hooks/use-polling"
+import { usePermissions } from "@/hooks/use-permissions"
 import { useSort } from "@/hooks/use-sort"
 import { Card, CardContent } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
@@ -31,13 +32,16 @@ import {
 import { SortableHead } from "@/components/sortable-head"
 import { Skeleton } from "@/components/ui/skeleton"
 import { ComponentUploadDialog } from "@/components/component-upload-dialog"
+import { ComponentDetailSheet } from "@/components/component-detail-sheet"
 import { toast } from "sonner"
 import { Search, Upload, AlertTriangle, Loader2, Layers } from "lucide-react"
-import { useAuthStore } from "@/stores/auth-store"
-import type { ComponentFull, Profile, ProfileItem } from "@/types"
+import type { ComponentFull, Profile, ProfileItem, Zpod } from "@/types"
 import { StatusBadge } from "@/components/status-badge"
 import { statusClasses } from "@/lib/status-colors"
 import { Switch } from "@/components/ui/switch"
+import { NotPermitted } from "@/components/not-permitted"
+import { GuardedAction } from "@/components/guarded-action"
+import { isForbidden } from "@/lib/api"
 
 function DownloadStatusBadge({ downloadStatus }: { downloadStatus: string }) {
   const pct = Number(downloadStatus)
@@ -69,31 +73,39 @@ function DownloadStatusBadge({ downloadStatus }: { downloadStatus: string }) {
   )
 }
 
+const NO_COMPONENTS: ComponentFull[] = []
+const NO_PROFILES: Profile[] = []
+
 export function ComponentsPage() {
-  const { fetchComponents, fetchProfiles, enableComponent, disableComponent } = useApi()
-  const { user } = useAuthStore()
-  const isSuperadmin = user?.superadmin ?? false
-  const [components, setComponents] = useState<ComponentFull[]>([])
-  const [profiles, setProfiles] = useState<Profile[]>([])
-  const [loading, setLoading] = useState(true)
-  const [filter, setFilter] = useState("")
-  const [statusFilter, setStatusFilter] = useState<"ALL" | "ACTIVE" | "IN_PROGRESS">("ACTIVE")
+  const { enableComponent, disableComponent } = useApi()
+  const { data: components = NO_COMPONENTS, error: componentsError, isLoading: loading, refetch: fetchComponents } = useComponentsQuery()
+  const { data: profiles = NO_PROFILES, refetch: fetchProfiles } = useProfilesQuery()
+  const { isSuperadmin, can } = usePermissions()
+  const manageCheck = can("component:manage")
+  // ?search= pre-fills the filter, e.g. from a library's component list
+  const [searchParams] = useSearchParams()
+  const initialSearch = searchParams.get("search") ?? ""
+  const [filter, setFilter] = useState(initialSearch)
+  const [statusFilter, setStatusFilter] = useState<"ALL" | "ACTIVE" | "IN_PROGRESS">(initialSearch ? "ALL" : "ACTIVE")
   const [showUpload, setShowUpload] = useState(false)
   const [toggling, setToggling] = useState<Set<number>>(new Set())
   const [confirmTarget, setConfirmTarget] = useState<ComponentFull | null>(null)
+  const [detailTarget, setDetailTarget] = useState<ComponentFull | null>(null)
+  const { data: zpods, refetch: fetchZpods } = useZpodsQuery()
 
   const loadComponents = useCallback(() => {
     fetchComponents()
-      .then(setComponents)
-      .catch(() => toast.error("Failed to fetch components"))
-      .finally(() => setLoading(false))
+      .catch((err) => {
+        if (!isForbidden(err)) toast.error("Failed to fetch components")
+      })
   }, [fetchComponents])
 
   const loadProfiles = useCallback(() => {
     fetchProfiles()
-      .then(setProfiles)
       .catch(() => {})
-  }, [fetchProfiles])
+    fetchZpods()
+      .catch(() => {})
+  }, [fetchProfiles, fetchZpods])
 
   useEffect(() => {
     loadComponents()
@@ -118,6 +130,20 @@ export function ComponentsPage() {
     return map
   }, [profiles])
 
+  // zPods currently running each component_uid
+  const zpodsByComponent = useMemo(() => {
+    const map = new Map<string, Zpod[]>()
+    for (const zpod of zpods ?? []) {
+      const uids = new Set(zpod.components.map((c) => c.component.component_uid))
+      for (const uid of uids) {
+        const list = map.get(uid)
+        if (list) list.push(zpod)
+        else map.set(uid, [zpod])
+      }
+    }
+    return map
+  }, [zpods])
+
   const filtered = components.filter((c) => {
     const matchesText =
       c.component_name.toLowerCase().includes(filter.toLowerCase()) ||
@@ -157,6 +183,15 @@ export function ComponentsPage() {
     }
   }
 
+  if (isForbidden(componentsError)) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-2xl font-bold tracking-tight">Components</h1>
+        <NotPermitted what="components" />
+      </div>
+    )
+  }
+
   if (loading) {
     return (
       <div className="space-y-6">
@@ -173,12 +208,12 @@ export function ComponentsPage() {
           <h1 className="text-2xl font-bold tracking-tight">Components</h1>
           <Badge variant="outline">{sorted.length} / {components.length}</Badge>
         </div>
-        {isSuperadmin && (
-          <Button size="sm" onClick={() => setShowUpload(true)}>
+        <GuardedAction check={manageCheck}>
+          <Button size="sm" disabled={!manageCheck.allowed} onClick={() => setShowUpload(true)}>
             <Upload className="mr-1 h-3 w-3" />
             Upload
           </Button>
-        )}
+        </GuardedAction>
       </div>
 
       <div className="flex items-center gap-3">
@@ -223,12 +258,12 @@ export function ComponentsPage() {
                   <SortableHead label="Description" sortKey="component_description" sort={sort} onToggle={toggleSort} className="hidden lg:table-cell" />
                   <SortableHead label="Status" sortKey="status" sort={sort} onToggle={toggleSort} />
                   {isSuperadmin && <TableHead className="w-[80px]">Profiles</TableHead>}
-                  {isSuperadmin && <TableHead className="w-[80px]">Actions</TableHead>}
+                  <TableHead className="w-[80px]">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {sorted.map((comp) => (
-                  <TableRow key={comp.id}>
+                  <TableRow key={comp.id} className="cursor-pointer" onClick={() => setDetailTarget(comp)}>
                     <TableCell className="font-mono whitespace-nowrap">
                       {comp.component_uid}
                     </TableCell>
@@ -251,7 +286,7 @@ export function ComponentsPage() {
                         <StatusBadge status={comp.status} />
                       )}
                     </TableCell>
-                    {isSuperadmin && <TableCell>
+                    {isSuperadmin && <TableCell onClick={(e) => e.stopPropagation()}>
                       {(() => {
                         const names = profilesByComponent.get(comp.component_uid) ?? []
                         if (names.length === 0) {
@@ -300,8 +335,8 @@ export function ComponentsPage() {
                         )
                       })()}
                     </TableCell>}
-                    {isSuperadmin && (
-                      <TableCell>
+                    <TableCell onClick={(e) => e.stopPropagation()}>
+                      {manageCheck.allowed ? (
                         <HoverCard openDelay={300} closeDelay={100}>
                           <HoverCardTrigger asChild>
                             <span className="cursor-default">
@@ -323,8 +358,12 @@ export function ComponentsPage() {
                             </p>
                           </HoverCardContent>
                         </HoverCard>
-                      </TableCell>
-                    )}
+                      ) : (
+                        <GuardedAction check={manageCheck}>
+                          <Switch checked={comp.status === "ACTIVE"} disabled />
+                        </GuardedAction>
+                      )}
+                    </TableCell>
                   </TableRow>
                 ))}
               </TableBody>
@@ -339,6 +378,13 @@ export function ComponentsPage() {
         onUploadComplete={loadComponents}
       />
 
+      <ComponentDetailSheet
+        component={detailTarget}
+        onOpenChange={(open) => !open && setDetailTarget(null)}
+        profiles={detailTarget ? profilesByComponent.get(detailTarget.component_uid) ?? [] : []}
+        zpods={detailTarget ? zpodsByComponent.get(detailTarget.component_uid) ?? [] : []}
+      />
+
       {/* Enable / Disable confirmation dialog */}
       <Dialog
         open={!!confirmTarget}
@@ -1,6 +1,9 @@
 import React, { useCallback, useEffect, useMemo, useState } from "react"
-import { useApi } from "@/hooks/use-api"
-import { usePolling } from "@/hooks/use-polling"
+import { useProfilesQuery, useZpodsQuery } from "@/hooks/use-api"
+import { useZpodPolling } from "@/hooks/use-polling"
+import { useZpodLease } from "@/hooks/use-zpod-lease"
+import { useAggregateMode, useAllTargetsZpods, useOpenZpod, type TargetZpod } from "@/hooks/use-all-targets"
+import { useTargetStore } from "@/stores/target-store"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import {
   Table,
@@ -26,11 +29,16 @@ import {
   Activity,
   Hammer,
   AlertTriangle,
+  CalendarPlus,
+  Hourglass,
 } from "lucide-react"
 import { toast } from "sonner"
 import type { Zpod, Profile, ProfileItem } from "@/types"
 import { ZpodStatus } from "@/types"
 import { StatusBadge } from "@/components/status-badge"
+import { LeaseBadge } from "@/components/lease-badge"
+import { FactoryFailures, FactoryScopeToggle } from "@/components/target/factory-scope"
+import { Button } from "@/components/ui/button"
 import {
   HoverCard,
   HoverCardTrigger,
@@ -38,6 +46,7 @@ import {
 import { BuildProgressHoverContent } from "@/components/build-progress-hover"
 import { buildHoverRows, groupDeployedByUid } from "@/lib/build-progress"
 import { flattenProfileItems } from "@/lib/profile-utils"
+import { findEndingLeases } from "@/lib/zpod-lease"
 import { formatDateTime } from "@/lib/utils"
 import { Link } from "react-router"
 
@@ -47,6 +56,9 @@ const BAR_PALETTE = [
   "#f5c2e7", "#89dceb", "#f5c2e7", "#f5e0dc",
 ]
 
+const NO_ZPODS: TargetZpod[] = []
+const NO_PROFILES: Profile[] = []
+
 function CustomTooltip({ active, payload, label }: { active?: boolean; payload?: { value: number }[]; label?: string }) {
   if (!active || !payload?.length) return null
   return (
@@ -57,24 +69,103 @@ function CustomTooltip({ active, payload, label }: { active?: boolean; payload?:
   )
 }
 
+/** zPods whose lease expired or ends within a few days, with one-click extend */
+function LeaseReminders({ zpods }: { zpods: Zpod[] }) {
+  const { defaultDays, extendDays, extendLease } = useZpodLease()
+  const [extendingId, setExtendingId] = useState<number | null>(null)
+
+  const ending = useMemo(
+    () => findEndingLeases(
+      zpods.filter((z) => z.status !== ZpodStatus.DELETING && z.status !== ZpodStatus.DELETED),
+      defaultDays
+    ),
+    [zpods, defaultDays]
+  )
+
+  if (ending.length === 0) return null
+
+  const handleExtend = async (zpod: Zpod) => {
+    setExtendingId(zpod.id)
+    await extendLease(zpod)
+    setExtendingId(null)
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Hourglass className="h-4 w-4" />
+          Leases ending soon
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead className="hidden md:table-cell">Profile</TableHead>
+              <TableHead>Lease</TableHead>
+              <TableHead className="hidden md:table-cell">Expires</TableHead>
+              <TableHead className="w-px" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {ending.map(({ zpod, expiry }) => (
+              <TableRow key={zpod.id}>
+                <TableCell className="font-medium">
+                  <Link to={`/zpods/${zpod.id}`} className="hover:underline text-primary">
+                    {zpod.name}
+                  </Link>
+                </TableCell>
+                <TableCell className="hidden md:table-cell">{zpod.profile}</TableCell>
+                <TableCell><LeaseBadge expiry={expiry} /></TableCell>
+                <TableCell className="hidden md:table-cell text-muted-foreground">
+                  {expiry.toLocaleString()}
+                </TableCell>
+                <TableCell>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="whitespace-nowrap"
+                    disabled={extendingId === zpod.id}
+                    onClick={() => handleExtend(zpod)}
+                  >
+                    <CalendarPlus className="mr-1 h-3 w-3" />
+                    +{extendDays}d
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
+
 export function DashboardPage() {
-  const { fetchZpods, fetchProfiles } = useApi()
-  const [zpods, setZpods] = useState<Zpod[]>([])
-  const [profiles, setProfiles] = useState<Profile[]>([])
-  const [loading, setLoading] = useState(true)
+  const { data: targetZpods = NO_ZPODS, isLoading: zpodsLoading, refetch: fetchZpods } = useZpodsQuery()
+  const { data: targetProfiles = NO_PROFILES, isLoading: profilesLoading, refetch: fetchProfiles } = useProfilesQuery()
+
+  const aggregate = useAggregateMode()
+  const allTargets = useAllTargetsZpods(aggregate)
+  const activeTargetId = useTargetStore((s) => s.activeTargetId)
+  const openZpod = useOpenZpod()
+  const zpods: TargetZpod[] = aggregate ? allTargets.zpods : targetZpods
+  const profiles = aggregate ? allTargets.profiles : targetProfiles
+
+  const loading = zpodsLoading || profilesLoading || allTargets.isLoading
 
   const loadZpods = useCallback(() => {
-    fetchZpods().then(setZpods).catch(() => {})
+    fetchZpods().catch(() => {})
   }, [fetchZpods])
 
   useEffect(() => {
     Promise.all([fetchZpods(), fetchProfiles()])
-      .then(([z, p]) => { setZpods(z); setProfiles(p) })
       .catch(() => toast.error("Failed to fetch zpods"))
-      .finally(() => setLoading(false))
   }, [fetchZpods, fetchProfiles])
 
-  usePolling(loadZpods)
+  useZpodPolling(loadZpods)
 
   const total = zpods.length
   const active = zpods.filter((z) => z.status === ZpodStatus.ACTIVE).length
@@ -144,7 +235,12 @@ export function DashboardPage() {
 
   return (
     <div className="space-y-6">
-      <h1 className="text-2xl font-bold tracking-tight">Dashboard</h1>
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold tracking-tight">Dashboard</h1>
+        <FactoryScopeToggle />
+      </div>
+
+      {aggregate && <FactoryFailures failures={allTargets.failures} />}
 
       {/* Stats cards */}
       <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
@@ -202,6 +298,9 @@ export function DashboardPage() {
         </Card>
       )}
 
+      {/* Lease defaults and extends only apply to the active target */}
+      <LeaseReminders zpods={targetZpods} />
+
       {/* Recent zPods table */}
       <Card>
         <CardHeader className="pb-2">
@@ -217,6 +316,7 @@ export function DashboardPage() {
               <TableHeader>
                 <TableRow>
                   <TableHead>Name</TableHead>
+                  {aggregate && <TableHead>Factory</TableHead>}
                   <TableHead className="hidden md:table-cell">
                     Domain
                   </TableHead>
@@ -248,17 +348,28 @@ export function DashboardPage() {
                   const profileSteps = profileStepsMap.get(zpod.profile) ?? []
                   const deployedByUid = groupDeployedByUid(deployedComponents)
                   const hoverRows = buildHoverRows(profileSteps)
+                  const foreign = zpod.target != null && zpod.target.id !== activeTargetId
                   return (
-                    <React.Fragment key={zpod.id}>
+                    <React.Fragment key={`${zpod.target?.id ?? activeTargetId}:${zpod.id}`}>
                       <TableRow className={showProgress ? "border-b-0" : ""}>
                         <TableCell className="font-medium">
                           <Link
                             to={`/zpods/${zpod.id}`}
                             className="hover:underline text-primary"
+                            onClick={(e) => {
+                              if (!foreign) return
+                              e.preventDefault()
+                              openZpod(zpod)
+                            }}
                           >
                             {zpod.name}
                           </Link>
                         </TableCell>
+                        {aggregate && (
+                          <TableCell className="whitespace-nowrap text-muted-foreground">
+                            {zpod.target?.name}
+                          </TableCell>
+                        )}
                         <TableCell className="hidden md:table-cell">
                           {zpod.domain}
                         </TableCell>
@@ -293,7 +404,7 @@ export function DashboardPage() {
                       </TableRow>
                       {showProgress && (
                         <TableRow>
-                          <TableCell colSpan={6} className="p-0">
+                          <TableCell colSpan={aggregate ? 7 : 6} className="p-0">
                             <Progress value={pct} className="h-1 w-full rounded-none" />
                           </TableCell>
                         </TableRow>
@@ -1,9 +1,10 @@
 import { useCallback, useEffect, useState } from "react"
 import axios from "axios"
-import { useApi } from "@/hooks/use-api"
+import { useApi, useEndpointsQuery, useProfilesQuery, useZpodsQuery } from "@/hooks/use-api"
 import { usePolling } from "@/hooks/use-polling"
 import { useSort } from "@/hooks/use-sort"
-import { useAuthStore } from "@/stores/auth-store"
+import { useEndpointHealth } from "@/hooks/use-endpoint-health"
+import { usePermissions } from "@/hooks/use-permissions"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
@@ -33,24 +34,49 @@ import {
   Cpu,
   Network,
   Plus,
-  KeyRound,
+  Pencil,
+  Copy,
+  ArrowRight,
   Trash2,
   Loader2,
   RefreshCw,
   CheckCircle2,
   XCircle,
+  Gauge,
+  Ghost,
 } from "lucide-react"
 import { Link } from "react-router"
 import type {
   EndpointFull,
+  Profile,
   Zpod,
   VsphereInventory,
   NsxInventory,
   InventoryResult,
-  VmFolderTreeItem,
 } from "@/types"
 import { DetailRow } from "@/components/detail-row"
 import { EndpointCreateDialog } from "@/components/endpoint-create-dialog"
+import {
+  InventorySummary,
+  NetworksCidrInput,
+  NsxInventoryPickers,
+  VsphereInventoryPickers,
+} from "@/components/endpoint-inventory-pickers"
+import { EndpointCapacityDialog } from "@/components/endpoint-capacity-dialog"
+import { EndpointHealthBadge } from "@/components/endpoint-health-badge"
+import { EndpointOrphansDialog } from "@/components/endpoint-orphans-dialog"
+import { NotPermitted } from "@/components/not-permitted"
+import { GuardedAction } from "@/components/guarded-action"
+import { isForbidden } from "@/lib/api"
+import { parseEndpointNetworks } from "@/lib/cidr"
+import { healthForEndpoint } from "@/lib/endpoint-health"
+import {
+  diffEndpoint,
+  draftFromEndpoint,
+  strandedZpods,
+  toEndpointUpdate,
+  type EndpointDraft,
+} from "@/lib/endpoint-config"
 
 // --- Helpers ---
 
@@ -106,43 +132,37 @@ function NetworksCidrRow({ networks, zpodCount }: { networks: string; zpodCount:
   )
 }
 
-// --- Verify Row: shows a read-only field with a green tick or red X ---
+// --- Edit Dialog ---
 
-function VerifyRow({ label, value, found }: { label: string; value: string; found: boolean | null }) {
-  return (
-    <div className="flex items-center justify-between py-0.5">
-      <span className="text-xs text-muted-foreground">{label}</span>
-      <div className="flex items-center gap-1.5">
-        <span className="text-xs font-mono">{value}</span>
-        {found !== null && (
-          found ? (
-            <CheckCircle2 className="h-3.5 w-3.5 text-green-500 shrink-0" />
-          ) : (
-            <XCircle className="h-3.5 w-3.5 text-red-500 shrink-0" />
-          )
-        )}
-      </div>
-    </div>
-  )
+function ChangeValue({ value }: { value: string }) {
+  return value
+    ? <span className="font-mono break-all">{value}</span>
+    : <span className="italic text-muted-foreground">empty</span>
 }
 
-// --- Edit/Verify Dialog ---
+const CHANGE_SECTIONS = [
+  { section: "endpoint", title: "Endpoint", icon: Server },
+  { section: "compute", title: "Compute (vSphere)", icon: Cpu },
+  { section: "network", title: "Network (NSX-T)", icon: Network },
+] as const
 
 function EndpointEditDialog({
   endpoint,
+  zpods,
   open,
   onOpenChange,
   onSaveComplete,
 }: {
   endpoint: EndpointFull
+  zpods: Zpod[]
   open: boolean
   onOpenChange: (open: boolean) => void
   onSaveComplete: () => void
 }) {
-  const { updateEndpointPasswords } = useApi()
+  const { updateEndpoint } = useApi()
 
-  const [computePassword, setComputePassword] = useState("")
-  const [networkPassword, setNetworkPassword] = useState("")
+  const [draft, setDraft] = useState<EndpointDraft>(() => draftFromEndpoint(endpoint))
+  const [step, setStep] = useState<"edit" | "review">("edit")
 
   // vSphere verify state
   const [vsphereLoading, setVsphereLoading] = useState(false)
@@ -158,33 +178,26 @@ function EndpointEditDialog({
 
   const [saving, setSaving] = useState(false)
 
-  // Reset when dialog opens/closes
-  useEffect(() => {
-    if (open) {
-      setComputePassword("")
-      setNetworkPassword("")
-      setVsphereLoading(false)
-      setVsphereVersion("")
-      setVsphereError("")
-      setVsphereInventory(null)
-      setNsxLoading(false)
-      setNsxVersion("")
-      setNsxError("")
-      setNsxInventory(null)
-      setSaving(false)
-    }
-  }, [open])
+  const { compute, network } = endpoint.endpoints
+
+  function patchCompute(patch: Partial<EndpointDraft["compute"]>) {
+    setDraft((d) => ({ ...d, compute: { ...d.compute, ...patch } }))
+  }
+
+  function patchNetwork(patch: Partial<EndpointDraft["network"]>) {
+    setDraft((d) => ({ ...d, network: { ...d.network, ...patch } }))
+  }
 
   // Reset verify state when password changes
   function onComputePasswordChange(e: React.ChangeEvent<HTMLInputElement>) {
-    setComputePassword(e.target.value)
+    patchCompute({ password: e.target.value })
     setVsphereInventory(null)
     setVsphereVersion("")
     setVsphereError("")
   }
 
   function onNetworkPasswordChange(e: React.ChangeEvent<HTMLInputElement>) {
-    setNetworkPassword(e.target.value)
+    patchNetwork({ password: e.target.value })
     setNsxInventory(null)
     setNsxVersion("")
     setNsxError("")
@@ -197,9 +210,9 @@ function EndpointEditDialog({
     setVsphereInventory(null)
     try {
       const res = await axios.post<InventoryResult<VsphereInventory>>("/test/vsphere/inventory", {
-        hostname: endpoint.endpoints.compute.hostname,
-        username: endpoint.endpoints.compute.username,
-        password: computePassword,
+        hostname: compute.hostname,
+        username: compute.username,
+        password: draft.compute.password,
       })
       if (res.data.connected && res.data.inventory) {
         setVsphereVersion(res.data.version || "")
@@ -221,9 +234,9 @@ function EndpointEditDialog({
     setNsxInventory(null)
     try {
       const res = await axios.post<InventoryResult<NsxInventory>>("/test/nsx/inventory", {
-        hostname: endpoint.endpoints.network.hostname,
-        username: endpoint.endpoints.network.username,
-        password: networkPassword,
+        hostname: network.hostname,
+        username: network.username,
+        password: draft.network.password,
       })
       if (res.data.connected && res.data.inventory) {
         setNsxVersion(res.data.version || "")
@@ -238,70 +251,33 @@ function EndpointEditDialog({
     }
   }
 
-  // Check if endpoint values exist in fetched inventory
-  function computeFieldFound(field: string, inventory: VsphereInventory): boolean {
-    switch (field) {
-      case "datacenter":
-        return inventory.datacenters.includes(endpoint.endpoints.compute.datacenter)
-      case "resource_pool":
-        return inventory.resourcePools.some((r) => r.name === endpoint.endpoints.compute.resource_pool)
-      case "storage_datastore":
-        return inventory.datastores.some((d) => d.name === endpoint.endpoints.compute.storage_datastore)
-      case "vmfolder":
-        return findInFolderTree(inventory.vmFolders, endpoint.endpoints.compute.vmfolder)
-      default:
-        return false
-    }
-  }
-
-  function findInFolderTree(folders: VmFolderTreeItem[], target: string): boolean {
-    for (const f of folders) {
-      if (f.name === target) return true
-      if (f.children && findInFolderTree(f.children, target)) return true
-    }
-    return false
-  }
-
-  function networkFieldFound(field: string, inventory: NsxInventory): boolean {
-    switch (field) {
-      case "transportzone":
-        return inventory.transportZones.includes(endpoint.endpoints.network.transportzone)
-      case "edgecluster":
-        return inventory.edgeClusters.includes(endpoint.endpoints.network.edgecluster)
-      case "t0":
-        return inventory.t0Gateways.includes(endpoint.endpoints.network.t0)
-      default:
-        return false
-    }
-  }
-
-  const vsphereVerified = !!vsphereInventory
-  const nsxVerified = !!nsxInventory
-
-  const canSave = !!(
-    computePassword &&
-    networkPassword &&
-    vsphereVerified &&
-    nsxVerified &&
-    !saving
+  const changes = diffEndpoint(endpoint, draft)
+  const networksChanged = draft.network.networks !== network.networks
+  const networksValid = !networksChanged || parseEndpointNetworks(draft.network.networks)?.valid === true
+  const stranded = networksChanged && networksValid ? strandedZpods(draft.network.networks, zpods) : []
+
+  // A new password is only sent once it was verified against the host
+  const passwordsVerified =
+    (!draft.compute.password || !!vsphereInventory) &&
+    (!draft.network.password || !!nsxInventory)
+  const selectionsDone = !!(
+    draft.compute.datacenter && draft.compute.resource_pool && draft.compute.storage_datastore && draft.compute.vmfolder &&
+    draft.network.transportzone && draft.network.edgecluster && draft.network.t0
   )
 
+  const canReview = changes.length > 0 && passwordsVerified && selectionsDone && networksValid && stranded.length === 0
+
   async function handleSave() {
-    if (!canSave) return
+    if (!canReview) return
     setSaving(true)
     try {
-      await updateEndpointPasswords(endpoint.id, {
-        endpoints: {
-          compute: { password: computePassword },
-          network: { password: networkPassword },
-        },
-      })
-      toast.success(`Passwords updated for "${endpoint.name}"`)
+      await updateEndpoint(endpoint.id, toEndpointUpdate(draft, changes))
+      toast.success(`Endpoint "${endpoint.name}" updated`)
       onOpenChange(false)
       onSaveComplete()
     } catch (err: unknown) {
-      const msg = err instanceof Error ? err.message : "Failed to update passwords"
-      toast.error("Failed to update passwords", { description: msg })
+      const msg = err instanceof Error ? err.message : "Failed to update endpoint"
+      toast.error("Failed to update endpoint", { description: msg })
     } finally {
       setSaving(false)
     }
@@ -312,147 +288,241 @@ function EndpointEditDialog({
       <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto p-4 gap-3">
         <DialogHeader className="pb-0">
           <DialogTitle className="text-base flex items-center gap-2">
-            <KeyRound className="h-4 w-4" />
-            Verify & Update Passwords — {endpoint.name}
+            <Pencil className="h-4 w-4" />
+            Edit Endpoint — {endpoint.name}
           </DialogTitle>
           <DialogDescription className="text-xs">
-            Enter new passwords and verify connectivity. All other fields are read-only.
+            {step === "edit"
+              ? "Enter a password and verify the connection to pick new inventory items. Hostnames and usernames are read-only."
+              : `Review the ${changes.length} change${changes.length !== 1 ? "s" : ""} before saving.`}
           </DialogDescription>
         </DialogHeader>
 
         <Separator />
 
-        <div className="grid gap-4 lg:grid-cols-2">
-          {/* Compute (vSphere) */}
-          <div className="space-y-1.5">
-            <div className="flex items-center gap-1.5 mb-1">
-              <Cpu className="h-3.5 w-3.5 text-muted-foreground" />
-              <span className="text-xs font-medium">Compute (vSphere)</span>
-              {vsphereVersion && (
-                <Badge variant="outline" className="text-[10px] px-1.5 py-0 ml-auto bg-[#89b4fa]/15 text-[#89b4fa] border-[#89b4fa]/30">{vsphereVersion}</Badge>
-              )}
-            </div>
-
-            <div className="space-y-1">
-              <Label className="text-xs">Hostname</Label>
-              <Input value={endpoint.endpoints.compute.hostname} readOnly className="h-8 text-sm bg-muted/50" />
-            </div>
-            <div className="space-y-1">
-              <Label className="text-xs">Username</Label>
-              <Input value={endpoint.endpoints.compute.username} readOnly className="h-8 text-sm bg-muted/50" />
-            </div>
+        {step === "review" ? (
+          <div className="space-y-3">
+            {CHANGE_SECTIONS.map(({ section, title, icon: Icon }) => {
+              const rows = changes.filter((c) => c.section === section)
+              if (rows.length === 0) return null
+              return (
+                <div key={section} className="space-y-1">
+                  <div className="flex items-center gap-1.5">
+                    <Icon className="h-3.5 w-3.5 text-muted-foreground" />
+                    <span className="text-xs font-medium">{title}</span>
+                  </div>
+                  <div className="rounded-md border divide-y">
+                    {rows.map((c) => (
+                      <div key={c.field} className="grid grid-cols-[120px_1fr] gap-2 px-3 py-1.5 text-xs">
+                        <span className="text-muted-foreground">{c.label}</span>
+                        {c.secret ? (
+                          <span>Changed</span>
+                        ) : (
+                          <div className="flex flex-wrap items-center gap-1.5">
+                            <span className="text-[#f38ba8] line-through decoration-[#f38ba8]/50"><ChangeValue value={c.before} /></span>
+                            <ArrowRight className="h-3 w-3 text-muted-foreground shrink-0" />
+                            <span className="text-[#a6e3a1]"><ChangeValue value={c.after} /></span>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        ) : (
+          <div className="space-y-2.5">
             <div className="space-y-1">
-              <Label className="text-xs">Password *</Label>
+              <Label htmlFor="e-desc" className="text-xs">Description</Label>
               <Input
-                type="password"
-                value={computePassword}
-                onChange={onComputePasswordChange}
-                placeholder="Enter new password"
+                id="e-desc"
+                value={draft.description}
+                onChange={(e) => setDraft((d) => ({ ...d, description: e.target.value }))}
                 className="h-8 text-sm"
               />
             </div>
 
-            <Button
-              variant="outline"
-              size="sm"
-              className="w-full h-7 text-xs"
-              disabled={!computePassword || vsphereLoading}
-              onClick={verifyVsphere}
-            >
-              {vsphereLoading ? (
-                <Loader2 className="mr-1.5 h-3 w-3 animate-spin" />
-              ) : (
-                <RefreshCw className="mr-1.5 h-3 w-3" />
-              )}
-              {vsphereInventory ? "Re-verify" : "Verify"}
-            </Button>
+            <div className="grid gap-4 lg:grid-cols-2">
+              {/* Compute (vSphere) */}
+              <div className="space-y-1.5">
+                <div className="flex items-center gap-1.5 mb-1">
+                  <Cpu className="h-3.5 w-3.5 text-muted-foreground" />
+                  <span className="text-xs font-medium">Compute (vSphere)</span>
+                  {vsphereVersion && (
+                    <Badge variant="outline" className="text-[10px] px-1.5 py-0 ml-auto bg-[#89b4fa]/15 text-[#89b4fa] border-[#89b4fa]/30">{vsphereVersion}</Badge>
+                  )}
+                </div>
 
-            {vsphereError && (
-              <div className="flex items-center gap-1.5">
-                <XCircle className="h-3.5 w-3.5 text-red-500 shrink-0" />
-                <span className="text-xs text-red-500">{vsphereError}</span>
-              </div>
-            )}
-
-            {vsphereInventory && (
-              <div className="space-y-0.5 rounded-md border p-2">
-                <VerifyRow label="Datacenter" value={endpoint.endpoints.compute.datacenter} found={computeFieldFound("datacenter", vsphereInventory)} />
-                <VerifyRow label="Resource Pool" value={endpoint.endpoints.compute.resource_pool} found={computeFieldFound("resource_pool", vsphereInventory)} />
-                <VerifyRow label="Datastore" value={endpoint.endpoints.compute.storage_datastore} found={computeFieldFound("storage_datastore", vsphereInventory)} />
-                <VerifyRow label="VM Folder" value={endpoint.endpoints.compute.vmfolder} found={computeFieldFound("vmfolder", vsphereInventory)} />
-              </div>
-            )}
-          </div>
+                <div className="grid gap-2 grid-cols-2">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Hostname</Label>
+                    <Input value={compute.hostname} readOnly className="h-8 text-sm bg-muted/50" />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Username</Label>
+                    <Input value={compute.username} readOnly className="h-8 text-sm bg-muted/50" />
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Password</Label>
+                  <Input
+                    type="password"
+                    value={draft.compute.password}
+                    onChange={onComputePasswordChange}
+                    placeholder="Current or new password"
+                    className="h-8 text-sm"
+                  />
+                </div>
 
-          {/* Network (NSX-T) */}
-          <div className="space-y-1.5">
-            <div className="flex items-center gap-1.5 mb-1">
-              <Network className="h-3.5 w-3.5 text-muted-foreground" />
-              <span className="text-xs font-medium">Network (NSX-T)</span>
-              {nsxVersion && (
-                <Badge variant="outline" className="text-[10px] px-1.5 py-0 ml-auto bg-[#89b4fa]/15 text-[#89b4fa] border-[#89b4fa]/30">{nsxVersion}</Badge>
-              )}
-            </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full h-7 text-xs"
+                  disabled={!draft.compute.password || vsphereLoading}
+                  onClick={verifyVsphere}
+                >
+                  {vsphereLoading ? (
+                    <Loader2 className="mr-1.5 h-3 w-3 animate-spin" />
+                  ) : (
+                    <RefreshCw className="mr-1.5 h-3 w-3" />
+                  )}
+                  {vsphereInventory ? "Re-verify" : "Verify"}
+                </Button>
+
+                {vsphereError && (
+                  <div className="flex items-center gap-1.5">
+                    <XCircle className="h-3.5 w-3.5 text-red-500 shrink-0" />
+                    <span className="text-xs text-red-500">{vsphereError}</span>
+                  </div>
+                )}
 
-            <div className="space-y-1">
-              <Label className="text-xs">Hostname</Label>
-              <Input value={endpoint.endpoints.network.hostname} readOnly className="h-8 text-sm bg-muted/50" />
-            </div>
-            <div className="space-y-1">
-              <Label className="text-xs">Username</Label>
-              <Input value={endpoint.endpoints.network.username} readOnly className="h-8 text-sm bg-muted/50" />
-            </div>
-            <div className="space-y-1">
-              <Label className="text-xs">Password *</Label>
-              <Input
-                type="password"
-                value={networkPassword}
-                onChange={onNetworkPasswordChange}
-                placeholder="Enter new password"
-                className="h-8 text-sm"
-              />
-            </div>
+                {vsphereInventory ? (
+                  <VsphereInventoryPickers inventory={vsphereInventory} value={draft.compute} onChange={patchCompute} />
+                ) : (
+                  <InventorySummary
+                    hint="Verify the connection to change these fields"
+                    rows={[
+                      { label: "Datacenter", value: draft.compute.datacenter },
+                      { label: "Resource Pool", value: draft.compute.resource_pool },
+                      { label: "Datastore", value: draft.compute.storage_datastore },
+                      { label: "VM Folder", value: draft.compute.vmfolder },
+                      { label: "Storage Policy", value: draft.compute.storage_policy },
+                      { label: "Content Library", value: draft.compute.contentlibrary },
+                    ]}
+                  />
+                )}
+              </div>
 
-            <Button
-              variant="outline"
-              size="sm"
-              className="w-full h-7 text-xs"
-              disabled={!networkPassword || nsxLoading}
-              onClick={verifyNsx}
-            >
-              {nsxLoading ? (
-                <Loader2 className="mr-1.5 h-3 w-3 animate-spin" />
-              ) : (
-                <RefreshCw className="mr-1.5 h-3 w-3" />
-              )}
-              {nsxInventory ? "Re-verify" : "Verify"}
-            </Button>
+              {/* Network (NSX-T) */}
+              <div className="space-y-1.5">
+                <div className="flex items-center gap-1.5 mb-1">
+                  <Network className="h-3.5 w-3.5 text-muted-foreground" />
+                  <span className="text-xs font-medium">Network (NSX-T)</span>
+                  {nsxVersion && (
+                    <Badge variant="outline" className="text-[10px] px-1.5 py-0 ml-auto bg-[#89b4fa]/15 text-[#89b4fa] border-[#89b4fa]/30">{nsxVersion}</Badge>
+                  )}
+                </div>
 
-            {nsxError && (
-              <div className="flex items-center gap-1.5">
-                <XCircle className="h-3.5 w-3.5 text-red-500 shrink-0" />
-                <span className="text-xs text-red-500">{nsxError}</span>
-              </div>
-            )}
+                <div className="grid gap-2 grid-cols-2">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Hostname</Label>
+                    <Input value={network.hostname} readOnly className="h-8 text-sm bg-muted/50" />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Username</Label>
+                    <Input value={network.username} readOnly className="h-8 text-sm bg-muted/50" />
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Password</Label>
+                  <Input
+                    type="password"
+                    value={draft.network.password}
+                    onChange={onNetworkPasswordChange}
+                    placeholder="Current or new password"
+                    className="h-8 text-sm"
+                  />
+                </div>
 
-            {nsxInventory && (
-              <div className="space-y-0.5 rounded-md border p-2">
-                <VerifyRow label="Transport Zone" value={endpoint.endpoints.network.transportzone} found={networkFieldFound("transportzone", nsxInventory)} />
-                <VerifyRow label="Edge Cluster" value={endpoint.endpoints.network.edgecluster} found={networkFieldFound("edgecluster", nsxInventory)} />
-                <VerifyRow label="T0 Gateway" value={endpoint.endpoints.network.t0} found={networkFieldFound("t0", nsxInventory)} />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full h-7 text-xs"
+                  disabled={!draft.network.password || nsxLoading}
+                  onClick={verifyNsx}
+                >
+                  {nsxLoading ? (
+                    <Loader2 className="mr-1.5 h-3 w-3 animate-spin" />
+                  ) : (
+                    <RefreshCw className="mr-1.5 h-3 w-3" />
+                  )}
+                  {nsxInventory ? "Re-verify" : "Verify"}
+                </Button>
+
+                {nsxError && (
+                  <div className="flex items-center gap-1.5">
+                    <XCircle className="h-3.5 w-3.5 text-red-500 shrink-0" />
+                    <span className="text-xs text-red-500">{nsxError}</span>
+                  </div>
+                )}
+
+                <NetworksCidrInput
+                  id="e-net"
+                  value={draft.network.networks}
+                  onChange={(networks) => patchNetwork({ networks })}
+                  error={stranded.length > 0 && (
+                    <>
+                      Would strand subnets of {stranded.length} zPod{stranded.length !== 1 ? "s" : ""}:{" "}
+                      {stranded.map(({ zpod, cidrs }, i) => (
+                        <span key={zpod.id}>
+                          {i > 0 && ", "}
+                          <Link to={`/zpods/${zpod.id}`} className="underline hover:text-[#f38ba8]">{zpod.name}</Link>
+                          {" "}({cidrs.join(", ")})
+                        </span>
+                      ))}
+                    </>
+                  )}
+                />
+
+                {nsxInventory ? (
+                  <NsxInventoryPickers inventory={nsxInventory} value={draft.network} onChange={patchNetwork} />
+                ) : (
+                  <InventorySummary
+                    hint="Verify the connection to change these fields"
+                    rows={[
+                      { label: "Transport Zone", value: draft.network.transportzone },
+                      { label: "Edge Cluster", value: draft.network.edgecluster },
+                      { label: "T0 Gateway", value: draft.network.t0 },
+                    ]}
+                  />
+                )}
               </div>
-            )}
+            </div>
           </div>
-        </div>
+        )}
 
         <DialogFooter className="gap-2 sm:gap-0 pt-0">
-          <Button variant="outline" size="sm" onClick={() => onOpenChange(false)}>
-            Cancel
-          </Button>
-          <Button size="sm" onClick={handleSave} disabled={!canSave}>
-            {saving && <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />}
-            Save Passwords
-          </Button>
+          {step === "review" ? (
+            <>
+              <Button variant="outline" size="sm" onClick={() => setStep("edit")} disabled={saving}>
+                Back
+              </Button>
+              <Button size="sm" onClick={handleSave} disabled={!canReview || saving}>
+                {saving && <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />}
+                Save Changes
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" size="sm" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={() => setStep("review")} disabled={!canReview}>
+                Review Changes{changes.length > 0 && ` (${changes.length})`}
+              </Button>
+            </>
+          )}
         </DialogFooter>
       </DialogContent>
     </Dialog>
@@ -461,17 +531,32 @@ function EndpointEditDialog({
 
 // --- Main Page ---
 
+const NO_ENDPOINTS: EndpointFull[] = []
+const NO_ZPODS: Zpod[] = []
+const NO_PROFILES: Profile[] = []
+
 export function EndpointsPage() {
-  const { fetchEndpoints, fetchZpods, deleteEndpoint } = useApi()
-  const isSuperadmin = useAuthStore((s) => s.user?.superadmin ?? false)
-  const [endpoints, setEndpoints] = useState<EndpointFull[]>([])
-  const [zpods, setZpods] = useState<Zpod[]>([])
-  const [loading, setLoading] = useState(true)
+  const { deleteEndpoint } = useApi()
+  const { data: endpoints = NO_ENDPOINTS, error: endpointsError, isLoading: endpointsLoading, refetch: fetchEndpoints } = useEndpointsQuery()
+  const { data: zpods = NO_ZPODS, error: zpodsError, isLoading: zpodsLoading, refetch: fetchZpods } = useZpodsQuery()
+  const { data: profiles = NO_PROFILES, refetch: fetchProfiles } = useProfilesQuery()
+  const health = useEndpointHealth()
+  const loading = endpointsLoading || zpodsLoading
+  const { can } = usePermissions()
+  const manageCheck = can("endpoint:manage")
   const [createDialogOpen, setCreateDialogOpen] = useState(false)
+  const [createSource, setCreateSource] = useState<EndpointFull | null>(null)
+  const [createSeq, setCreateSeq] = useState(0)
 
   // Edit dialog
   const [editTarget, setEditTarget] = useState<EndpointFull | null>(null)
 
+  // Capacity planner
+  const [capacityTarget, setCapacityTarget] = useState<EndpointFull | null>(null)
+
+  // Orphaned objects report
+  const [orphansTarget, setOrphansTarget] = useState<EndpointFull | null>(null)
+
   // Delete confirmation
   const [deleteTarget, setDeleteTarget] = useState<EndpointFull | null>(null)
   const [deleting, setDeleting] = useState(false)
@@ -479,21 +564,27 @@ export function EndpointsPage() {
   const { sorted } = useSort(endpoints, "name")
 
   const loadData = useCallback(() => {
-    fetchEndpoints().then(setEndpoints).catch(() => {})
-    fetchZpods().then(setZpods).catch(() => {})
+    fetchEndpoints().catch(() => {})
+    fetchZpods().catch(() => {})
   }, [fetchEndpoints, fetchZpods])
 
   useEffect(() => {
-    Promise.all([
-      fetchEndpoints().then(setEndpoints),
-      fetchZpods().then(setZpods),
-    ])
-      .catch(() => toast.error("Failed to fetch endpoints"))
-      .finally(() => setLoading(false))
-  }, [fetchEndpoints, fetchZpods])
+    Promise.all([fetchEndpoints(), fetchZpods()])
+      .catch((err) => {
+        if (!isForbidden(err)) toast.error("Failed to fetch endpoints")
+      })
+    fetchProfiles().catch(() => {})
+  }, [fetchEndpoints, fetchZpods, fetchProfiles])
 
   usePolling(loadData)
 
+  /** Opens the create dialog, blank or pre-filled from `source` */
+  function openCreate(source: EndpointFull | null) {
+    setCreateSource(source)
+    setCreateSeq((n) => n + 1)
+    setCreateDialogOpen(true)
+  }
+
   function zpodsForEndpoint(epId: number): Zpod[] {
     return zpods.filter((z) => z.endpoint?.id === epId)
   }
@@ -514,6 +605,15 @@ export function EndpointsPage() {
     }
   }
 
+  if (isForbidden(endpointsError)) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-2xl font-bold tracking-tight">Endpoints</h1>
+        <NotPermitted what="endpoints" />
+      </div>
+    )
+  }
+
   if (loading) {
     return (
       <div className="space-y-6">
@@ -529,16 +629,18 @@ export function EndpointsPage() {
       <div className="flex items-center gap-3">
         <h1 className="text-2xl font-bold tracking-tight">Endpoints</h1>
         <Badge variant="outline">{endpoints.length} total</Badge>
-        {isSuperadmin && (
-          <Button
-            size="sm"
-            className="ml-auto"
-            onClick={() => setCreateDialogOpen(true)}
-          >
-            <Plus className="mr-1 h-4 w-4" />
-            Add Endpoint
-          </Button>
-        )}
+        <div className="ml-auto">
+          <GuardedAction check={manageCheck}>
+            <Button
+              size="sm"
+              disabled={!manageCheck.allowed}
+              onClick={() => openCreate(null)}
+            >
+              <Plus className="mr-1 h-4 w-4" />
+              Add Endpoint
+            </Button>
+          </GuardedAction>
+        </div>
       </div>
 
       {endpoints.length === 0 ? (
@@ -554,6 +656,7 @@ export function EndpointsPage() {
           {sorted.map((ep) => {
             const epZpods = zpodsForEndpoint(ep.id)
             const hasZpods = epZpods.length > 0
+            const epHealth = health?.enabled ? healthForEndpoint(health, ep) : undefined
 
             return (
             <Card key={ep.id}>
@@ -564,16 +667,48 @@ export function EndpointsPage() {
                     {ep.name}
                   </CardTitle>
                   <div className="flex items-center gap-2">
-                    {isSuperadmin && (
+                    <IconTooltip label="Capacity planner">
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => setCapacityTarget(ep)}
+                      >
+                        <Gauge className="h-3.5 w-3.5" />
+                      </Button>
+                    </IconTooltip>
+                    {manageCheck.allowed ? (
                       <div className="flex items-center gap-1">
-                        <IconTooltip label="Verify & update passwords">
+                        <IconTooltip label="Clone endpoint">
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            className="h-7 w-7"
+                            onClick={() => openCreate(ep)}
+                          >
+                            <Copy className="h-3.5 w-3.5" />
+                          </Button>
+                        </IconTooltip>
+
+                        <IconTooltip label="Orphaned objects">
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            className="h-7 w-7"
+                            onClick={() => setOrphansTarget(ep)}
+                          >
+                            <Ghost className="h-3.5 w-3.5" />
+                          </Button>
+                        </IconTooltip>
+
+                        <IconTooltip label="Edit endpoint">
                           <Button
                             variant="outline"
                             size="icon"
                             className="h-7 w-7"
                             onClick={() => setEditTarget(ep)}
                           >
-                            <KeyRound className="h-3.5 w-3.5" />
+                            <Pencil className="h-3.5 w-3.5" />
                           </Button>
                         </IconTooltip>
 
@@ -636,6 +771,32 @@ export function EndpointsPage() {
                           </IconTooltip>
                         )}
                       </div>
+                    ) : (
+                      <div className="flex items-center gap-1">
+                        <GuardedAction check={manageCheck}>
+                          <Button variant="outline" size="icon" className="h-7 w-7" disabled>
+                            <Copy className="h-3.5 w-3.5" />
+                          </Button>
+                        </GuardedAction>
+                        <GuardedAction check={manageCheck}>
+                          <Button variant="outline" size="icon" className="h-7 w-7" disabled>
+                            <Ghost className="h-3.5 w-3.5" />
+                          </Button>
+                        </GuardedAction>
+                        <GuardedAction check={manageCheck}>
+                          <Button variant="outline" size="icon" className="h-7 w-7" disabled>
+                            <Pencil className="h-3.5 w-3.5" />
+                          </Button>
+                        </GuardedAction>
+                        <GuardedAction check={manageCheck}>
+                          <Button variant="outline" size="icon" className="h-7 w-7" disabled>
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        </GuardedAction>
+                      </div>
+                    )}
+                    {epHealth && (
+                      <EndpointHealthBadge endpoint={ep} history={epHealth} intervalSeconds={health?.intervalSeconds ?? 60} />
                     )}
                     {ep.status === "ACTIVE" ? (
                       <Badge variant="default" className="gap-1">
@@ -703,21 +864,48 @@ export function EndpointsPage() {
     </div>
 
     <EndpointCreateDialog
+      key={createSeq}
       open={createDialogOpen}
       onOpenChange={setCreateDialogOpen}
       onCreateComplete={loadData}
+      endpoints={endpoints}
+      source={createSource}
     />
 
-    {/* Edit/Verify Dialog */}
+    {/* Edit Dialog */}
     {editTarget && (
       <EndpointEditDialog
         endpoint={editTarget}
+        zpods={zpodsForEndpoint(editTarget.id)}
         open={!!editTarget}
         onOpenChange={(open) => { if (!open) setEditTarget(null) }}
         onSaveComplete={loadData}
       />
     )}
 
+    {capacityTarget && (
+      <EndpointCapacityDialog
+        endpoint={capacityTarget}
+        zpods={zpodsForEndpoint(capacityTarget.id)}
+        profiles={profiles}
+        open={!!capacityTarget}
+        onOpenChange={(open) => { if (!open) setCapacityTarget(null) }}
+      />
+    )}
+
+    {/* Orphaned Objects */}
+    {orphansTarget && (
+      <EndpointOrphansDialog
+        key={orphansTarget.id}
+        endpoint={orphansTarget}
+        zpods={zpods}
+        zpodsLoading={zpodsLoading}
+        zpodsError={zpodsError}
+        open={!!orphansTarget}
+        onOpenChange={(open) => { if (!open) setOrphansTarget(null) }}
+      />
+    )}
+
     {/* Delete Confirmation */}
     <ConfirmationDialog
       open={!!deleteTarget}
@@ -1,15 +1,26 @@
-import { useCallback, useEffect, useState } from "react"
-import { useApi } from "@/hooks/use-api"
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { Link } from "react-router"
+import { useApi, useComponentsQuery } from "@/hooks/use-api"
 import { usePolling } from "@/hooks/use-polling"
+import { usePermissions } from "@/hooks/use-permissions"
+import { useLibrarySync } from "@/hooks/use-library-sync"
 import { useSort } from "@/hooks/use-sort"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Skeleton } from "@/components/ui/skeleton"
+import { Switch } from "@/components/ui/switch"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import { NotPermitted } from "@/components/not-permitted"
+import { GuardedAction } from "@/components/guarded-action"
+import { ConfirmationDialog } from "@/components/confirmation-dialog"
+import { LibraryDialog } from "@/components/library-dialog"
+import { LibrarySyncReportDialog } from "@/components/library-sync-report-dialog"
+import { StatusBadge } from "@/components/status-badge"
+import { isForbidden } from "@/lib/api"
 import { toast } from "sonner"
-import { BookOpen, GitBranch, CheckCircle2, XCircle, RefreshCw } from "lucide-react"
-import { useAuthStore } from "@/stores/auth-store"
-import type { Library } from "@/types"
+import { BookOpen, GitBranch, CheckCircle2, XCircle, RefreshCw, Plus, Pencil, Trash2, ChevronRight, Puzzle } from "lucide-react"
+import type { ComponentFull, Library, LibraryCreate } from "@/types"
 import { formatDateTime } from "@/lib/utils"
 
 function daysAgo(dateStr: string): { label: string; days: number } {
@@ -28,44 +39,146 @@ function ageBadgeClasses(days: number): string {
 }
 
 export function LibrariesPage() {
-  const { fetchLibraries, resyncLibrary } = useApi()
-  const { user } = useAuthStore()
-  const isSuperadmin = user?.superadmin ?? false
+  const { fetchLibraries, createLibrary, updateLibrary, deleteLibrary, enableLibrary, disableLibrary } = useApi()
+  const { data: components, refetch: fetchComponents } = useComponentsQuery()
+  const { can } = usePermissions()
+  const manageCheck = can("library:manage")
   const [libraries, setLibraries] = useState<Library[]>([])
   const [loading, setLoading] = useState(true)
-  const [syncing, setSyncing] = useState<Set<string>>(new Set())
+  const [forbidden, setForbidden] = useState(false)
+  const [starting, setStarting] = useState<Set<number>>(new Set())
+  const { syncs, startSync } = useLibrarySync()
+  const [reportTarget, setReportTarget] = useState<number | null>(null)
   const { sorted } = useSort(libraries, "name")
 
+  // Editor dialog state, keyed per opening so the form starts fresh
+  const [editorOpen, setEditorOpen] = useState(false)
+  const [editorSeq, setEditorSeq] = useState(0)
+  const [editTarget, setEditTarget] = useState<Library | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const [toggling, setToggling] = useState<Set<number>>(new Set())
+  const [deleteTarget, setDeleteTarget] = useState<Library | null>(null)
+  const [deleting, setDeleting] = useState(false)
+
+  const componentsByLibrary = useMemo(() => {
+    const map = new Map<string, ComponentFull[]>()
+    for (const c of components ?? []) {
+      if (!map.has(c.library_name)) map.set(c.library_name, [])
+      map.get(c.library_name)!.push(c)
+    }
+    for (const list of map.values()) {
+      list.sort((a, b) => a.component_uid.localeCompare(b.component_uid, undefined, { numeric: true }))
+    }
+    return map
+  }, [components])
+
   const handleResync = async (lib: Library) => {
-    setSyncing((prev) => new Set(prev).add(lib.name))
+    setStarting((prev) => new Set(prev).add(lib.id))
     try {
-      await resyncLibrary(String(lib.id))
+      await startSync(lib)
       toast.success(`Resync started for "${lib.name}"`)
       loadLibraries()
     } catch {
       toast.error(`Failed to resync "${lib.name}"`)
     } finally {
-      setSyncing((prev) => {
+      setStarting((prev) => {
         const next = new Set(prev)
-        next.delete(lib.name)
+        next.delete(lib.id)
         return next
       })
     }
   }
 
+  const openEditor = (lib: Library | null) => {
+    setEditTarget(lib)
+    setEditorSeq((n) => n + 1)
+    setEditorOpen(true)
+  }
+
+  const handleSave = async (payload: LibraryCreate) => {
+    setSaving(true)
+    try {
+      if (editTarget) {
+        await updateLibrary(editTarget.id, { git_url: payload.git_url, description: payload.description })
+        toast.success(`Library "${editTarget.name}" updated`)
+      } else {
+        await createLibrary(payload)
+        toast.success(`Library "${payload.name}" created, its components are being synced`)
+      }
+      setEditorOpen(false)
+      loadLibraries()
+    } catch {
+      toast.error(
+        editTarget
+          ? `Failed to update library "${editTarget.name}"`
+          : `Failed to create library "${payload.name}"`
+      )
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggle = async (lib: Library) => {
+    setToggling((prev) => new Set(prev).add(lib.id))
+    try {
+      if (lib.enabled) await disableLibrary(lib.id)
+      else await enableLibrary(lib.id)
+      toast.success(`Library "${lib.name}" ${lib.enabled ? "disabled" : "enabled"}`)
+      loadLibraries()
+    } catch {
+      toast.error(`Failed to ${lib.enabled ? "disable" : "enable"} library "${lib.name}"`)
+    } finally {
+      setToggling((prev) => {
+        const next = new Set(prev)
+        next.delete(lib.id)
+        return next
+      })
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return
+    setDeleting(true)
+    try {
+      await deleteLibrary(deleteTarget.id)
+      toast.success(`Library "${deleteTarget.name}" deleted`)
+      setDeleteTarget(null)
+      loadLibraries()
+    } catch {
+      toast.error(`Failed to delete library "${deleteTarget.name}"`)
+    } finally {
+      setDeleting(false)
+    }
+  }
+
   const loadLibraries = useCallback(() => {
     fetchLibraries().then(setLibraries).catch(() => {})
-  }, [fetchLibraries])
+    fetchComponents().catch(() => {})
+  }, [fetchLibraries, fetchComponents])
 
   useEffect(() => {
     fetchLibraries()
       .then(setLibraries)
-      .catch(() => toast.error("Failed to fetch libraries"))
+      .catch((err) => {
+        if (isForbidden(err)) setForbidden(true)
+        else toast.error("Failed to fetch libraries")
+      })
       .finally(() => setLoading(false))
-  }, [fetchLibraries])
+    fetchComponents().catch(() => {})
+  }, [fetchLibraries, fetchComponents])
 
   usePolling(loadLibraries)
 
+  if (forbidden) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-2xl font-bold tracking-tight">Libraries</h1>
+        <NotPermitted what="component libraries" />
+      </div>
+    )
+  }
+
   if (loading) {
     return (
       <div className="space-y-6">
@@ -80,9 +193,17 @@ export function LibrariesPage() {
 
   return (
     <div className="space-y-6">
-      <div className="flex items-center gap-3">
-        <h1 className="text-2xl font-bold tracking-tight">Libraries</h1>
-        <Badge variant="outline">{libraries.length} total</Badge>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <h1 className="text-2xl font-bold tracking-tight">Libraries</h1>
+          <Badge variant="outline">{libraries.length} total</Badge>
+        </div>
+        <GuardedAction check={manageCheck}>
+          <Button size="sm" className="gap-1.5" disabled={!manageCheck.allowed} onClick={() => openEditor(null)}>
+            <Plus className="h-3.5 w-3.5" />
+            Add Library
+          </Button>
+        </GuardedAction>
       </div>
 
       {libraries.length === 0 ? (
@@ -95,7 +216,12 @@ export function LibrariesPage() {
         </Card>
       ) : (
         <div className="grid gap-4 md:grid-cols-2">
-          {sorted.map((lib) => (
+          {sorted.map((lib) => {
+            const provided = componentsByLibrary.get(lib.name) ?? []
+            const active = provided.filter((c) => c.status === "ACTIVE").length
+            const sync = syncs.get(lib.id)
+            const syncing = starting.has(lib.id) || sync?.status === "syncing"
+            return (
             <Card key={lib.id}>
               <CardHeader className="pb-3">
                 <div className="flex items-center justify-between">
@@ -103,17 +229,26 @@ export function LibrariesPage() {
                     <BookOpen className="h-4 w-4" />
                     {lib.name}
                   </CardTitle>
-                  {lib.enabled ? (
-                    <Badge variant="default" className="gap-1">
-                      <CheckCircle2 className="h-3 w-3" />
-                      Enabled
-                    </Badge>
-                  ) : (
-                    <Badge variant="secondary" className="gap-1">
-                      <XCircle className="h-3 w-3" />
-                      Disabled
-                    </Badge>
-                  )}
+                  <div className="flex items-center gap-2">
+                    {lib.enabled ? (
+                      <Badge variant="default" className="gap-1">
+                        <CheckCircle2 className="h-3 w-3" />
+                        Enabled
+                      </Badge>
+                    ) : (
+                      <Badge variant="secondary" className="gap-1">
+                        <XCircle className="h-3 w-3" />
+                        Disabled
+                      </Badge>
+                    )}
+                    <GuardedAction check={manageCheck} label={lib.enabled ? "Disable library" : "Enable library"}>
+                      <Switch
+                        checked={lib.enabled}
+                        disabled={!manageCheck.allowed || toggling.has(lib.id)}
+                        onCheckedChange={() => handleToggle(lib)}
+                      />
+                    </GuardedAction>
+                  </div>
                 </div>
               </CardHeader>
               <CardContent className="space-y-3">
@@ -137,8 +272,43 @@ export function LibrariesPage() {
                     <span>Modified: {formatDateTime(lib.last_modified_date)}</span>
                   )}
                 </div>
+                <Collapsible>
+                  <CollapsibleTrigger
+                    className="group flex items-center gap-1.5 text-sm text-muted-foreground hover:text-foreground disabled:pointer-events-none"
+                    disabled={provided.length === 0}
+                  >
+                    <ChevronRight className="h-3.5 w-3.5 transition-transform group-data-[state=open]:rotate-90" />
+                    <Puzzle className="h-3.5 w-3.5" />
+                    {provided.length} component{provided.length !== 1 ? "s" : ""}
+                    {provided.length > 0 && <span className="text-xs">({active} active)</span>}
+                  </CollapsibleTrigger>
+                  <CollapsibleContent>
+                    <div className="mt-2 max-h-60 overflow-y-auto border">
+                      {provided.map((c) => (
+                        <div key={c.id} className="flex items-center justify-between gap-2 px-3 py-1 text-xs">
+                          <Link
+                            to={`/components?search=${encodeURIComponent(c.component_uid)}`}
+                            className="font-mono truncate hover:text-primary"
+                          >
+                            {c.component_uid}
+                          </Link>
+                          <StatusBadge status={c.status} />
+                        </div>
+                      ))}
+                    </div>
+                  </CollapsibleContent>
+                </Collapsible>
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-2">
+                    {sync && (
+                      <button
+                        type="button"
+                        className="text-xs text-primary hover:underline"
+                        onClick={() => setReportTarget(lib.id)}
+                      >
+                        {sync.status === "syncing" ? "Sync in progress" : "Last sync report"}
+                      </button>
+                    )}
                     {lib.last_modified_date && (() => {
                       const { label, days } = daysAgo(lib.last_modified_date)
                       return (
@@ -148,22 +318,81 @@ export function LibrariesPage() {
                       )
                     })()}
                   </div>
-                  {isSuperadmin && <Button
-                    variant="outline"
-                    size="sm"
-                    className="h-7 gap-1.5 text-xs"
-                    disabled={syncing.has(lib.name)}
-                    onClick={() => handleResync(lib)}
-                  >
-                    <RefreshCw className={`h-3 w-3 ${syncing.has(lib.name) ? "animate-spin" : ""}`} />
-                    Resync
-                  </Button>}
+                  <div className="flex items-center gap-1">
+                    <GuardedAction check={manageCheck} label="Edit">
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        className="h-7 w-7"
+                        disabled={!manageCheck.allowed}
+                        onClick={() => openEditor(lib)}
+                      >
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                    </GuardedAction>
+                    <GuardedAction check={manageCheck} label="Delete">
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        className="h-7 w-7 text-destructive hover:text-destructive"
+                        disabled={!manageCheck.allowed}
+                        onClick={() => setDeleteTarget(lib)}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </GuardedAction>
+                    <GuardedAction check={manageCheck}>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7 gap-1.5 text-xs"
+                        disabled={!manageCheck.allowed || syncing}
+                        onClick={() => handleResync(lib)}
+                      >
+                        <RefreshCw className={`h-3 w-3 ${syncing ? "animate-spin" : ""}`} />
+                        Resync
+                      </Button>
+                    </GuardedAction>
+                  </div>
                 </div>
               </CardContent>
             </Card>
-          ))}
+            )
+          })}
         </div>
       )}
+
+      <LibraryDialog
+        key={editorSeq}
+        open={editorOpen}
+        onOpenChange={setEditorOpen}
+        library={editTarget}
+        libraries={libraries}
+        saving={saving}
+        onSave={handleSave}
+      />
+
+      <LibrarySyncReportDialog
+        sync={reportTarget != null ? syncs.get(reportTarget) ?? null : null}
+        onOpenChange={(open) => !open && setReportTarget(null)}
+      />
+
+      <ConfirmationDialog
+        open={deleteTarget != null}
+        onOpenChange={() => setDeleteTarget(null)}
+        title="Delete Library"
+        description={
+          <>
+            Are you sure you want to delete{" "}<span className="font-semibold">{deleteTarget?.name}</span>?
+            {deleteTarget && (componentsByLibrary.get(deleteTarget.name)?.length ?? 0) > 0 &&
+              ` Its ${componentsByLibrary.get(deleteTarget.name)!.length} components will no longer be available to profiles and new zPods.`}
+            {" "}This action cannot be undone.
+          </>
+        }
+        onConfirm={handleDelete}
+        loading={deleting}
+        confirmText="Delete"
+      />
     </div>
   )
 }
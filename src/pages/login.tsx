@@ -2,6 +2,7 @@ import { useState, useRef, useEffect } from "react"
 import { useNavigate, useSearchParams } from "react-router"
 import { useTargetStore } from "@/stores/target-store"
 import { useAuthStore } from "@/stores/auth-store"
+import { useVaultLocked, useVaultStore } from "@/stores/vault-store"
 import { validateTarget } from "@/hooks/use-api"
 import { generateId } from "@/lib/utils"
 import { Button } from "@/components/ui/button"
@@ -10,8 +11,11 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Separator } from "@/components/ui/separator"
 import { TargetDialog } from "@/components/target/target-dialog"
+import { SettingsExportDialog } from "@/components/target/settings-export-dialog"
+import { SettingsImportDialog } from "@/components/target/settings-import-dialog"
 import { toast } from "sonner"
 import { IconTooltip } from "@/components/icon-tooltip"
+import { ConfirmationDialog } from "@/components/confirmation-dialog"
 import {
   Plug,
   Pencil,
@@ -19,9 +23,84 @@ import {
   Plus,
   Loader2,
   Server,
+  Lock,
+  LockOpen,
+  Download,
+  Upload,
 } from "lucide-react"
 import type { TargetProfile } from "@/types"
 
+/** Passphrase prompt shown while the target tokens are sealed */
+function VaultUnlockCard() {
+  const { unlock, reset } = useVaultStore()
+  const [passphrase, setPassphrase] = useState("")
+  const [unlocking, setUnlocking] = useState(false)
+  const [showReset, setShowReset] = useState(false)
+
+  async function handleUnlock() {
+    if (!passphrase) return
+    setUnlocking(true)
+    const ok = await unlock(passphrase)
+    setUnlocking(false)
+    if (!ok) {
+      toast.error("Wrong passphrase")
+      return
+    }
+    setPassphrase("")
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Lock className="h-4 w-4" />
+          Token vault locked
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="vault-passphrase">Passphrase</Label>
+          <Input
+            id="vault-passphrase"
+            type="password"
+            autoFocus
+            autoComplete="current-password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleUnlock()}
+          />
+        </div>
+        <Button className="w-full" onClick={handleUnlock} disabled={!passphrase || unlocking}>
+          {unlocking ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <LockOpen className="mr-2 h-4 w-4" />
+          )}
+          Unlock
+        </Button>
+        <button
+          className="block w-full text-center text-xs text-muted-foreground hover:underline hover:text-foreground"
+          onClick={() => setShowReset(true)}
+        >
+          Forgot the passphrase?
+        </button>
+      </CardContent>
+      <ConfirmationDialog
+        open={showReset}
+        onOpenChange={setShowReset}
+        title="Reset token vault"
+        description="The encrypted tokens are deleted. Saved targets are kept, edit each one to enter its API token again."
+        onConfirm={() => {
+          reset()
+          setShowReset(false)
+        }}
+        loading={false}
+        confirmText="Reset vault"
+      />
+    </Card>
+  )
+}
+
 export function LoginPage() {
   const navigate = useNavigate()
   const [searchParams] = useSearchParams()
@@ -29,10 +108,13 @@ export function LoginPage() {
   const { targets, addTarget, removeTarget, setActiveTarget, updateTarget } =
     useTargetStore()
   const { setUser, setLoading, isLoading } = useAuthStore()
+  const vaultLocked = useVaultLocked()
 
   const [connectingId, setConnectingId] = useState<string | null>(null)
   const [editTarget, setEditTarget] = useState<TargetProfile | null>(null)
   const [showAddDialog, setShowAddDialog] = useState(false)
+  const [showImport, setShowImport] = useState(false)
+  const [showExport, setShowExport] = useState(false)
   const autoConnectAttempted = useRef(false)
 
   const nameRef = useRef<HTMLInputElement>(null)
@@ -114,14 +196,15 @@ export function LoginPage() {
 
   // Auto-connect when exactly one saved target exists,
   // but skip if the user just explicitly disconnected this session.
+  // Sealed tokens are only usable once the vault is unlocked.
   useEffect(() => {
-    if (autoConnectAttempted.current) return
+    if (autoConnectAttempted.current || vaultLocked) return
     if (sessionStorage.getItem("zpodweb-manual-disconnect")) return
     if (targets.length === 1) {
       autoConnectAttempted.current = true
       handleConnect(targets[0])
     }
-  }, [targets.length]) // eslint-disable-line react-hooks/exhaustive-deps
+  }, [targets.length, vaultLocked]) // eslint-disable-line react-hooks/exhaustive-deps
 
   return (
     <div className="flex min-h-screen flex-col items-center justify-center bg-background p-4">
@@ -141,8 +224,10 @@ export function LoginPage() {
           </p>
         </div>
 
+        {vaultLocked && <VaultUnlockCard />}
+
         {/* Saved targets */}
-        {targets.length > 0 && (
+        {targets.length > 0 && !vaultLocked && (
           <Card>
             <CardHeader className="pb-3">
               <CardTitle className="text-base">Saved Targets</CardTitle>
@@ -199,20 +284,32 @@ export function LoginPage() {
                   </div>
                 </div>
               ))}
-              <Button
-                variant="outline"
-                size="sm"
-                className="w-full"
-                onClick={() => setShowAddDialog(true)}
-              >
-                <Plus className="mr-1 h-3 w-3" /> Add Target
-              </Button>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="flex-1"
+                  onClick={() => setShowAddDialog(true)}
+                >
+                  <Plus className="mr-1 h-3 w-3" /> Add Target
+                </Button>
+                <IconTooltip label="Import targets and preferences">
+                  <Button variant="outline" size="sm" onClick={() => setShowImport(true)}>
+                    <Upload className="h-3 w-3" />
+                  </Button>
+                </IconTooltip>
+                <IconTooltip label="Export targets and preferences">
+                  <Button variant="outline" size="sm" onClick={() => setShowExport(true)}>
+                    <Download className="h-3 w-3" />
+                  </Button>
+                </IconTooltip>
+              </div>
             </CardContent>
           </Card>
         )}
 
         {/* Quick connect — only shown when no saved targets (first-time) */}
-        {targets.length === 0 && (
+        {targets.length === 0 && !vaultLocked && (
           <>
             <Separator />
             <Card>
@@ -268,6 +365,12 @@ export function LoginPage() {
                   )}
                   Connect
                 </Button>
+                <button
+                  className="block w-full text-center text-xs text-muted-foreground hover:underline hover:text-foreground"
+                  onClick={() => setShowImport(true)}
+                >
+                  Import settings from another browser
+                </button>
               </CardContent>
             </Card>
           </>
@@ -297,6 +400,9 @@ export function LoginPage() {
         target={editTarget}
         onSave={handleSaveTarget}
       />
+
+      <SettingsImportDialog open={showImport} onOpenChange={setShowImport} />
+      <SettingsExportDialog open={showExport} onOpenChange={setShowExport} />
     </div>
   )
 }
@@ -1,6 +1,6 @@
 import { useCallback, useEffect, useRef, useState } from "react"
 import { useSearchParams } from "react-router"
-import { useApi } from "@/hooks/use-api"
+import { useApi, useComponentsQuery, useProfilesQuery } from "@/hooks/use-api"
 import { usePolling } from "@/hooks/use-polling"
 import { useSort } from "@/hooks/use-sort"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
@@ -15,24 +15,26 @@ import { ProfileEditorDialog } from "@/components/profile-editor-dialog"
 import { ProfileImportDialog } from "@/components/profile-import-dialog"
 import { useAuthStore } from "@/stores/auth-store"
 import { ProfileTrunk } from "@/components/profile-trunk"
+import { NotPermitted } from "@/components/not-permitted"
+import { isForbidden } from "@/lib/api"
 import { copyToClipboard } from "@/lib/utils"
 import { flattenProfileItems } from "@/lib/profile-utils"
 import type { ComponentFull, Profile, ProfileItemCreate } from "@/types"
 
+const NO_PROFILES: Profile[] = []
+const NO_COMPONENTS: ComponentFull[] = []
 
 export function ProfilesPage() {
   const {
-    fetchProfiles,
-    fetchComponents,
     createProfile,
     updateProfile,
     deleteProfile,
   } = useApi()
+  const { data: profiles = NO_PROFILES, error: profilesError, isLoading: profilesLoading, refetch: fetchProfiles } = useProfilesQuery()
+  const { data: components = NO_COMPONENTS, isLoading: componentsLoading, refetch: fetchComponents } = useComponentsQuery()
+  const loading = profilesLoading || componentsLoading
   const { user } = useAuthStore()
   const isSuperadmin = user?.superadmin ?? false
-  const [profiles, setProfiles] = useState<Profile[]>([])
-  const [components, setComponents] = useState<ComponentFull[]>([])
-  const [loading, setLoading] = useState(true)
   const [expanded, setExpanded] = useState<Set<number>>(new Set())
   const { sorted } = useSort(profiles, "name")
 
@@ -55,17 +57,14 @@ export function ProfilesPage() {
   const highlightApplied = useRef(false)
 
   const loadProfiles = useCallback(() => {
-    fetchProfiles().then(setProfiles).catch(() => {})
+    fetchProfiles().catch(() => {})
   }, [fetchProfiles])
 
   useEffect(() => {
     Promise.all([fetchProfiles(), fetchComponents()])
-      .then(([p, c]) => {
-        setProfiles(p)
-        setComponents(c)
+      .catch((err) => {
+        if (!isForbidden(err)) toast.error("Failed to fetch data")
       })
-      .catch(() => toast.error("Failed to fetch data"))
-      .finally(() => setLoading(false))
   }, [fetchProfiles, fetchComponents])
 
   usePolling(loadProfiles)
@@ -192,6 +191,15 @@ export function ProfilesPage() {
     }
   }
 
+  if (isForbidden(profilesError)) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-2xl font-bold tracking-tight">Profiles</h1>
+        <NotPermitted what="profiles" />
+      </div>
+    )
+  }
+
   if (loading) {
     return (
       <div className="space-y-6">
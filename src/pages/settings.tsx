@@ -1,6 +1,7 @@
 import { useCallback, useEffect, useState } from "react"
 import { useApi } from "@/hooks/use-api"
 import { usePolling } from "@/hooks/use-polling"
+import { usePermissions } from "@/hooks/use-permissions"
 import { useSort } from "@/hooks/use-sort"
 import { Card, CardContent } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
@@ -28,17 +29,20 @@ import { SortableHead } from "@/components/sortable-head"
 import { Skeleton } from "@/components/ui/skeleton"
 import { toast } from "sonner"
 import { IconTooltip } from "@/components/icon-tooltip"
+import { NotPermitted } from "@/components/not-permitted"
+import { GuardedAction } from "@/components/guarded-action"
+import { isForbidden } from "@/lib/api"
 import { Copy, Loader2, Pencil, Plus, Trash2 } from "lucide-react"
 import { copyToClipboard } from "@/lib/utils"
-import { useAuthStore } from "@/stores/auth-store"
 import type { Setting } from "@/types"
 
 export function SettingsPage() {
   const { fetchSettings, createSetting, updateSetting, deleteSetting } = useApi()
-  const { user } = useAuthStore()
-  const isSuperadmin = user?.superadmin ?? false
+  const { can } = usePermissions()
+  const manageCheck = can("setting:manage")
   const [settings, setSettings] = useState<Setting[]>([])
   const [loading, setLoading] = useState(true)
+  const [forbidden, setForbidden] = useState(false)
   const { sorted, sort, toggleSort } = useSort(settings, "name")
 
   // Editor dialog state
@@ -61,7 +65,10 @@ export function SettingsPage() {
   useEffect(() => {
     fetchSettings()
       .then(setSettings)
-      .catch(() => toast.error("Failed to fetch settings"))
+      .catch((err) => {
+        if (isForbidden(err)) setForbidden(true)
+        else toast.error("Failed to fetch settings")
+      })
       .finally(() => setLoading(false))
   }, [fetchSettings])
 
@@ -132,6 +139,15 @@ export function SettingsPage() {
     ? formValue.trim().length > 0
     : formName.trim().length > 0 && formDesc.trim().length > 0 && formValue.trim().length > 0
 
+  if (forbidden) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-2xl font-bold tracking-tight">Settings</h1>
+        <NotPermitted what="factory settings" />
+      </div>
+    )
+  }
+
   if (loading) {
     return (
       <div className="space-y-6">
@@ -148,12 +164,12 @@ export function SettingsPage() {
           <h1 className="text-2xl font-bold tracking-tight">Settings</h1>
           <Badge variant="outline">{settings.length} total</Badge>
         </div>
-        {isSuperadmin && (
-          <Button size="sm" className="gap-1.5" onClick={handleCreate}>
+        <GuardedAction check={manageCheck}>
+          <Button size="sm" className="gap-1.5" disabled={!manageCheck.allowed} onClick={handleCreate}>
             <Plus className="h-3.5 w-3.5" />
             Add Setting
           </Button>
-        )}
+        </GuardedAction>
       </div>
 
       <Card>
@@ -202,30 +218,28 @@ export function SettingsPage() {
                             <Copy className="h-3 w-3" />
                           </Button>
                         </IconTooltip>
-                        {isSuperadmin && (
-                          <>
-                            <IconTooltip label="Edit">
-                              <Button
-                                variant="outline"
-                                size="icon"
-                                className="h-7 w-7"
-                                onClick={() => handleEdit(setting)}
-                              >
-                                <Pencil className="h-3 w-3" />
-                              </Button>
-                            </IconTooltip>
-                            <IconTooltip label="Delete">
-                              <Button
-                                variant="outline"
-                                size="icon"
-                                className="h-7 w-7 text-destructive hover:text-destructive"
-                                onClick={() => setDeleteTarget(setting)}
-                              >
-                                <Trash2 className="h-3 w-3" />
-                              </Button>
-                            </IconTooltip>
-                          </>
-                        )}
+                        <GuardedAction check={manageCheck} label="Edit">
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            className="h-7 w-7"
+                            disabled={!manageCheck.allowed}
+                            onClick={() => handleEdit(setting)}
+                          >
+                            <Pencil className="h-3 w-3" />
+                          </Button>
+                        </GuardedAction>
+                        <GuardedAction check={manageCheck} label="Delete">
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            className="h-7 w-7 text-destructive hover:text-destructive"
+                            disabled={!manageCheck.allowed}
+                            onClick={() => setDeleteTarget(setting)}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </GuardedAction>
                       </div>
                     </TableCell>
                   </TableRow>
@@ -0,0 +1,428 @@
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { useApi, useUsersQuery, useZpodsQuery } from "@/hooks/use-api"
+import { usePolling } from "@/hooks/use-polling"
+import { useSort } from "@/hooks/use-sort"
+import { Card, CardContent } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { ConfirmationDialog } from "@/components/confirmation-dialog"
+import { SortableHead } from "@/components/sortable-head"
+import { Skeleton } from "@/components/ui/skeleton"
+import { StatusBadge } from "@/components/status-badge"
+import { NotPermitted } from "@/components/not-permitted"
+import { GuardedAction } from "@/components/guarded-action"
+import { IconTooltip } from "@/components/icon-tooltip"
+import { toast } from "sonner"
+import { isForbidden } from "@/lib/api"
+import { permissionUsers, type PermissionCheck } from "@/lib/permissions"
+import { copyToClipboard, formatDateTime } from "@/lib/utils"
+import { useAuthStore } from "@/stores/auth-store"
+import { useTargetStore } from "@/stores/target-store"
+import {
+  Copy,
+  KeyRound,
+  Loader2,
+  Plus,
+  Search,
+  ShieldMinus,
+  ShieldPlus,
+  UserCheck,
+  UserX,
+} from "lucide-react"
+import type { User, UserWithToken } from "@/types"
+
+const NO_USERS: User[] = []
+
+type UserAction = "disable" | "enable" | "promote" | "demote" | "token"
+
+const ACTION_COPY: Record<UserAction, { title: string; confirm: string; describe: (name: string) => string }> = {
+  enable: { title: "Enable User", confirm: "Enable", describe: (n) => `${n} will be able to sign in with their API token again.` },
+  disable: { title: "Disable User", confirm: "Disable", describe: (n) => `${n} will no longer be able to use the factory. Their zPods are kept.` },
+  promote: { title: "Promote to Superadmin", confirm: "Promote", describe: (n) => `${n} will get full control over every zPod, endpoint and factory setting.` },
+  demote: { title: "Remove Superadmin", confirm: "Demote", describe: (n) => `${n} will only keep access to the zPods they hold permissions on.` },
+  token: { title: "Regenerate API Token", confirm: "Regenerate", describe: (n) => `The current API token of ${n} stops working immediately. The new one is shown once.` },
+}
+
+const ALLOWED: PermissionCheck = { allowed: true }
+
+export function UsersPage() {
+  const { createUser, updateUser, enableUser, disableUser, regenerateUserToken } = useApi()
+  const { data: users = NO_USERS, error, isLoading: loading, refetch: fetchUsers } = useUsersQuery()
+  const { data: zpods, refetch: fetchZpods } = useZpodsQuery()
+  const currentUser = useAuthStore((s) => s.user)
+  const { activeTargetId, updateTarget } = useTargetStore()
+  const [filter, setFilter] = useState("")
+
+  // Create dialog state
+  const [createOpen, setCreateOpen] = useState(false)
+  const [formUsername, setFormUsername] = useState("")
+  const [formEmail, setFormEmail] = useState("")
+  const [formDesc, setFormDesc] = useState("")
+  const [formSuperadmin, setFormSuperadmin] = useState(false)
+  const [creating, setCreating] = useState(false)
+
+  // Row action + issued token state
+  const [pending, setPending] = useState<{ action: UserAction; user: User } | null>(null)
+  const [running, setRunning] = useState(false)
+  const [issued, setIssued] = useState<UserWithToken | null>(null)
+
+  const loadUsers = useCallback(() => {
+    fetchUsers().catch((err) => {
+      if (!isForbidden(err)) toast.error("Failed to fetch users")
+    })
+  }, [fetchUsers])
+
+  useEffect(() => {
+    loadUsers()
+    fetchZpods().catch(() => {})
+  }, [loadUsers, fetchZpods])
+
+  usePolling(loadUsers)
+
+  // Owned zPods per user id
+  const zpodCounts = useMemo(() => {
+    const counts = new Map<number, number>()
+    for (const z of zpods ?? []) {
+      for (const u of permissionUsers(z, "OWNER")) counts.set(u.id, (counts.get(u.id) ?? 0) + 1)
+    }
+    return counts
+  }, [zpods])
+
+  const rows = useMemo(() => {
+    const q = filter.trim().toLowerCase()
+    return users
+      .filter((u) =>
+        !q ||
+        u.username.toLowerCase().includes(q) ||
+        u.email.toLowerCase().includes(q) ||
+        (u.description ?? "").toLowerCase().includes(q)
+      )
+      .map((u) => ({ ...u, zpod_count: zpodCounts.get(u.id) ?? 0 }))
+  }, [users, zpodCounts, filter])
+
+  const { sorted, sort, toggleSort } = useSort(rows, "username")
+
+  const handleCreateOpen = () => {
+    setFormUsername("")
+    setFormEmail("")
+    setFormDesc("")
+    setFormSuperadmin(false)
+    setCreateOpen(true)
+  }
+
+  const handleCreate = async () => {
+    setCreating(true)
+    try {
+      const created = await createUser({
+        username: formUsername.trim(),
+        email: formEmail.trim(),
+        description: formDesc.trim() || null,
+        superadmin: formSuperadmin,
+      })
+      toast.success(`User "${created.username}" created`)
+      setCreateOpen(false)
+      if (created.api_token) setIssued(created)
+      loadUsers()
+    } catch {
+      toast.error(`Failed to create user "${formUsername.trim()}"`)
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const handleAction = async () => {
+    if (!pending) return
+    const { action, user } = pending
+    setRunning(true)
+    try {
+      if (action === "enable") await enableUser(user.id)
+      else if (action === "disable") await disableUser(user.id)
+      else if (action === "promote" || action === "demote") {
+        await updateUser(user.id, { superadmin: action === "promote" })
+      } else {
+        const updated = await regenerateUserToken(user.id)
+        // Our own token changed: keep the saved target working
+        if (user.id === currentUser?.id && activeTargetId) {
+          updateTarget(activeTargetId, { token: updated.api_token })
+        }
+        setIssued(updated)
+      }
+      if (action !== "token") toast.success(`${ACTION_COPY[action].confirm}d user "${user.username}"`)
+      setPending(null)
+      loadUsers()
+    } catch {
+      toast.error(`Failed to ${ACTION_COPY[action].confirm.toLowerCase()} user "${user.username}"`)
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  // Superadmins cannot lock themselves out
+  const selfCheck = (user: User, reason: string): PermissionCheck =>
+    user.id === currentUser?.id ? { allowed: false, reason } : ALLOWED
+
+  const isValid =
+    formUsername.trim().length > 0 && /^[^@\s]+@[^@\s]+$/.test(formEmail.trim())
+
+  if (error && isForbidden(error)) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-2xl font-bold tracking-tight">Users</h1>
+        <NotPermitted what="users" />
+      </div>
+    )
+  }
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-96" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <h1 className="text-2xl font-bold tracking-tight">Users</h1>
+          <Badge variant="outline">{sorted.length} / {users.length}</Badge>
+        </div>
+        <Button size="sm" className="gap-1.5" onClick={handleCreateOpen}>
+          <Plus className="h-3.5 w-3.5" />
+          Add User
+        </Button>
+      </div>
+
+      <div className="relative max-w-sm">
+        <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Filter users..."
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          className="pl-8"
+        />
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {sorted.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              No users found
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <SortableHead label="Username" sortKey="username" sort={sort} onToggle={toggleSort} />
+                  <SortableHead label="Email" sortKey="email" sort={sort} onToggle={toggleSort} className="hidden md:table-cell" />
+                  <SortableHead label="Description" sortKey="description" sort={sort} onToggle={toggleSort} className="hidden xl:table-cell" />
+                  <SortableHead label="Role" sortKey="superadmin" sort={sort} onToggle={toggleSort} />
+                  <SortableHead label="Status" sortKey="status" sort={sort} onToggle={toggleSort} />
+                  <SortableHead label="zPods" sortKey="zpod_count" sort={sort} onToggle={toggleSort} />
+                  <SortableHead label="Last Connection" sortKey="last_connection_date" sort={sort} onToggle={toggleSort} className="hidden lg:table-cell" />
+                  <TableHead className="w-[130px]">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sorted.map((user) => {
+                  const enabled = user.status === "ENABLED"
+                  const statusCheck = enabled ? selfCheck(user, "You cannot disable your own account") : ALLOWED
+                  const roleCheck = user.superadmin ? selfCheck(user, "You cannot remove your own superadmin role") : ALLOWED
+                  return (
+                    <TableRow key={user.id}>
+                      <TableCell className="font-medium whitespace-nowrap">
+                        {user.username}
+                        {user.id === currentUser?.id && (
+                          <span className="ml-1.5 text-xs text-muted-foreground">(you)</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="hidden md:table-cell text-muted-foreground">
+                        {user.email}
+                      </TableCell>
+                      <TableCell className="hidden xl:table-cell text-muted-foreground max-w-[250px] truncate">
+                        {user.description || "—"}
+                      </TableCell>
+                      <TableCell>
+                        {user.superadmin ? (
+                          <Badge variant="outline" className="bg-[#cba6f7]/15 text-[#cba6f7] border-[#cba6f7]/30">
+                            Superadmin
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline">User</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <StatusBadge status={user.status} />
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={user.zpod_count === 0 ? "text-muted-foreground" : ""}>
+                          {user.zpod_count}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="hidden lg:table-cell whitespace-nowrap text-muted-foreground">
+                        {user.last_connection_date ? formatDateTime(user.last_connection_date) : "Never"}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-1">
+                          <GuardedAction check={statusCheck} label={enabled ? "Disable" : "Enable"}>
+                            <Button
+                              variant="outline"
+                              size="icon"
+                              className="h-7 w-7"
+                              disabled={!statusCheck.allowed}
+                              onClick={() => setPending({ action: enabled ? "disable" : "enable", user })}
+                            >
+                              {enabled ? <UserX className="h-3 w-3" /> : <UserCheck className="h-3 w-3" />}
+                            </Button>
+                          </GuardedAction>
+                          <GuardedAction check={roleCheck} label={user.superadmin ? "Remove superadmin" : "Make superadmin"}>
+                            <Button
+                              variant="outline"
+                              size="icon"
+                              className="h-7 w-7"
+                              disabled={!roleCheck.allowed}
+                              onClick={() => setPending({ action: user.superadmin ? "demote" : "promote", user })}
+                            >
+                              {user.superadmin ? <ShieldMinus className="h-3 w-3" /> : <ShieldPlus className="h-3 w-3" />}
+                            </Button>
+                          </GuardedAction>
+                          <IconTooltip label="Regenerate API token">
+                            <Button
+                              variant="outline"
+                              size="icon"
+                              className="h-7 w-7"
+                              onClick={() => setPending({ action: "token", user })}
+                            >
+                              <KeyRound className="h-3 w-3" />
+                            </Button>
+                          </IconTooltip>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create dialog */}
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Add User</DialogTitle>
+            <DialogDescription>
+              Create a factory account. Its API token is shown once after creation.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3 py-2">
+            <div className="space-y-1.5">
+              <Label className="text-xs">Username</Label>
+              <Input
+                className="text-xs font-mono"
+                value={formUsername}
+                placeholder="e.g. jdoe"
+                onChange={(e) => setFormUsername(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Email</Label>
+              <Input
+                className="text-xs"
+                type="email"
+                value={formEmail}
+                placeholder="jdoe@example.com"
+                onChange={(e) => setFormEmail(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Description</Label>
+              <Input
+                className="text-xs"
+                value={formDesc}
+                placeholder="Optional"
+                onChange={(e) => setFormDesc(e.target.value)}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Superadmin</Label>
+              <Switch checked={formSuperadmin} onCheckedChange={setFormSuperadmin} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)} disabled={creating}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={!isValid || creating}>
+              {creating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmationDialog
+        open={pending != null}
+        onOpenChange={() => setPending(null)}
+        title={pending ? ACTION_COPY[pending.action].title : ""}
+        description={pending ? ACTION_COPY[pending.action].describe(pending.user.username) : ""}
+        onConfirm={handleAction}
+        loading={running}
+        confirmText={pending ? ACTION_COPY[pending.action].confirm : "Confirm"}
+        destructive={pending?.action === "disable" || pending?.action === "token"}
+      />
+
+      {/* Issued token, shown once */}
+      <Dialog open={issued != null} onOpenChange={() => setIssued(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>API token for {issued?.username}</DialogTitle>
+            <DialogDescription>
+              Copy it now and hand it over securely, it is not shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2 py-2">
+            <Input readOnly className="font-mono text-xs" value={issued?.api_token ?? ""} />
+            <Button
+              variant="outline"
+              size="icon"
+              className="shrink-0"
+              onClick={async () => {
+                const ok = await copyToClipboard(issued?.api_token ?? "")
+                if (ok) toast.success("Copied to clipboard")
+                else toast.error("Failed to copy")
+              }}
+            >
+              <Copy className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setIssued(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -1,7 +1,9 @@
 import { useCallback, useEffect, useMemo, useState } from "react"
 import { useNavigate, useParams } from "react-router"
-import { useApi } from "@/hooks/use-api"
+import { useApi, useZpodsQuery } from "@/hooks/use-api"
 import { usePolling } from "@/hooks/use-polling"
+import { useZpodLease } from "@/hooks/use-zpod-lease"
+import { usePermissions } from "@/hooks/use-permissions"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
@@ -34,9 +36,16 @@ import { Progress } from "@/components/ui/progress"
 import { StatusBadge } from "@/components/status-badge"
 import { toast } from "sonner"
 import { IconTooltip } from "@/components/icon-tooltip"
+import { GuardedAction } from "@/components/guarded-action"
+import { ConfirmationDialog } from "@/components/confirmation-dialog"
+import { GrantPermissionDialog, type GrantPermissionRequest } from "@/components/grant-permission-dialog"
 import {
+  AlertTriangle,
   ArrowLeft,
+  CalendarPlus,
   Copy,
+  CopyPlus,
+  FileDown,
   Eye,
   EyeOff,
   ExternalLink,
@@ -47,52 +56,33 @@ import {
   Plus,
   Server,
   Trash2,
+  UserMinus,
+  UserPlus,
+  Users,
 } from "lucide-react"
-import type { Zpod, EndpointFull, ZpodNetwork, ZpodComponentView, ComponentFull, ProfileItemCreate, ZpodDnsEntry, Profile, ProfileItem } from "@/types"
+import type { User, ZpodPermission, Zpod, EndpointFull, ZpodNetwork, ZpodComponentView, ComponentFull, ProfileItemCreate, ZpodDnsEntry, Profile, ProfileItem } from "@/types"
 import { AddComponentDialog } from "@/components/add-component-dialog"
+import { ZpodCreateDialog, type ZpodCreateInitialValues } from "@/components/zpod-create-dialog"
+import { ZpodExportDialog } from "@/components/zpod-export-dialog"
 import { ElapsedTime } from "@/components/elapsed-time"
+import { LeaseBadge } from "@/components/lease-badge"
 import { flattenProfileItems } from "@/lib/profile-utils"
 import { copyToClipboard, formatDateTime } from "@/lib/utils"
 import { extractComponentType, extractComponentVersion, getComponentHex, componentStyles } from "@/lib/component-colors"
 import { groupDeployedByUid } from "@/lib/build-progress"
+import { cidrPrefix, cidrToGateway, cidrToVlanId, cidrToZboxIp } from "@/lib/cidr"
+import { webAccessUrl } from "@/lib/connection-sheet"
+import { findCustomDnsEntries, findExtraComponents, suggestCloneName } from "@/lib/zpod-clone"
+import { formatLeaseRemaining, leaseState } from "@/lib/zpod-lease"
+import { checkRevoke, permissionUsers } from "@/lib/permissions"
+import { useAuthStore } from "@/stores/auth-store"
+import { useCloneStore } from "@/stores/clone-store"
+import { useTargetStore } from "@/stores/target-store"
 
-// --- CIDR helpers ---
-
-function cidrToNetworkIp(cidr: string): number {
-  const [ipStr, prefixStr] = cidr.split("/")
-  const prefixLen = parseInt(prefixStr, 10)
-  if (isNaN(prefixLen)) return 0
-  const parts = ipStr.split(".").map(Number)
-  const ip = ((parts[0] << 24) | (parts[1] << 16) | (parts[2] << 8) | parts[3]) >>> 0
-  const mask = prefixLen === 0 ? 0 : (~0 << (32 - prefixLen)) >>> 0
-  return (ip & mask) >>> 0
-}
-
-function ipToString(ip: number): string {
-  return [
-    (ip >>> 24) & 0xff,
-    (ip >>> 16) & 0xff,
-    (ip >>> 8) & 0xff,
-    ip & 0xff,
-  ].join(".")
-}
-
-function cidrToGateway(cidr: string): string {
-  return ipToString((cidrToNetworkIp(cidr) | 1) >>> 0)
-}
-
-/** Network address + 2 = zbox IP (DNS server for all networks) */
-function cidrToZboxIp(cidr: string): string {
-  return ipToString((cidrToNetworkIp(cidr) | 2) >>> 0)
-}
-
-/** VLAN ID: last octet of the network address. 0 = untagged. */
-function cidrToVlanId(cidr: string): number {
-  return cidrToNetworkIp(cidr) & 0xff
-}
-
-function cidrPrefix(cidr: string): string {
-  return cidr.split("/")[1] ?? "0"
+const PERMISSION_BADGE: Partial<Record<ZpodPermission, string>> = {
+  OWNER: "bg-[#cba6f7]/15 text-[#cba6f7] border-[#cba6f7]/30",
+  ADMIN: "bg-[#89b4fa]/15 text-[#89b4fa] border-[#89b4fa]/30",
+  USER: "bg-[#94e2d5]/15 text-[#94e2d5] border-[#94e2d5]/30",
 }
 
 // --- Detail row ---
@@ -393,10 +383,20 @@ function NetworkTopology({
 
 // --- Main page ---
 
+function cloneDescription(sourceName: string, components: number, dns: number): string {
+  const base = `Create a new zPod like "${sourceName}".`
+  if (components === 0 && dns === 0) return base
+  const parts = [
+    components > 0 && `${components} extra component${components !== 1 ? "s" : ""}`,
+    dns > 0 && `${dns} DNS entr${dns !== 1 ? "ies" : "y"}`,
+  ].filter(Boolean)
+  return `${base} ${parts.join(" and ")} will be added once it is ACTIVE.`
+}
+
 export function ZpodDetailPage() {
   const { id } = useParams<{ id: string }>()
   const navigate = useNavigate()
-  const { fetchZpod, deleteZpod, fetchEndpoints, fetchComponents, fetchProfiles, addZpodComponent, deleteZpodComponent, fetchZpodDns, createZpodDns, deleteZpodDns } = useApi()
+  const { fetchZpod, deleteZpod, fetchEndpoints, fetchComponents, fetchProfiles, addZpodComponent, deleteZpodComponent, fetchZpodDns, createZpodDns, deleteZpodDns, fetchUsers, addZpodPermissionUsers, removeZpodPermissionUsers } = useApi()
 
   const [zpod, setZpod] = useState<Zpod | null>(null)
   const [endpoints, setEndpoints] = useState<EndpointFull[]>([])
@@ -418,6 +418,30 @@ export function ZpodDetailPage() {
   const [addingDns, setAddingDns] = useState(false)
   const [deleteDnsTarget, setDeleteDnsTarget] = useState<ZpodDnsEntry | null>(null)
   const [deletingDns, setDeletingDns] = useState(false)
+  const [showExport, setShowExport] = useState(false)
+
+  // Permissions state
+  const [showGrant, setShowGrant] = useState(false)
+  const [grantSeq, setGrantSeq] = useState(0)
+  const [users, setUsers] = useState<User[]>([])
+  const [usersError, setUsersError] = useState(false)
+  const [granting, setGranting] = useState(false)
+  const [revokeTarget, setRevokeTarget] = useState<{ permission: ZpodPermission; user: User } | null>(null)
+  const [revoking, setRevoking] = useState(false)
+  const currentUser = useAuthStore((s) => s.user)
+
+  // Clone state, captured when the dialog opens so polling does not reset the form
+  const [cloneSeed, setCloneSeed] = useState<{
+    initialValues: ZpodCreateInitialValues
+    components: ProfileItemCreate[]
+    dns: ZpodDnsEntry[]
+  } | null>(null)
+  const { data: allZpods } = useZpodsQuery()
+  const activeTargetId = useTargetStore((s) => s.activeTargetId)
+  const addClonePlan = useCloneStore((s) => s.addPlan)
+  const { extendDays, expiryOf, extendLease, setLeaseExpiry } = useZpodLease()
+  const { canOnZpod } = usePermissions()
+  const [updatingLease, setUpdatingLease] = useState(false)
 
   const zpodId = Number(id)
 
@@ -478,6 +502,54 @@ export function ZpodDetailPage() {
     }
   }
 
+  const handleClone = () => {
+    if (!zpod) return
+    setCloneSeed({
+      initialValues: {
+        name: suggestCloneName(zpod.name, (allZpods ?? []).map((z) => z.name)),
+        profile: zpod.profile,
+        endpointId: zpod.endpoint?.id,
+        domain: zpod.domain,
+      },
+      components: findExtraComponents(zpod, profiles.find((p) => p.name === zpod.profile)),
+      dns: findCustomDnsEntries(zpod, dnsEntries),
+    })
+  }
+
+  const handleCloneCreated = (created: Zpod) => {
+    if (!zpod || !cloneSeed || !activeTargetId) return
+    if (cloneSeed.components.length === 0 && cloneSeed.dns.length === 0) return
+    addClonePlan({
+      targetId: activeTargetId,
+      zpodId: created.id,
+      zpodName: created.name,
+      sourceName: zpod.name,
+      sourceNetworks: zpod.networks.map((n) => n.cidr),
+      components: cloneSeed.components,
+      dns: cloneSeed.dns,
+      createdAt: new Date().toISOString(),
+    })
+  }
+
+  const handleExtendLease = async () => {
+    if (!zpod) return
+    setUpdatingLease(true)
+    const updated = await extendLease(zpod)
+    if (updated) setZpod(updated)
+    setUpdatingLease(false)
+  }
+
+  // Owner-picked date, the lease runs until the end of that day
+  const handleSetLease = async (value: string) => {
+    if (!zpod || !value) return
+    const expiry = new Date(`${value}T23:59:59`)
+    if (isNaN(expiry.getTime())) return
+    setUpdatingLease(true)
+    const updated = await setLeaseExpiry(zpod, expiry)
+    if (updated) setZpod(updated)
+    setUpdatingLease(false)
+  }
+
   const handleAddComponent = async (payload: ProfileItemCreate) => {
     if (!zpod) return
     setAddingComponent(true)
@@ -547,6 +619,59 @@ export function ZpodDetailPage() {
     }
   }
 
+  const handleOpenGrant = () => {
+    setShowGrant(true)
+    setGrantSeq((n) => n + 1)
+    setUsersError(false)
+    fetchUsers().then(setUsers).catch(() => setUsersError(true))
+  }
+
+  const handleGrant = async ({ permission, userIds, replaceOwners }: GrantPermissionRequest) => {
+    if (!zpod) return
+    setGranting(true)
+    try {
+      // Grant first so the zPod is never left without an owner
+      await addZpodPermissionUsers(zpod.id, permission, userIds)
+      const previous = replaceOwners
+        ? permissionUsers(zpod, "OWNER").filter((u) => !userIds.includes(u.id))
+        : []
+      if (previous.length > 0) {
+        await removeZpodPermissionUsers(zpod.id, "OWNER", previous.map((u) => u.id))
+      }
+      const names = users.filter((u) => userIds.includes(u.id)).map((u) => u.username).join(", ")
+      toast.success(replaceOwners ? `zPod "${zpod.name}" handed over to ${names}` : `${permission} granted to ${names}`)
+      setShowGrant(false)
+      loadZpod()
+    } catch {
+      toast.error(`Failed to update permissions of zPod "${zpod.name}"`)
+      loadZpod()
+    } finally {
+      setGranting(false)
+    }
+  }
+
+  const handleRevoke = async () => {
+    if (!zpod || !revokeTarget) return
+    const { permission, user } = revokeTarget
+    const check = checkRevoke(zpod, permission, user.id)
+    if (!check.allowed) {
+      toast.error(check.reason)
+      setRevokeTarget(null)
+      return
+    }
+    setRevoking(true)
+    try {
+      await removeZpodPermissionUsers(zpod.id, permission, [user.id])
+      toast.success(`${permission} revoked from ${user.username}`)
+      setRevokeTarget(null)
+      loadZpod()
+    } catch {
+      toast.error(`Failed to revoke ${permission} from ${user.username}`)
+    } finally {
+      setRevoking(false)
+    }
+  }
+
   // Hostnames that belong to zbox (protected from deletion)
   const zboxHostnames = new Set<string>()
   if (zpod) {
@@ -643,6 +768,26 @@ export function ZpodDetailPage() {
           .join(", ")
       : "None"
 
+  // Lease
+  const leaseExpiry = expiryOf(zpod)
+  const lease = leaseState(leaseExpiry)
+  const leaseDate = leaseExpiry
+    ? `${leaseExpiry.getFullYear()}-${String(leaseExpiry.getMonth() + 1).padStart(2, "0")}-${String(leaseExpiry.getDate()).padStart(2, "0")}`
+    : ""
+  const extendLabel = `Extend by ${extendDays} day${extendDays !== 1 ? "s" : ""}`
+
+  const modifyCheck = canOnZpod("zpod:modify", zpod)
+  const destroyCheck = canOnZpod("zpod:destroy", zpod)
+  const permissionsCheck = canOnZpod("zpod:permissions", zpod)
+
+  const permissionRows = (zpod.permissions ?? [])
+    .flatMap((p) => p.users.map((user) => ({ permission: p.permission as ZpodPermission, user })))
+    .sort((a, b) =>
+      a.permission === b.permission
+        ? a.user.username.localeCompare(b.user.username)
+        : a.permission === "OWNER" ? -1 : b.permission === "OWNER" ? 1 : a.permission.localeCompare(b.permission)
+    )
+
   // T0 name from endpoint
   const t0Name = endpointFull?.endpoints.network.t0 ?? ""
 
@@ -727,16 +872,76 @@ export function ZpodDetailPage() {
           </div>
           {statusBadgeElement}
         </div>
-        <Button
-          variant="destructive"
-          size="sm"
-          onClick={() => setShowDestroy(true)}
-        >
-          <Trash2 className="mr-1 h-3 w-3" />
-          Destroy
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowExport(true)}
+          >
+            <FileDown className="mr-1 h-3 w-3" />
+            Export
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleClone}
+          >
+            <CopyPlus className="mr-1 h-3 w-3" />
+            Clone
+          </Button>
+          <GuardedAction check={destroyCheck}>
+            <Button
+              variant="destructive"
+              size="sm"
+              disabled={!destroyCheck.allowed}
+              onClick={() => setShowDestroy(true)}
+            >
+              <Trash2 className="mr-1 h-3 w-3" />
+              Destroy
+            </Button>
+          </GuardedAction>
+        </div>
       </div>
 
+      {leaseExpiry && (lease === "expired" || lease === "expiring") && (
+        <div
+          className={`flex items-center gap-3 rounded-md border px-4 py-3 text-sm ${
+            lease === "expired"
+              ? "border-[#f38ba8]/30 bg-[#f38ba8]/10 text-[#f38ba8]"
+              : "border-[#fab387]/30 bg-[#fab387]/10 text-[#fab387]"
+          }`}
+        >
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          <span className="flex-1">
+            {lease === "expired"
+              ? `The lease of this zPod ${formatLeaseRemaining(leaseExpiry)} (${leaseExpiry.toLocaleString()}).`
+              : `The lease of this zPod ends in ${formatLeaseRemaining(leaseExpiry)} (${leaseExpiry.toLocaleString()}).`}
+          </span>
+          <GuardedAction check={modifyCheck}>
+            <Button variant="outline" size="sm" onClick={handleExtendLease} disabled={!modifyCheck.allowed || updatingLease}>
+              {updatingLease ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <CalendarPlus className="mr-1 h-3 w-3" />}
+              {extendLabel}
+            </Button>
+          </GuardedAction>
+        </div>
+      )}
+
+      <ZpodExportDialog
+        open={showExport}
+        onOpenChange={setShowExport}
+        zpod={zpod}
+        dnsEntries={dnsEntries}
+      />
+
+      <ZpodCreateDialog
+        open={cloneSeed != null}
+        onOpenChange={(open) => { if (!open) setCloneSeed(null) }}
+        onCreateComplete={handleCloneCreated}
+        initialValues={cloneSeed?.initialValues}
+        title="Clone zPod"
+        description={cloneDescription(zpod.name, cloneSeed?.components.length ?? 0, cloneSeed?.dns.length ?? 0)}
+      />
+
       {/* Destroy dialog */}
       <Dialog open={showDestroy} onOpenChange={setShowDestroy}>
         <DialogContent>
@@ -816,6 +1021,39 @@ export function ZpodDetailPage() {
               label="Created"
               value={formatDateTime(zpod.creation_date)}
             />
+            <DetailRow
+              label="Lease"
+              value={
+                <span className="inline-flex items-center gap-1.5">
+                  <LeaseBadge expiry={leaseExpiry} />
+                  <Input
+                    key={leaseDate}
+                    type="date"
+                    aria-label="Lease end date"
+                    className="h-7 w-36 text-xs"
+                    defaultValue={leaseDate}
+                    disabled={!modifyCheck.allowed || updatingLease}
+                    onBlur={(e) => {
+                      if (e.target.value !== leaseDate) handleSetLease(e.target.value)
+                    }}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") e.currentTarget.blur()
+                    }}
+                  />
+                  <GuardedAction check={modifyCheck} label={extendLabel}>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={handleExtendLease}
+                      disabled={!modifyCheck.allowed || updatingLease}
+                    >
+                      <CalendarPlus className="h-3.5 w-3.5" />
+                    </Button>
+                  </GuardedAction>
+                </span>
+              }
+            />
             <DetailRow
               label="Last Modified"
               value={
@@ -920,15 +1158,18 @@ export function ZpodDetailPage() {
                 </Badge>
               )}
             </CardTitle>
-            <Button
-              variant="outline"
-              size="sm"
-              className="gap-1.5"
-              onClick={() => setShowAddComponent(true)}
-            >
-              <Plus className="h-3.5 w-3.5" />
-              Add Component
-            </Button>
+            <GuardedAction check={modifyCheck}>
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-1.5"
+                disabled={!modifyCheck.allowed}
+                onClick={() => setShowAddComponent(true)}
+              >
+                <Plus className="h-3.5 w-3.5" />
+                Add Component
+              </Button>
+            </GuardedAction>
           </div>
         </CardHeader>
         <CardContent>
@@ -1006,11 +1247,7 @@ export function ZpodDetailPage() {
                                 <div className="text-[10px] uppercase tracking-wider text-muted-foreground/70 font-medium mb-1">Web Access</div>
                                 <div className="space-y-1">
                                   {uiUsers.map((u) => {
-                                    const port =
-                                      u.type === "ui-proxmox" ? ":8006" :
-                                      u.type === "ui-proxmox-dm" ? ":8443" :
-                                      u.type === "ui-proxmox-bs" ? ":8007" : ""
-                                    const url = comp.fqdn ? `https://${comp.fqdn}${port}` : null
+                                    const url = webAccessUrl(u.type, comp.fqdn)
                                     return (
                                       <div key={u.username} className="flex flex-col items-start gap-1">
                                         {url && (
@@ -1075,16 +1312,17 @@ export function ZpodDetailPage() {
                           </IconTooltip>
                         )}
                         {extractComponentType(comp.component.component_uid) !== "zbox" && (
-                          <IconTooltip label="Remove component">
+                          <GuardedAction check={modifyCheck} label="Remove component">
                             <Button
                               variant="outline"
                               size="icon"
                               className="h-7 w-7 text-destructive hover:text-destructive"
+                              disabled={!modifyCheck.allowed}
                               onClick={() => setDeleteCompTarget(comp)}
                             >
                               <Trash2 className="h-3 w-3" />
                             </Button>
-                          </IconTooltip>
+                          </GuardedAction>
                         )}
                       </div>
                     </TableCell>
@@ -1111,15 +1349,18 @@ export function ZpodDetailPage() {
                 </Badge>
               )}
             </CardTitle>
-            <Button
-              variant="outline"
-              size="sm"
-              className="gap-1.5"
-              onClick={() => setShowAddDns(true)}
-            >
-              <Plus className="h-3.5 w-3.5" />
-              Add DNS Entry
-            </Button>
+            <GuardedAction check={modifyCheck}>
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-1.5"
+                disabled={!modifyCheck.allowed}
+                onClick={() => setShowAddDns(true)}
+              >
+                <Plus className="h-3.5 w-3.5" />
+                Add DNS Entry
+              </Button>
+            </GuardedAction>
           </div>
         </CardHeader>
         <CardContent>
@@ -1159,16 +1400,17 @@ export function ZpodDetailPage() {
                         </TableCell>
                         <TableCell>
                           {!isProtected && (
-                            <IconTooltip label="Remove DNS entry">
+                            <GuardedAction check={modifyCheck} label="Remove DNS entry">
                               <Button
                                 variant="outline"
                                 size="icon"
                                 className="h-7 w-7 text-destructive hover:text-destructive"
+                                disabled={!modifyCheck.allowed}
                                 onClick={() => setDeleteDnsTarget(entry)}
                               >
                                 <Trash2 className="h-3 w-3" />
                               </Button>
-                            </IconTooltip>
+                            </GuardedAction>
                           )}
                         </TableCell>
                       </TableRow>
@@ -1182,6 +1424,117 @@ export function ZpodDetailPage() {
         </CardContent>
       </Card>}
 
+      {/* Permissions */}
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Users className="h-4 w-4" />
+              Permissions
+              {permissionRows.length > 0 && (
+                <Badge variant="outline" className="ml-1">
+                  {permissionRows.length}
+                </Badge>
+              )}
+            </CardTitle>
+            <GuardedAction check={permissionsCheck}>
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-1.5"
+                disabled={!permissionsCheck.allowed}
+                onClick={handleOpenGrant}
+              >
+                <UserPlus className="h-3.5 w-3.5" />
+                Grant
+              </Button>
+            </GuardedAction>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {permissionRows.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead className="hidden md:table-cell">Email</TableHead>
+                  <TableHead>Permission</TableHead>
+                  <TableHead className="w-[70px]">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {permissionRows.map(({ permission, user }) => {
+                  const revokeCheck = permissionsCheck.allowed
+                    ? checkRevoke(zpod, permission, user.id)
+                    : permissionsCheck
+                  return (
+                    <TableRow key={`${permission}-${user.id}`}>
+                      <TableCell className="font-medium">
+                        {user.username}
+                        {user.id === currentUser?.id && (
+                          <span className="ml-1.5 text-xs text-muted-foreground">(you)</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="hidden md:table-cell text-muted-foreground">
+                        {user.email}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={PERMISSION_BADGE[permission] ?? ""}>
+                          {permission}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <GuardedAction check={revokeCheck} label={`Revoke ${permission}`}>
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            className="h-7 w-7 text-destructive hover:text-destructive"
+                            disabled={!revokeCheck.allowed}
+                            onClick={() => setRevokeTarget({ permission, user })}
+                          >
+                            <UserMinus className="h-3 w-3" />
+                          </Button>
+                        </GuardedAction>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-muted-foreground">No permissions</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <GrantPermissionDialog
+        key={grantSeq}
+        open={showGrant}
+        onOpenChange={setShowGrant}
+        zpod={zpod}
+        users={users}
+        usersError={usersError}
+        saving={granting}
+        onSave={handleGrant}
+      />
+
+      <ConfirmationDialog
+        open={revokeTarget != null}
+        onOpenChange={(open) => !open && setRevokeTarget(null)}
+        title="Revoke permission"
+        description={
+          revokeTarget && (
+            <>
+              Remove {revokeTarget.permission} from <strong>{revokeTarget.user.username}</strong> on zPod "{zpod.name}"?
+              {revokeTarget.user.id === currentUser?.id && " You may lose access to this zPod."}
+            </>
+          )
+        }
+        onConfirm={handleRevoke}
+        loading={revoking}
+        confirmText="Revoke"
+      />
+
       {/* Add DNS entry dialog */}
       <Dialog open={showAddDns} onOpenChange={setShowAddDns}>
         <DialogContent className="max-w-sm">
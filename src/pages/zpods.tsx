@@ -1,9 +1,13 @@
-import React, { useCallback, useEffect, useMemo, useState } from "react"
-import { useNavigate, useSearchParams } from "react-router"
-import { useApi } from "@/hooks/use-api"
-import { usePolling } from "@/hooks/use-polling"
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import { useSearchParams } from "react-router"
+import { useApi, useComponentsQuery, useEndpointsQuery, useProfilesQuery, useZpodsQuery } from "@/hooks/use-api"
+import { usePolling, useZpodPolling } from "@/hooks/use-polling"
 import { useSort } from "@/hooks/use-sort"
+import { runPooled, useBulkAction } from "@/hooks/use-bulk-action"
+import { useZpodLease } from "@/hooks/use-zpod-lease"
+import { deleteZpodOnTarget, useAggregateMode, useAllTargetsZpods, useOpenZpod, type TargetZpod } from "@/hooks/use-all-targets"
 import { useAuthStore } from "@/stores/auth-store"
+import { useTargetStore } from "@/stores/target-store"
 import { Card, CardContent } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
@@ -20,6 +24,7 @@ import {
   DropdownMenu,
   DropdownMenuCheckboxItem,
   DropdownMenuContent,
+  DropdownMenuItem,
   DropdownMenuLabel,
   DropdownMenuSeparator,
   DropdownMenuTrigger,
@@ -36,9 +41,10 @@ import { SortableHead } from "@/components/sortable-head"
 import { Skeleton } from "@/components/ui/skeleton"
 import { toast } from "sonner"
 import { IconTooltip } from "@/components/icon-tooltip"
-import { Plus, Info, Trash2, Settings2, KeyRound, Search } from "lucide-react"
-import type { Zpod, ZpodComponentView, ZpodNetwork, Profile, ProfileItem } from "@/types"
+import { Plus, Info, Trash2, Settings2, KeyRound, Search, Download, X, CalendarPlus, Loader2 } from "lucide-react"
+import type { Zpod, ZpodComponentView, ZpodDnsEntry, ZpodNetwork, Profile, ProfileItem, ComponentFull, ProfileItemCreate } from "@/types"
 import { StatusBadge } from "@/components/status-badge"
+import { LeaseBadge } from "@/components/lease-badge"
 import { isInProgressStatus } from "@/lib/status-colors"
 import {
   HoverCard,
@@ -46,10 +52,16 @@ import {
 } from "@/components/ui/hover-card"
 import { Progress } from "@/components/ui/progress"
 import { ZpodCreateDialog } from "@/components/zpod-create-dialog"
+import { AddComponentDialog } from "@/components/add-component-dialog"
+import { BulkProgressPanel } from "@/components/bulk-progress-panel"
+import { FactoryFailures, FactoryScopeToggle } from "@/components/target/factory-scope"
 import { BuildProgressHoverContent } from "@/components/build-progress-hover"
 import { buildHoverRows, groupDeployedByUid } from "@/lib/build-progress"
 import { flattenProfileItems } from "@/lib/profile-utils"
-import { cn, copyToClipboard } from "@/lib/utils"
+import { getLeaseExpiry } from "@/lib/zpod-lease"
+import { loadColumnPrefs, saveColumnPrefs } from "@/lib/column-prefs"
+import { buildConnectionSheet, renderSheets, SHEET_FORMATS, type SheetFormat } from "@/lib/connection-sheet"
+import { cn, copyToClipboard, downloadFile } from "@/lib/utils"
 
 /** Group components by name and return "N x name" lines like the CLI */
 function groupComponents(components: ZpodComponentView[]): string[] {
@@ -137,31 +149,15 @@ const OPTIONAL_COLUMNS = [
   { key: "endpoint",   label: "Endpoint",   sortKey: "endpoint.name",                         breakpoint: "hidden 2xl:table-cell" },
   { key: "networks",   label: "Networks",   sortKey: "networks.0.cidr",                       breakpoint: "hidden xl:table-cell" },
   { key: "owners",     label: "Owner(s)",   sortKey: "permissions.0.users.0.username",         breakpoint: "hidden 2xl:table-cell" },
+  // Leases may come from the default setting, which the API value does not reflect
+  { key: "lease",      label: "Lease",      sortKey: null,                                     breakpoint: "hidden xl:table-cell" },
 ] as const
 
 type ColumnKey = (typeof OPTIONAL_COLUMNS)[number]["key"]
 
-const STORAGE_KEY_PREFIX = "zpodweb:columns:"
-
-function loadColumnPrefs(username: string, defaults: Record<ColumnKey, boolean>): Record<ColumnKey, boolean> {
-  try {
-    const raw = localStorage.getItem(STORAGE_KEY_PREFIX + username)
-    if (raw) {
-      const parsed = JSON.parse(raw) as Record<string, boolean>
-      // Merge with defaults so new columns get their default value
-      const result = { ...defaults }
-      for (const k of Object.keys(result) as ColumnKey[]) {
-        if (k in parsed) result[k] = parsed[k]
-      }
-      return result
-    }
-  } catch { /* ignore corrupt data */ }
-  return defaults
-}
-
-function saveColumnPrefs(username: string, prefs: Record<ColumnKey, boolean>) {
-  localStorage.setItem(STORAGE_KEY_PREFIX + username, JSON.stringify(prefs))
-}
+const NO_ZPODS: Zpod[] = []
+const NO_PROFILES: Profile[] = []
+const NO_COMPONENTS: ComponentFull[] = []
 
 const VALID_STATUS_FILTERS = ["ACTIVE", "BUILDING", "FAILED"] as const
 type StatusFilter = "ALL" | (typeof VALID_STATUS_FILTERS)[number]
@@ -174,15 +170,26 @@ function parseStatusParam(value: string | null): StatusFilter {
 }
 
 export function ZpodsPage() {
-  const { fetchZpods, fetchProfiles, fetchEndpoints, deleteZpod } = useApi()
-  const navigate = useNavigate()
+  const { deleteZpod, addZpodComponent, fetchZpodDns } = useApi()
+  const { data: targetZpods = NO_ZPODS, isLoading: zpodsLoading, refetch: fetchZpods } = useZpodsQuery()
+  const { data: targetProfiles = NO_PROFILES, isLoading: profilesLoading, refetch: fetchProfiles } = useProfilesQuery()
+  const { data: endpoints, isLoading: endpointsLoading, refetch: fetchEndpoints } = useEndpointsQuery()
+  const { data: components = NO_COMPONENTS, refetch: fetchComponents } = useComponentsQuery()
+
+  // All-factories mode: rows from every saved target, tagged with their target
+  const aggregate = useAggregateMode()
+  const allTargets = useAllTargetsZpods(aggregate)
+  const refetchAllTargets = allTargets.refetch
+  const openZpod = useOpenZpod()
+  const { targets, activeTargetId } = useTargetStore()
+  const zpods: TargetZpod[] = aggregate ? allTargets.zpods : targetZpods
+  const profiles = aggregate ? allTargets.profiles : targetProfiles
+
+  const loading = zpodsLoading || profilesLoading || endpointsLoading || allTargets.isLoading
   const [searchParams, setSearchParams] = useSearchParams()
   const { user } = useAuthStore()
-  const [zpods, setZpods] = useState<Zpod[]>([])
-  const [profiles, setProfiles] = useState<Profile[]>([])
-  const [loading, setLoading] = useState(true)
   const [showCreate, setShowCreate] = useState(false)
-  const [destroyTarget, setDestroyTarget] = useState<Zpod | null>(null)
+  const [destroyTarget, setDestroyTarget] = useState<TargetZpod | null>(null)
   const [destroying, setDestroying] = useState(false)
   const [filter, setFilter] = useState("")
   const [statusFilter, setStatusFilter] = useState<StatusFilter>(() => parseStatusParam(searchParams.get("status")))
@@ -190,6 +197,17 @@ export function ZpodsPage() {
   const [profileFilter, setProfileFilter] = useState("ALL")
   const [endpointFilter, setEndpointFilter] = useState("ALL")
 
+  // Bulk selection — ids survive filtering, the range anchor is the last clicked row
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set())
+  const selectionAnchor = useRef<number | null>(null)
+  const [showBulkDestroy, setShowBulkDestroy] = useState(false)
+  const [showBulkAdd, setShowBulkAdd] = useState(false)
+  const [exportPasswords, setExportPasswords] = useState(false)
+  const [exporting, setExporting] = useState(false)
+  const bulk = useBulkAction()
+  const { extendDays, expiryOf, extendLease } = useZpodLease()
+  const [extendingId, setExtendingId] = useState<number | null>(null)
+
   // Sync statusFilter when URL search params change (e.g. header badge click while already on /zpods)
   useEffect(() => {
     const fromUrl = parseStatusParam(searchParams.get("status"))
@@ -224,7 +242,8 @@ export function ZpodsPage() {
         z.name.toLowerCase().includes(q) ||
         z.domain.toLowerCase().includes(q) ||
         z.profile.toLowerCase().includes(q) ||
-        (z.endpoint?.name ?? "").toLowerCase().includes(q)
+        (z.endpoint?.name ?? "").toLowerCase().includes(q) ||
+        (z.target?.name ?? "").toLowerCase().includes(q)
       const matchesStatus =
         statusFilter === "ALL" ||
         (statusFilter === "ACTIVE" && z.status === "ACTIVE") ||
@@ -243,13 +262,29 @@ export function ZpodsPage() {
 
   const { sorted, sort, toggleSort } = useSort(filtered, "name")
 
-  const [endpointCount, setEndpointCount] = useState<number | null>(null)
+  // Drop zPods that no longer exist from the selection
+  useEffect(() => {
+    setSelectedIds((prev) => {
+      const ids = new Set(zpods.map((z) => z.id))
+      const next = new Set([...prev].filter((id) => ids.has(id)))
+      return next.size === prev.size ? prev : next
+    })
+  }, [zpods])
+
+  const selected = useMemo(
+    () => sorted.filter((z) => selectedIds.has(z.id)),
+    [sorted, selectedIds]
+  )
+  const allFilteredSelected = sorted.length > 0 && sorted.every((z) => selectedIds.has(z.id))
+
+  const endpointCount = endpoints?.length ?? null
 
   const columnDefaults = useMemo<Record<ColumnKey, boolean>>(() => ({
     profile: true,
     endpoint: true,
     networks: true,
     owners: true,
+    lease: true,
   }), [])
 
   const [columns, setColumns] = useState<Record<ColumnKey, boolean>>(columnDefaults)
@@ -274,33 +309,36 @@ export function ZpodsPage() {
   const visibleCount = 2 + Object.values(columns).filter(Boolean).length // Name + Actions/Status are always shown; + toggled cols
 
   const loadZpods = useCallback(() => {
-    fetchZpods().then(setZpods).catch(() => {})
-  }, [fetchZpods])
+    fetchZpods().catch(() => {})
+    if (aggregate) refetchAllTargets()
+  }, [fetchZpods, aggregate, refetchAllTargets])
 
   const loadProfiles = useCallback(() => {
-    fetchProfiles().then(setProfiles).catch(() => {})
+    fetchProfiles().catch(() => {})
   }, [fetchProfiles])
 
   useEffect(() => {
     Promise.all([fetchZpods(), fetchProfiles(), fetchEndpoints()])
-      .then(([z, p, eps]) => {
-        setZpods(z)
-        setProfiles(p)
-        setEndpointCount(eps.length)
-      })
       .catch(() => toast.error("Failed to fetch zpods"))
-      .finally(() => setLoading(false))
   }, [fetchZpods, fetchProfiles, fetchEndpoints])
 
-  const loadAll = useCallback(() => {
-    loadZpods()
+  const refreshProfiles = useCallback(() => {
     // Only re-fetch profiles during polling if any zpod is in a transitional state
     if (zpods.some((z) => isInProgressStatus(z.status))) {
       loadProfiles()
     }
-  }, [loadZpods, loadProfiles, zpods])
+  }, [loadProfiles, zpods])
+
+  useZpodPolling(loadZpods)
+  usePolling(refreshProfiles)
 
-  usePolling(loadAll)
+  const isForeign = (zpod: TargetZpod) => zpod.target != null && zpod.target.id !== activeTargetId
+
+  const handleExtendLease = async (zpod: Zpod) => {
+    setExtendingId(zpod.id)
+    await extendLease(zpod)
+    setExtendingId(null)
+  }
 
   const handleCopyPassword = async (zpod: Zpod) => {
     if (!zpod.password) {
@@ -315,14 +353,102 @@ export function ZpodsPage() {
     }
   }
 
+  const toggleSelected = (zpod: Zpod, shiftKey: boolean) => {
+    const anchorIdx = sorted.findIndex((z) => z.id === selectionAnchor.current)
+    const idx = sorted.findIndex((z) => z.id === zpod.id)
+    const select = !selectedIds.has(zpod.id)
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      // Shift-click applies the clicked row's new state to the whole range
+      const range = shiftKey && anchorIdx !== -1
+        ? sorted.slice(Math.min(anchorIdx, idx), Math.max(anchorIdx, idx) + 1)
+        : [zpod]
+      for (const z of range) {
+        if (select) next.add(z.id)
+        else next.delete(z.id)
+      }
+      return next
+    })
+    selectionAnchor.current = zpod.id
+  }
+
+  const toggleAllFiltered = () => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      for (const z of sorted) {
+        if (allFilteredSelected) next.delete(z.id)
+        else next.add(z.id)
+      }
+      return next
+    })
+  }
+
+  const clearSelection = () => {
+    setSelectedIds(new Set())
+    selectionAnchor.current = null
+  }
+
+  /** Run a bulk action and keep only the failed zPods selected */
+  const runBulk = async (label: string, action: (id: number) => Promise<unknown>) => {
+    const succeeded = await bulk.start(label, selected, action)
+    setSelectedIds((prev) => new Set([...prev].filter((id) => !succeeded.includes(id))))
+    loadZpods()
+  }
+
+  const handleBulkDestroy = () => {
+    setShowBulkDestroy(false)
+    runBulk("Destroy", (id) => deleteZpod(id))
+  }
+
+  const handleBulkAddComponent = (payload: ProfileItemCreate) => {
+    setShowBulkAdd(false)
+    runBulk(`Add ${payload.component_uid}`, (id) => addZpodComponent(id, payload))
+  }
+
+  const handleBulkCopyPasswords = async () => {
+    const lines = selected.map((z) => `${z.name}\t${z.password ?? ""}`)
+    const ok = await copyToClipboard(lines.join("\n"))
+    if (ok) toast.success(`Copied ${selected.length} password${selected.length !== 1 ? "s" : ""}`)
+    else toast.error("Failed to copy passwords")
+  }
+
+  const handleBulkExport = async (format: SheetFormat) => {
+    const { extension, mime } = SHEET_FORMATS[format]
+    const zpodsToExport = selected
+    setExporting(true)
+    // DNS entries are per zPod, fetched as gently as the other bulk actions
+    const dns = new Map<number, ZpodDnsEntry[]>()
+    const missingDns: string[] = []
+    await runPooled(zpodsToExport, async (z) => {
+      try {
+        dns.set(z.id, await fetchZpodDns(z.id))
+      } catch {
+        missingDns.push(z.name)
+      }
+    })
+    setExporting(false)
+
+    const sheets = zpodsToExport.map((z) => buildConnectionSheet(z, dns.get(z.id) ?? [], exportPasswords))
+    downloadFile(`zpods-connection-sheets.${extension}`, renderSheets(format, sheets), mime)
+    if (missingDns.length > 0) {
+      toast.warning("Exported without some DNS entries", {
+        description: `Could not fetch DNS for ${missingDns.join(", ")}`,
+      })
+    }
+  }
+
   const handleDestroy = async () => {
     if (!destroyTarget) return
     setDestroying(true)
     try {
-      await deleteZpod(destroyTarget.id)
+      const target = isForeign(destroyTarget)
+        ? targets.find((t) => t.id === destroyTarget.target?.id)
+        : undefined
+      if (target) await deleteZpodOnTarget(target, destroyTarget.id)
+      else await deleteZpod(destroyTarget.id)
       toast.success(`Destroying zpod "${destroyTarget.name}"`)
       setDestroyTarget(null)
-      loadAll()
+      loadZpods()
     } catch {
       toast.error(`Failed to destroy zpod "${destroyTarget.name}"`)
     } finally {
@@ -357,6 +483,7 @@ export function ZpodsPage() {
           <Badge variant="outline">{sorted.length === zpods.length ? `${zpods.length} total` : `${sorted.length} / ${zpods.length}`}</Badge>
         </div>
         <div className="flex items-center gap-2">
+          <FactoryScopeToggle onChange={clearSelection} />
           {/* Column visibility toggle */}
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
@@ -419,10 +546,110 @@ export function ZpodsPage() {
         </div>
       </div>
 
+      {aggregate && <FactoryFailures failures={allTargets.failures} />}
+
+      {selected.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 rounded-md border bg-muted/30 px-3 py-2">
+          <span className="text-sm font-medium">{selected.length} selected</span>
+          {!allFilteredSelected && (
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={toggleAllFiltered}>
+              Select all {sorted.length} filtered
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={clearSelection}>
+            <X className="mr-1 h-3 w-3" />
+            Clear
+          </Button>
+          <div className="ml-auto flex flex-wrap items-center gap-2">
+            <Button variant="outline" size="sm" onClick={handleBulkCopyPasswords}>
+              <KeyRound className="mr-1 h-3 w-3" />
+              Copy passwords
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" disabled={exporting}>
+                  {exporting
+                    ? <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                    : <Download className="mr-1 h-3 w-3" />}
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Connection sheets</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {(Object.keys(SHEET_FORMATS) as SheetFormat[]).map((f) => (
+                  <DropdownMenuItem key={f} onClick={() => handleBulkExport(f)}>
+                    {SHEET_FORMATS[f].label}
+                  </DropdownMenuItem>
+                ))}
+                <DropdownMenuSeparator />
+                <DropdownMenuCheckboxItem
+                  checked={exportPasswords}
+                  onCheckedChange={(checked) => setExportPasswords(checked === true)}
+                  onSelect={(e) => e.preventDefault()}
+                >
+                  Include passwords
+                </DropdownMenuCheckboxItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={bulk.run != null && !bulk.run.finished}
+              onClick={() => {
+                fetchComponents().catch(() => toast.error("Failed to fetch components"))
+                setShowBulkAdd(true)
+              }}
+            >
+              <Plus className="mr-1 h-3 w-3" />
+              Add component
+            </Button>
+            <Button
+              variant="destructive"
+              size="sm"
+              disabled={bulk.run != null && !bulk.run.finished}
+              onClick={() => setShowBulkDestroy(true)}
+            >
+              <Trash2 className="mr-1 h-3 w-3" />
+              Destroy
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {bulk.run && <BulkProgressPanel run={bulk.run} onDismiss={bulk.dismiss} />}
+
       <ZpodCreateDialog
         open={showCreate}
         onOpenChange={setShowCreate}
-        onCreateComplete={loadAll}
+        onCreateComplete={loadZpods}
+      />
+
+      <ConfirmationDialog
+        open={showBulkDestroy}
+        onOpenChange={setShowBulkDestroy}
+        title={`Destroy ${selected.length} zPod${selected.length !== 1 ? "s" : ""}`}
+        description={
+          <>
+            The following zPods will be destroyed. This action cannot be undone.
+            <span className="mt-2 block max-h-48 overflow-y-auto rounded border p-2 font-mono text-xs">
+              {selected.map((z) => (
+                <span key={z.id} className="block">{z.name}</span>
+              ))}
+            </span>
+          </>
+        }
+        onConfirm={handleBulkDestroy}
+        loading={false}
+        confirmText="Destroy all"
+      />
+
+      <AddComponentDialog
+        open={showBulkAdd}
+        onOpenChange={setShowBulkAdd}
+        components={components}
+        saving={false}
+        onSave={handleBulkAddComponent}
       />
 
       <ConfirmationDialog
@@ -445,7 +672,23 @@ export function ZpodsPage() {
             <Table>
               <TableHeader>
                 <TableRow>
+                  {/* zPod ids are per target, bulk selection only applies to one factory */}
+                  {!aggregate && (
+                    <TableHead className="w-px pr-0">
+                      <input
+                        type="checkbox"
+                        aria-label="Select all filtered zPods"
+                        className="h-4 w-4 cursor-pointer accent-primary align-middle"
+                        checked={allFilteredSelected}
+                        ref={(el) => {
+                          if (el) el.indeterminate = !allFilteredSelected && selected.length > 0
+                        }}
+                        onChange={toggleAllFiltered}
+                      />
+                    </TableHead>
+                  )}
                   <SortableHead label="Name / Domain" sortKey="name" sort={sort} onToggle={toggleSort} className="whitespace-nowrap" />
+                  {aggregate && <TableHead className="whitespace-nowrap">Factory</TableHead>}
                   {OPTIONAL_COLUMNS.map((col) => {
                     if (!columns[col.key]) return null
                     const filterConfig = col.key === "owners"
@@ -482,6 +725,13 @@ export function ZpodsPage() {
                         </TableHead>
                       )
                     }
+                    if (col.sortKey == null) {
+                      return (
+                        <TableHead key={col.key} className={cn("whitespace-nowrap", col.breakpoint)}>
+                          {col.label}
+                        </TableHead>
+                      )
+                    }
                     return (
                       <SortableHead
                         key={col.key}
@@ -517,13 +767,31 @@ export function ZpodsPage() {
                   const profileSteps = profileStepsMap.get(zpod.profile) ?? []
                   const deployedByUid = groupDeployedByUid(deployedComponents)
                   const hoverRows = buildHoverRows(profileSteps)
+                  // Lease defaults come from the active target's settings
+                  const foreign = isForeign(zpod)
+                  const leaseExpiry = foreign ? getLeaseExpiry(zpod, null) : expiryOf(zpod)
                   return (
-                    <React.Fragment key={zpod.id}>
-                      <TableRow className={showProgress ? "border-b-0" : ""}>
+                    <React.Fragment key={`${zpod.target?.id ?? activeTargetId}:${zpod.id}`}>
+                      <TableRow
+                        className={cn(showProgress && "border-b-0")}
+                        data-state={!aggregate && selectedIds.has(zpod.id) ? "selected" : undefined}
+                      >
+                        {!aggregate && (
+                          <TableCell className="w-px pr-0">
+                            <input
+                              type="checkbox"
+                              aria-label={`Select ${zpod.name}`}
+                              className="h-4 w-4 cursor-pointer accent-primary align-middle"
+                              checked={selectedIds.has(zpod.id)}
+                              readOnly
+                              onClick={(e) => toggleSelected(zpod, e.shiftKey)}
+                            />
+                          </TableCell>
+                        )}
                         <TableCell className="whitespace-nowrap">
                           <button
                             className="font-medium text-primary hover:underline text-left"
-                            onClick={() => navigate(`/zpods/${zpod.id}`)}
+                            onClick={() => openZpod(zpod)}
                           >
                             {zpod.name}
                           </button>
@@ -532,6 +800,17 @@ export function ZpodsPage() {
                           </div>
                         </TableCell>
 
+                        {aggregate && (
+                          <TableCell className="whitespace-nowrap">
+                            <Badge
+                              variant="outline"
+                              className={cn(!foreign && "bg-[#89b4fa]/15 text-[#89b4fa] border-[#89b4fa]/30")}
+                            >
+                              {zpod.target?.name}
+                            </Badge>
+                          </TableCell>
+                        )}
+
                         {columns.profile && (
                           <TableCell className="hidden lg:table-cell whitespace-nowrap">
                             <div className="font-medium">{zpod.profile}</div>
@@ -570,6 +849,27 @@ export function ZpodsPage() {
                           </TableCell>
                         )}
 
+                        {columns.lease && (
+                          <TableCell className="hidden xl:table-cell whitespace-nowrap">
+                            <div className="flex items-center gap-1.5">
+                              <LeaseBadge expiry={leaseExpiry} />
+                              {leaseExpiry && !foreign && (
+                                <IconTooltip label={`Extend lease by ${extendDays} day${extendDays !== 1 ? "s" : ""}`}>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-6 w-6"
+                                    disabled={extendingId === zpod.id}
+                                    onClick={() => handleExtendLease(zpod)}
+                                  >
+                                    <CalendarPlus className="h-3.5 w-3.5" />
+                                  </Button>
+                                </IconTooltip>
+                              )}
+                            </div>
+                          </TableCell>
+                        )}
+
                         <TableCell className="whitespace-nowrap text-center">
                           {showProgress ? (
                             <HoverCard openDelay={200} closeDelay={100}>
@@ -606,7 +906,7 @@ export function ZpodsPage() {
                                 variant="outline"
                                 size="icon"
                                 className="h-7 w-7"
-                                onClick={() => navigate(`/zpods/${zpod.id}`)}
+                                onClick={() => openZpod(zpod)}
                               >
                                 <Info className="h-3.5 w-3.5" />
                               </Button>
@@ -626,7 +926,8 @@ export function ZpodsPage() {
                       </TableRow>
                       {showProgress && (
                         <TableRow className="hover:bg-transparent">
-                          <TableCell colSpan={visibleCount + 1} className="p-0">
+                          {/* + checkbox or Factory column, + Actions */}
+                          <TableCell colSpan={visibleCount + 2} className="p-0">
                             <Progress value={pct} className="h-1 w-full rounded-none" />
                           </TableCell>
                         </TableRow>
@@ -10,8 +10,9 @@ import { EndpointsPage } from "@/pages/endpoints"
 import { FactoryPage } from "@/pages/factory"
 import { ZpodDetailPage } from "@/pages/zpod-detail"
 import { SettingsPage } from "@/pages/settings"
+import { UsersPage } from "@/pages/users"
 import { AboutPage } from "@/pages/about"
-import { AuthGuard } from "@/components/auth-guard"
+import { AuthGuard, SuperadminGuard } from "@/components/auth-guard"
 
 export const router = createBrowserRouter([
   {
@@ -35,6 +36,14 @@ export const router = createBrowserRouter([
       { path: "endpoints", element: <EndpointsPage /> },
       { path: "factory", element: <FactoryPage /> },
       { path: "settings", element: <SettingsPage /> },
+      {
+        path: "users",
+        element: (
+          <SuperadminGuard>
+            <UsersPage />
+          </SuperadminGuard>
+        ),
+      },
       { path: "about", element: <AboutPage /> },
     ],
   },
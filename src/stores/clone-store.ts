@@ -0,0 +1,35 @@
+import { create } from "zustand"
+import { persist } from "zustand/middleware"
+import type { ProfileItemCreate, ZpodDnsEntry } from "@/types"
+
+/** Work left to do on a cloned zPod once its base build is ACTIVE */
+export interface ZpodClonePlan {
+  targetId: string
+  zpodId: number
+  zpodName: string
+  sourceName: string
+  sourceNetworks: string[] // CIDRs of the source zPod, used to remap DNS IPs
+  components: ProfileItemCreate[]
+  dns: ZpodDnsEntry[]
+  createdAt: string // ISO timestamp
+}
+
+interface CloneState {
+  plans: ZpodClonePlan[]
+  addPlan: (plan: ZpodClonePlan) => void
+  removePlan: (targetId: string, zpodId: number) => void
+}
+
+export const useCloneStore = create<CloneState>()(
+  persist(
+    (set) => ({
+      plans: [],
+      addPlan: (plan) => set((state) => ({ plans: [...state.plans, plan] })),
+      removePlan: (targetId, zpodId) =>
+        set((state) => ({
+          plans: state.plans.filter((p) => !(p.targetId === targetId && p.zpodId === zpodId)),
+        })),
+    }),
+    { name: "zpodweb-clone-plans" }
+  )
+)
@@ -0,0 +1,11 @@
+import { create } from "zustand"
+
+interface EventsState {
+  zpodStreamConnected: boolean // true while /events/zpods keeps the cache fresh
+  setZpodStreamConnected: (connected: boolean) => void
+}
+
+export const useEventsStore = create<EventsState>()((set) => ({
+  zpodStreamConnected: false,
+  setZpodStreamConnected: (connected) => set({ zpodStreamConnected: connected }),
+}))
@@ -0,0 +1,48 @@
+import { create } from "zustand"
+import { persist } from "zustand/middleware"
+import type { ComponentSnapshot, LibrarySyncReport } from "@/lib/library-sync"
+
+/** A library resync, from its start until the factory reports it modified */
+export interface LibrarySync {
+  targetId: string
+  libraryId: number
+  libraryName: string
+  startedAt: string // ISO timestamp
+  previousModified: string | null // library last_modified_date before the sync
+  snapshot: ComponentSnapshot[] // the library's components before the sync
+  status: "syncing" | "done" | "timeout"
+  finishedAt?: string
+  report?: LibrarySyncReport
+}
+
+interface LibrarySyncState {
+  syncs: LibrarySync[]
+  /** Track a new sync, replacing the previous one of the same library */
+  start: (sync: LibrarySync) => void
+  finish: (targetId: string, libraryId: number, patch: Pick<LibrarySync, "status" | "report">) => void
+  remove: (targetId: string, libraryId: number) => void
+}
+
+const sameSync = (s: LibrarySync, targetId: string, libraryId: number) =>
+  s.targetId === targetId && s.libraryId === libraryId
+
+export const useLibrarySyncStore = create<LibrarySyncState>()(
+  persist(
+    (set) => ({
+      syncs: [],
+      start: (sync) =>
+        set((state) => ({
+          syncs: [...state.syncs.filter((s) => !sameSync(s, sync.targetId, sync.libraryId)), sync],
+        })),
+      finish: (targetId, libraryId, patch) =>
+        set((state) => ({
+          syncs: state.syncs.map((s) =>
+            sameSync(s, targetId, libraryId) ? { ...s, ...patch, finishedAt: new Date().toISOString() } : s
+          ),
+        })),
+      remove: (targetId, libraryId) =>
+        set((state) => ({ syncs: state.syncs.filter((s) => !sameSync(s, targetId, libraryId)) })),
+    }),
+    { name: "zpodweb-library-syncs" }
+  )
+)
@@ -0,0 +1,58 @@
+import { create } from "zustand"
+import { persist } from "zustand/middleware"
+import { generateId } from "@/lib/utils"
+
+export type ZpodTransitionKind = "active" | "deploy_failed" | "destroy_failed"
+
+export interface ZpodNotification {
+  id: string
+  targetId: string
+  zpodId: number
+  zpodName: string
+  kind: ZpodTransitionKind
+  from: string
+  to: string
+  createdAt: string // ISO timestamp
+  read: boolean
+}
+
+/** Oldest entries are dropped past this count */
+const MAX_NOTIFICATIONS = 50
+
+interface NotificationState {
+  notifications: ZpodNotification[]
+  addNotification: (n: Omit<ZpodNotification, "id" | "createdAt" | "read">) => void
+  markAllRead: (targetId: string) => void
+  removeNotification: (id: string) => void
+  clearNotifications: (targetId: string) => void
+}
+
+export const useNotificationStore = create<NotificationState>()(
+  persist(
+    (set) => ({
+      notifications: [],
+      addNotification: (n) =>
+        set((state) => ({
+          notifications: [
+            { ...n, id: generateId(), createdAt: new Date().toISOString(), read: false },
+            ...state.notifications,
+          ].slice(0, MAX_NOTIFICATIONS),
+        })),
+      markAllRead: (targetId) =>
+        set((state) => ({
+          notifications: state.notifications.map((n) =>
+            n.targetId === targetId ? { ...n, read: true } : n
+          ),
+        })),
+      removeNotification: (id) =>
+        set((state) => ({
+          notifications: state.notifications.filter((n) => n.id !== id),
+        })),
+      clearNotifications: (targetId) =>
+        set((state) => ({
+          notifications: state.notifications.filter((n) => n.targetId !== targetId),
+        })),
+    }),
+    { name: "zpodweb-notifications" }
+  )
+)
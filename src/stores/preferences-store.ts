@@ -1,17 +1,75 @@
 import { create } from "zustand"
 import { persist } from "zustand/middleware"
 
+export type NotifyScope = "own" | "all"
+
+export interface NotificationPrefs {
+  onActive: boolean // build finished (BUILDING/CONFIG_SCRIPTS → ACTIVE)
+  onDeployFailed: boolean
+  onDestroyFailed: boolean
+  scope: NotifyScope // "own" = zPods where the user is OWNER
+  desktop: boolean // raise OS notifications through the Notification API
+}
+
+export const DEFAULT_NOTIFICATION_PREFS: NotificationPrefs = {
+  onActive: true,
+  onDeployFailed: true,
+  onDestroyFailed: true,
+  scope: "own",
+  desktop: false,
+}
+
 interface PreferencesState {
   pollingInterval: number // seconds, 0 = disabled
+  notifications: Record<string, NotificationPrefs> // keyed by username
   setPollingInterval: (seconds: number) => void
+  setNotificationPrefs: (username: string, updates: Partial<NotificationPrefs>) => void
+  /** Settings import: take the polling interval if given, merge notification prefs per user */
+  importPreferences: (prefs: {
+    pollingInterval?: number
+    notifications: Record<string, Partial<NotificationPrefs>>
+  }) => void
 }
 
 export const usePreferencesStore = create<PreferencesState>()(
   persist(
     (set) => ({
       pollingInterval: 5,
+      notifications: {},
       setPollingInterval: (seconds) => set({ pollingInterval: seconds }),
+      setNotificationPrefs: (username, updates) =>
+        set((state) => ({
+          notifications: {
+            ...state.notifications,
+            [username]: {
+              ...DEFAULT_NOTIFICATION_PREFS,
+              ...state.notifications[username],
+              ...updates,
+            },
+          },
+        })),
+      importPreferences: (prefs) =>
+        set((state) => ({
+          pollingInterval: prefs.pollingInterval ?? state.pollingInterval,
+          notifications: {
+            ...state.notifications,
+            ...Object.fromEntries(
+              Object.entries(prefs.notifications).map(([username, updates]) => [
+                username,
+                { ...DEFAULT_NOTIFICATION_PREFS, ...state.notifications[username], ...updates },
+              ])
+            ),
+          },
+        })),
     }),
     { name: "zpodweb-preferences" }
   )
 )
+
+/** Notification preferences of a user, with defaults for unset fields */
+export function getNotificationPrefs(
+  notifications: Record<string, NotificationPrefs>,
+  username: string | undefined
+): NotificationPrefs {
+  return { ...DEFAULT_NOTIFICATION_PREFS, ...(username ? notifications[username] : undefined) }
+}
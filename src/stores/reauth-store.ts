@@ -0,0 +1,41 @@
+import { create } from "zustand"
+
+/** A request that failed authentication, parked until a new token is entered */
+export interface PendingRequest {
+  retry: () => void
+  cancel: () => void
+}
+
+interface ReauthState {
+  open: boolean
+  queued: number
+  enqueue: (request: PendingRequest) => void
+  /** Replay every parked request (the new token is already in the target store) */
+  resume: () => void
+  /** Fail every parked request with its original error */
+  cancel: () => void
+}
+
+// Callbacks are not state: keep them out of the store to avoid re-renders
+let queue: PendingRequest[] = []
+
+export const useReauthStore = create<ReauthState>()((set) => ({
+  open: false,
+  queued: 0,
+  enqueue: (request) => {
+    queue.push(request)
+    set({ open: true, queued: queue.length })
+  },
+  resume: () => {
+    const pending = queue
+    queue = []
+    set({ open: false, queued: 0 })
+    pending.forEach((r) => r.retry())
+  },
+  cancel: () => {
+    const pending = queue
+    queue = []
+    set({ open: false, queued: 0 })
+    pending.forEach((r) => r.cancel())
+  },
+}))
@@ -5,11 +5,19 @@ import type { TargetProfile } from "@/types"
 interface TargetState {
   targets: TargetProfile[]
   activeTargetId: string | null
+  /** Dashboard and zPods list show every saved target at once */
+  aggregate: boolean
+  /** Tokens live in the encrypted vault and are never written here */
+  tokensSealed: boolean
   addTarget: (target: TargetProfile) => void
   updateTarget: (id: string, updates: Partial<TargetProfile>) => void
   removeTarget: (id: string) => void
   setActiveTarget: (id: string) => void
   clearActiveTarget: () => void
+  setAggregate: (aggregate: boolean) => void
+  setTokensSealed: (sealed: boolean) => void
+  /** Replace every target's token, missing ids get an empty token */
+  setTokens: (tokens: Record<string, string>) => void
 }
 
 export const useTargetStore = create<TargetState>()(
@@ -17,6 +25,8 @@ export const useTargetStore = create<TargetState>()(
     (set) => ({
       targets: [],
       activeTargetId: null,
+      aggregate: false,
+      tokensSealed: false,
       addTarget: (target) =>
         set((state) => ({ targets: [...state.targets, target] })),
       updateTarget: (id, updates) =>
@@ -33,7 +43,19 @@ export const useTargetStore = create<TargetState>()(
         })),
       setActiveTarget: (id) => set({ activeTargetId: id }),
       clearActiveTarget: () => set({ activeTargetId: null }),
+      setAggregate: (aggregate) => set({ aggregate }),
+      setTokensSealed: (tokensSealed) => set({ tokensSealed }),
+      setTokens: (tokens) =>
+        set((state) => ({
+          targets: state.targets.map((t) => ({ ...t, token: tokens[t.id] ?? "" })),
+        })),
     }),
-    { name: "zpodweb-targets" }
+    {
+      name: "zpodweb-targets",
+      partialize: (state) =>
+        state.tokensSealed
+          ? { ...state, targets: state.targets.map((t) => ({ ...t, token: "" })) }
+          : state,
+    }
   )
 )
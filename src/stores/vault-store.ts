@@ -0,0 +1,110 @@
+import { create } from "zustand"
+import { persist } from "zustand/middleware"
+import { useTargetStore } from "@/stores/target-store"
+import { useAuthStore } from "@/stores/auth-store"
+import {
+  createVaultKey,
+  openVault,
+  sealTokens,
+  type TokenMap,
+  type VaultBlob,
+  type VaultKey,
+} from "@/lib/token-vault"
+import type { TargetProfile } from "@/types"
+
+interface VaultState {
+  vault: VaultBlob | null // null = tokens are stored in plain text
+  autoLockMinutes: number // 0 = never
+  unlocked: boolean // session only, never persisted
+  enable: (passphrase: string) => Promise<void>
+  unlock: (passphrase: string) => Promise<boolean>
+  lock: () => void
+  disable: () => void
+  /** Forgotten passphrase: drop the vault, targets keep an empty token */
+  reset: () => void
+  setAutoLockMinutes: (minutes: number) => void
+}
+
+// The derived key only lives in memory for the current page session
+let sessionKey: VaultKey | null = null
+let sealedTokens = ""
+let sealSeq = 0
+
+function tokenMap(targets: TargetProfile[]): TokenMap {
+  return Object.fromEntries(targets.map((t) => [t.id, t.token]))
+}
+
+export const useVaultStore = create<VaultState>()(
+  persist(
+    (set, get) => ({
+      vault: null,
+      autoLockMinutes: 15,
+      unlocked: false,
+      enable: async (passphrase) => {
+        const key = await createVaultKey(passphrase)
+        const tokens = tokenMap(useTargetStore.getState().targets)
+        const vault = await sealTokens(key, tokens)
+        sessionKey = key
+        sealedTokens = JSON.stringify(tokens)
+        set({ vault, unlocked: true })
+        useTargetStore.getState().setTokensSealed(true)
+      },
+      unlock: async (passphrase) => {
+        const { vault } = get()
+        if (!vault) return true
+        try {
+          const { vaultKey, tokens } = await openVault(passphrase, vault)
+          sessionKey = vaultKey
+          sealedTokens = JSON.stringify(tokens)
+          useTargetStore.getState().setTokens(tokens)
+          set({ unlocked: true })
+          return true
+        } catch {
+          return false
+        }
+      },
+      lock: () => {
+        if (!get().vault) return
+        sessionKey = null
+        set({ unlocked: false })
+        useTargetStore.getState().setTokens({})
+        useAuthStore.getState().logout()
+      },
+      disable: () => {
+        if (!get().unlocked) return
+        sessionKey = null
+        useTargetStore.getState().setTokensSealed(false)
+        set({ vault: null, unlocked: false })
+      },
+      reset: () => {
+        sessionKey = null
+        useTargetStore.getState().setTokensSealed(false)
+        set({ vault: null, unlocked: false })
+      },
+      setAutoLockMinutes: (autoLockMinutes) => set({ autoLockMinutes }),
+    }),
+    {
+      name: "zpodweb-vault",
+      partialize: (state) => ({ vault: state.vault, autoLockMinutes: state.autoLockMinutes }),
+    }
+  )
+)
+
+/** Tokens are sealed and not unlocked yet for this session */
+export function useVaultLocked(): boolean {
+  return useVaultStore((s) => s.vault != null && !s.unlocked)
+}
+
+// Re-encrypt whenever a target is added, removed or gets a new token
+useTargetStore.subscribe((state, prev) => {
+  if (!sessionKey || state.targets === prev.targets) return
+  const tokens = tokenMap(state.targets)
+  const serialized = JSON.stringify(tokens)
+  if (serialized === sealedTokens) return
+  sealedTokens = serialized
+  const seq = ++sealSeq
+  sealTokens(sessionKey, tokens).then((vault) => {
+    // A later write may have finished first
+    if (seq === sealSeq && sessionKey) useVaultStore.setState({ vault })
+  })
+})
@@ -17,6 +17,25 @@ export interface User {
   last_connection_date: string | null
 }
 
+export interface UserCreate {
+  username: string
+  email: string
+  description?: string | null
+  ssh_key?: string | null
+  superadmin?: boolean
+}
+
+export interface UserUpdate {
+  description?: string | null
+  ssh_key?: string | null
+  superadmin?: boolean
+}
+
+/** Returned only on creation and token regeneration */
+export interface UserWithToken extends User {
+  api_token: string
+}
+
 export const ZpodStatus = {
   ACTIVE: "ACTIVE",
   BUILDING: "BUILDING",
@@ -90,6 +109,15 @@ export interface EndpointNetworkCreate {
   t0: string
 }
 
+/** Partial endpoint update: only the fields sent are changed */
+export interface EndpointUpdate {
+  description?: string
+  endpoints?: {
+    compute?: Partial<Omit<EndpointComputeCreate, "driver" | "hostname" | "username">>
+    network?: Partial<Omit<EndpointNetworkCreate, "driver" | "hostname" | "username">>
+  }
+}
+
 export interface EndpointCreate {
   name: string
   description: string
@@ -99,13 +127,6 @@ export interface EndpointCreate {
   }
 }
 
-export interface EndpointPasswordUpdate {
-  endpoints: {
-    compute: { password: string }
-    network: { password: string }
-  }
-}
-
 // --- Inventory types (used by endpoint create/edit dialogs and test server) ---
 
 export interface DatastoreItem {
@@ -126,11 +147,20 @@ export interface VmFolderTreeItem {
   children: VmFolderTreeItem[]
 }
 
+export interface ContentLibraryItem {
+  name: string
+  type: "LOCAL" | "SUBSCRIBED"
+}
+
 export interface VsphereInventory {
   datacenters: string[]
   resourcePools: ResourcePoolItem[]
   datastores: DatastoreItem[]
   vmFolders: VmFolderTreeItem[]
+  storagePolicies: string[]
+  contentLibraries: ContentLibraryItem[]
+  /** Lookups that failed, as opposed to coming back empty */
+  errors?: { storagePolicies?: string; contentLibraries?: string }
 }
 
 export interface NsxInventory {
@@ -139,6 +169,36 @@ export interface NsxInventory {
   t0Gateways: string[]
 }
 
+/** Objects named after a zPod (`zPod-…`), from `/test/vsphere/zpod-objects` and `/test/nsx/zpod-objects` */
+export interface NsxPolicyObject {
+  name: string
+  path: string
+  createdAt: string | null
+}
+
+export interface NsxZpodObjects {
+  tier1s: NsxPolicyObject[]
+  segments: NsxPolicyObject[]
+}
+
+export interface VsphereVmItem {
+  name: string
+  folder: string
+  createdAt: string | null
+}
+
+export interface VsphereVmFolderItem {
+  name: string
+  path: string
+  vmCount: number
+  createdAt: string | null
+}
+
+export interface VsphereZpodObjects {
+  folders: VsphereVmFolderItem[]
+  vms: VsphereVmItem[]
+}
+
 export interface InventoryResult<T> {
   connected: boolean
   version?: string
@@ -146,6 +206,49 @@ export interface InventoryResult<T> {
   inventory?: T
 }
 
+/** `/test/vsphere` and `/test/nsx` response: connectivity plus per-field checks */
+export interface ConnectionTestResult {
+  connected: boolean
+  version?: string
+  error?: string
+  /** `error` is set when the lookup itself failed, `ok` then says nothing */
+  checks?: Record<string, { ok: boolean; capacityGB?: number; usedGB?: number; error?: string }>
+}
+
+// --- Endpoint health (server-side monitor, GET /health/endpoints) ---
+
+/** Hostnames, object names and errors are not exposed, the endpoint config has the names */
+export interface HealthCheck {
+  ok: boolean
+}
+
+export interface EndpointHealthSample {
+  at: string
+  vsphere: {
+    ok: boolean
+    latencyMs: number | null
+    datastore?: HealthCheck & { capacityGB?: number; usedGB?: number }
+  }
+  nsx: {
+    ok: boolean
+    latencyMs: number | null
+    edgecluster?: HealthCheck
+    t0?: HealthCheck
+  }
+}
+
+export interface EndpointHealthHistory {
+  name: string
+  samples: EndpointHealthSample[]
+}
+
+export interface EndpointHealthReport {
+  enabled: boolean
+  error: string | null
+  intervalSeconds: number
+  endpoints: EndpointHealthHistory[]
+}
+
 export interface ComponentFull {
   id: number
   component_uid: string
@@ -170,6 +273,17 @@ export interface Library {
   last_modified_date: string | null
 }
 
+export interface LibraryCreate {
+  name: string
+  git_url: string
+  description: string
+}
+
+export interface LibraryUpdate {
+  git_url?: string | null
+  description?: string | null
+}
+
 export interface ProfileItem {
   component_uid: string
   host_id: number | null
@@ -247,6 +361,8 @@ export interface ZpodNetwork {
   cidr: string
 }
 
+export type ZpodPermission = "OWNER" | "ADMIN" | "USER"
+
 export interface ZpodPermissionView {
   id: number
   permission: string
@@ -260,6 +376,11 @@ export interface ZpodCreate {
   domain?: string
 }
 
+export interface ZpodUpdate {
+  description?: string | null
+  features?: Record<string, unknown> | null
+}
+
 export interface Zpod {
   id: number
   name: string
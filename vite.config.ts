@@ -63,6 +63,14 @@ function apiProxyPlugin() {
         const { handleNsxInventory } = await import("./server/test-handlers.js")
         handleNsxInventory(req, res)
       })
+      server.middlewares.use("/test/vsphere/zpod-objects", async (req: IncomingMessage, res: ServerResponse) => {
+        const { handleVsphereZpodObjects } = await import("./server/test-handlers.js")
+        handleVsphereZpodObjects(req, res)
+      })
+      server.middlewares.use("/test/nsx/zpod-objects", async (req: IncomingMessage, res: ServerResponse) => {
+        const { handleNsxZpodObjects } = await import("./server/test-handlers.js")
+        handleNsxZpodObjects(req, res)
+      })
       server.middlewares.use("/test/vsphere", async (req: IncomingMessage, res: ServerResponse) => {
         const { handleVsphereTest } = await import("./server/test-handlers.js")
         handleVsphereTest(req, res)
@@ -72,6 +80,19 @@ function apiProxyPlugin() {
         handleNsxTest(req, res)
       })
 
+      // zPod status stream, one upstream poller per target shared by all tabs
+      server.middlewares.use("/events/zpods", async (req: IncomingMessage, res: ServerResponse) => {
+        const { handleZpodEvents } = await import("./server/zpod-events.js")
+        handleZpodEvents(req, res)
+      })
+
+      // Endpoint health history; the monitor starts with the dev server
+      import("./server/endpoint-health.js").then(({ startHealthMonitor }) => startHealthMonitor())
+      server.middlewares.use("/health/endpoints", async (req: IncomingMessage, res: ServerResponse) => {
+        const { handleEndpointHealth } = await import("./server/endpoint-health.js")
+        handleEndpointHealth(req, res)
+      })
+
       // Dynamic reverse proxy replicating Nginx /api/ behavior for local dev.
       // Routes each request to the zpodapi URL from the X-Target-Url header.
       server.middlewares.use("/api", (req: IncomingMessage, res: ServerResponse) => {
@@ -181,6 +202,10 @@ export default defineConfig(({ mode }) => {
   for (const [key, value] of Object.entries(debugEnv)) {
     process.env[key] = value
   }
+  // ...and ZPODWEB_HEALTH_* for the endpoint health monitor
+  for (const [key, value] of Object.entries(env)) {
+    if (key.startsWith("ZPODWEB_HEALTH_")) process.env[key] = value
+  }
   return {
     plugins: [react(), apiProxyPlugin()],
     envPrefix: "ZPODWEB_",